@@ -0,0 +1,328 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import type { RoutingStrategy, TcpPortRange, TunnelServerOptions } from '../server/server.js';
+
+/**
+ * Server options that can be set from flags, the environment and config files.
+ * Custom routers only make sense programmatically, so routing is limited to the
+ * built-in strategies here, and the TLS files are flattened into separate settings.
+ */
+export type ServerConfig = Omit<TunnelServerOptions, 'routing' | 'tls'> & {
+    routing?: RoutingStrategy[];
+    cert?: string;
+    key?: string;
+    ca?: string[];
+};
+
+type SettingKind = 'port' | 'portRange' | 'count' | 'limit' | 'size' | 'duration' | 'string' | 'url' | 'list' | 'routing' | 'boolean';
+
+export interface Setting {
+    name: string;  // Key in config files, the flag and environment variable are derived from it
+    option: keyof ServerConfig;
+    kind: SettingKind;
+    description: string;
+    flag?: string;  // Overrides the derived `--kebab-case` flag
+    secret?: boolean;  // Redacted by --print-config
+}
+
+/**
+ * Every server setting, in the order they're listed in --help and --print-config
+ */
+export const SETTINGS: Setting[] = [
+    { name: 'port', option: 'tunnelPort', kind: 'port', flag: '-p, --port <number>', description: 'port for tunnel to listen on (default: 4444)' },
+    { name: 'host', option: 'hostname', kind: 'string', description: 'interface to bind to (default: 0.0.0.0)' },
+    { name: 'cert', option: 'cert', kind: 'string', flag: '--cert <file>', description: 'PEM certificate to serve https:// and wss:// with, reloaded when it changes' },
+    { name: 'key', option: 'key', kind: 'string', flag: '--key <file>', description: 'PEM private key for the certificate' },
+    { name: 'ca', option: 'ca', kind: 'list', flag: '--ca <file>', description: 'additional CA certificate to serve, repeatable' },
+    { name: 'tcpPorts', option: 'tcpPorts', kind: 'portRange', description: 'port range clients may forward TCP connections from, e.g. 20000-20100 (default: TCP forwarding disabled)' },
+    { name: 'publicUrl', option: 'publicUrl', kind: 'url', description: 'base URL visitors reach the server at (default: http://<base-domain>:<port>)' },
+    { name: 'baseDomain', option: 'baseDomain', kind: 'string', description: 'domain tunnels are subdomains of (default: localhost)' },
+    { name: 'routing', option: 'routing', kind: 'routing', description: 'comma separated routing strategies to try in order: host, path, header (default: host)' },
+    { name: 'pathPrefix', option: 'pathPrefix', kind: 'string', description: 'prefix for path routing, as in /t/<subdomain>/ (default: /t)' },
+    { name: 'tunnelHeader', option: 'tunnelHeader', kind: 'string', description: 'header naming the tunnel for header routing (default: x-bunnel-tunnel)' },
+    { name: 'authTokens', option: 'authTokens', kind: 'list', flag: '--auth-token <token>', secret: true, description: 'shared secret clients must present, repeatable' },
+    { name: 'authSecret', option: 'authSecret', kind: 'string', secret: true, description: 'secret for verifying signed client tokens' },
+    { name: 'requestTimeout', option: 'requestTimeout', kind: 'duration', description: 'how long to wait for the local server to start responding (default: 30s)' },
+    { name: 'maxRequestTimeout', option: 'maxRequestTimeout', kind: 'duration', description: 'cap on the request timeouts clients set for their paths, 0 for no cap (default: 10m)' },
+    { name: 'idleTimeout', option: 'idleTimeout', kind: 'duration', description: 'close tunnels without traffic for this long, 0 to never (default: 5m)' },
+    { name: 'maxLifetime', option: 'maxLifetime', kind: 'duration', description: 'close tunnels this long after they opened, 0 for unlimited (default: 0)' },
+    { name: 'expiryWarning', option: 'expiryWarning', kind: 'duration', description: 'warn clients this long before their tunnel is closed (default: 1m)' },
+    { name: 'reconnectGrace', option: 'reconnectGrace', kind: 'duration', description: 'how long a dropped client has to reclaim its tunnel (default: 30s)' },
+    { name: 'heartbeatInterval', option: 'heartbeatInterval', kind: 'duration', description: 'time between pings to clients, 0 to disable (default: 15s)' },
+    { name: 'heartbeatMisses', option: 'heartbeatMisses', kind: 'count', description: 'unanswered pings before a client is considered gone (default: 3)' },
+    { name: 'adminToken', option: 'adminToken', kind: 'string', secret: true, description: 'bearer token for the admin API, which is off without one' },
+    { name: 'adminPort', option: 'adminPort', kind: 'port', description: 'port to serve the admin API on, 0 to serve it under /admin on the tunnel port (default: 0)' },
+    { name: 'adminHost', option: 'adminHost', kind: 'string', description: 'interface the admin port binds to (default: 127.0.0.1)' },
+    { name: 'metrics', option: 'metrics', kind: 'boolean', description: 'serve Prometheus metrics at /metrics, next to the admin API and behind its token, which is required unless there is an admin port' },
+    { name: 'metricsTunnelLabels', option: 'metricsTunnelLabels', kind: 'limit', description: 'tunnels labelled by subdomain in metrics, the rest are counted as other, 0 for none (default: 100)' },
+    { name: 'rateLimit', option: 'rateLimit', kind: 'limit', description: 'requests per second each tunnel accepts, 0 for no limit (default: 0)' },
+    { name: 'ipRateLimit', option: 'ipRateLimit', kind: 'limit', description: 'requests per second accepted from each visitor address across all tunnels, 0 for no limit (default: 0)' },
+    { name: 'maxInFlight', option: 'maxInFlight', kind: 'limit', description: 'HTTP requests each tunnel may have in progress at once, 0 for no limit (default: 0)' },
+    { name: 'maxRequestBody', option: 'maxRequestBody', kind: 'size', description: 'largest request body passed on to a tunnel, e.g. 10mb, 0 for no limit (default: 0)' },
+    { name: 'maxResponseBody', option: 'maxResponseBody', kind: 'size', description: 'largest response body passed back to a visitor, e.g. 100mb, 0 for no limit (default: 0)' }
+];
+
+const ROUTING_STRATEGIES = ['host', 'path', 'header'];
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, '': 1000, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+/**
+ * Parse a duration such as `90`, `500ms`, `15m`, `12h` or `30d` into milliseconds.
+ * Plain numbers are seconds.
+ */
+export function parseDuration(value: string | number): number {
+    const match = /^(\d+(?:\.\d+)?)(ms|[smhd]?)$/.exec(String(value).trim());
+    if (!match) {
+        throw new Error(`Invalid duration: ${value}`);
+    }
+    return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2]]);
+}
+
+/**
+ * Format milliseconds in the largest unit that represents them exactly
+ */
+export function formatDuration(ms: number): string {
+    for (const unit of ['d', 'h', 'm', 's']) {
+        if (ms > 0 && ms % DURATION_UNITS[unit] === 0) {
+            return `${ms / DURATION_UNITS[unit]}${unit}`;
+        }
+    }
+    return ms === 0 ? '0' : `${ms}ms`;
+}
+
+const SIZE_UNITS: Record<string, number> = { '': 1, b: 1, kb: 1024, mb: 1024 ** 2, gb: 1024 ** 3 };
+
+/**
+ * Parse a size such as `512`, `64kb`, `10mb` or `1gb` into bytes.
+ * Plain numbers are bytes.
+ */
+export function parseSize(value: string | number): number {
+    const match = /^(\d+(?:\.\d+)?)\s*(b|kb|mb|gb)?$/i.exec(String(value).trim());
+    if (!match) {
+        throw new Error(`Invalid size: ${value}`);
+    }
+    return Math.round(parseFloat(match[1]) * SIZE_UNITS[(match[2] ?? '').toLowerCase()]);
+}
+
+/**
+ * Format bytes in the largest unit that represents them exactly
+ */
+export function formatSize(bytes: number): string {
+    for (const unit of ['gb', 'mb', 'kb']) {
+        if (bytes > 0 && bytes % SIZE_UNITS[unit] === 0) {
+            return `${bytes / SIZE_UNITS[unit]}${unit}`;
+        }
+    }
+    return `${bytes}`;
+}
+
+/**
+ * Environment variable a setting is read from, e.g. `BUNNEL_IDLE_TIMEOUT`
+ */
+export function envName(setting: Setting): string {
+    return `BUNNEL_${setting.name.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`;
+}
+
+/**
+ * Commander flag for a setting, e.g. `--idle-timeout <value>`
+ */
+export function flagName(setting: Setting): string {
+    if (setting.flag) return setting.flag;
+
+    const kebab = setting.name.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+    if (setting.kind === 'boolean') return `--${kebab}`;
+    const placeholders: Partial<Record<SettingKind, string>> = { duration: 'duration', url: 'url', routing: 'strategies', count: 'number', limit: 'number', size: 'size', portRange: 'range' };
+    const placeholder = placeholders[setting.kind] ?? 'value';
+    return `--${kebab} <${placeholder}>`;
+}
+
+/**
+ * Long flag as typed, and the key commander stores its value under
+ */
+function longFlag(setting: Setting): { flag: string; key: string } {
+    const flag = flagName(setting).match(/--[\w-]+/)![0];
+    return { flag, key: flag.slice(2).replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase()) };
+}
+
+function parseList(value: unknown): string[] {
+    const items = Array.isArray(value) ? value : String(value).split(',');
+    return items.map(item => String(item).trim()).filter(Boolean);
+}
+
+function parseValue(setting: Setting, value: unknown): unknown {
+    switch (setting.kind) {
+        case 'port':
+        case 'count':
+        case 'limit': {
+            const number = typeof value === 'number' ? value : Number(String(value).trim());
+            if (setting.kind === 'port' && !(Number.isInteger(number) && number >= 0 && number <= 65535)) {
+                throw new Error(`expected a port from 0 to 65535, got '${value}'`);
+            }
+            if (setting.kind === 'count' && !(Number.isInteger(number) && number >= 1)) {
+                throw new Error(`expected a whole number of at least 1, got '${value}'`);
+            }
+            if (setting.kind === 'limit' && !(Number.isInteger(number) && number >= 0)) {
+                throw new Error(`expected a whole number, got '${value}'`);
+            }
+            return number;
+        }
+        case 'boolean':
+            if (typeof value === 'boolean') return value;
+            if (!/^(true|false|1|0)$/i.test(String(value).trim())) {
+                throw new Error(`expected true or false, got '${value}'`);
+            }
+            return /^(true|1)$/i.test(String(value).trim());
+        case 'portRange': {
+            // A single port, or an inclusive range such as 20000-20100
+            const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(String(value).trim());
+            const from = Number(match?.[1]);
+            const to = Number(match?.[2] ?? match?.[1]);
+            if (!match || from < 1 || to > 65535 || from > to) {
+                throw new Error(`expected a port or a range of ports such as 20000-20100, got '${value}'`);
+            }
+            return { from, to };
+        }
+        case 'size':
+            if (typeof value !== 'number' && typeof value !== 'string') {
+                throw new Error(`expected a size such as 512kb or 10mb, got '${value}'`);
+            }
+            return parseSize(value);
+        case 'duration':
+            if (typeof value !== 'number' && typeof value !== 'string') {
+                throw new Error(`expected a duration such as 30s or 5m, got '${value}'`);
+            }
+            return parseDuration(value);
+        case 'url': {
+            const url = String(value).trim();
+            if (url && !/^https?:$/.test(new URL(url).protocol)) {
+                throw new Error(`expected an http or https URL, got '${url}'`);
+            }
+            return url;
+        }
+        case 'list':
+            return parseList(value);
+        case 'routing': {
+            const strategies = parseList(value);
+            if (strategies.length === 0) {
+                throw new Error('at least one routing strategy is required');
+            }
+            for (const strategy of strategies) {
+                if (!ROUTING_STRATEGIES.includes(strategy)) {
+                    throw new Error(`unknown routing strategy '${strategy}', expected one of: ${ROUTING_STRATEGIES.join(', ')}`);
+                }
+            }
+            return strategies;
+        }
+        case 'string':
+            if (typeof value === 'object') {
+                throw new Error(`expected a string, got ${JSON.stringify(value)}`);
+            }
+            return String(value);
+    }
+}
+
+/**
+ * Read a JSON or TOML config file, keyed by setting name
+ */
+export function loadConfigFile(path: string): Record<string, unknown> {
+    const text = readFileSync(path, 'utf8');
+    const extension = extname(path).toLowerCase();
+
+    try {
+        let config: unknown;
+        switch (extension) {
+            case '.json':
+                config = JSON.parse(text);
+                break;
+            case '.toml':
+                config = Bun.TOML.parse(text);
+                break;
+            default:
+                throw new Error(`unsupported config file type '${extension}', use .json or .toml`);
+        }
+        if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+            throw new Error('expected an object of settings');
+        }
+        return config as Record<string, unknown>;
+    } catch (error) {
+        throw new Error(`Invalid config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Merge settings from a config file, the environment and command line flags,
+ * later sources taking precedence. Settings none of them set are left out,
+ * so the server falls back to its defaults.
+ * @param flags Parsed commander options, keyed by the camelCase flag name
+ * @throws Error naming the offending setting and where it came from
+ */
+export function resolveConfig(
+    file: Record<string, unknown> | null,
+    env: Record<string, string | undefined>,
+    flags: Record<string, unknown>
+): ServerConfig {
+    const known = new Set(SETTINGS.map(setting => setting.name));
+    for (const key of Object.keys(file ?? {})) {
+        if (!known.has(key)) {
+            throw new Error(`Unknown setting '${key}' in config file`);
+        }
+    }
+
+    const config: Record<string, unknown> = {};
+    for (const setting of SETTINGS) {
+        const { flag, key } = longFlag(setting);
+        const sources: [string, unknown][] = [
+            ['config file', file?.[setting.name]],
+            [envName(setting), env[envName(setting)]],
+            [flag, flags[key]]
+        ];
+
+        for (const [source, value] of sources) {
+            if (value === undefined || value === '') continue;
+            try {
+                config[setting.option] = parseValue(setting, value);
+            } catch (error) {
+                throw new Error(`Invalid ${setting.name} from ${source}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+    }
+    if (Boolean(config.cert) !== Boolean(config.key)) {
+        throw new Error('TLS needs both cert and key');
+    }
+    return config as ServerConfig;
+}
+
+/**
+ * Turn resolved settings into TunnelServer options
+ */
+export function toServerOptions(config: ServerConfig): TunnelServerOptions {
+    const { cert, key, ca, ...options } = config;
+    return {
+        ...options,
+        tls: cert && key ? { cert, key, ca } : undefined
+    };
+}
+
+/**
+ * Render the effective configuration as a config file, with secrets redacted
+ * @param defaults The server's defaults, for settings the config leaves out
+ */
+export function formatConfig(config: ServerConfig, defaults: TunnelServerOptions): string {
+    const output: Record<string, unknown> = {};
+    for (const setting of SETTINGS) {
+        const value = config[setting.option] ?? (defaults as Record<string, unknown>)[setting.option];
+        if (setting.secret && (Array.isArray(value) ? value.length > 0 : value)) {
+            output[setting.name] = Array.isArray(value) ? value.map(() => '<redacted>') : '<redacted>';
+        } else if (setting.kind === 'duration') {
+            output[setting.name] = formatDuration(value as number);
+        } else if (setting.kind === 'size') {
+            output[setting.name] = formatSize(value as number);
+        } else if (setting.kind === 'portRange' && value) {
+            const { from, to } = value as TcpPortRange;
+            output[setting.name] = from === to ? `${from}` : `${from}-${to}`;
+        } else {
+            output[setting.name] = value;
+        }
+    }
+    return JSON.stringify(output, null, 2);
+}
@@ -1,9 +1,22 @@
 #!/usr/bin/env bun
 import { Command } from 'commander';
-import type { TunnelServerOptions } from '../server/server.js';
+import { SETTINGS, envName, flagName, formatConfig, loadConfigFile, parseDuration, resolveConfig, toServerOptions } from './config.js';
+import type { ServerConfig } from './config.js';
 
 interface ServerOptions {
-    port: string;
+    config?: string;
+    printConfig?: boolean;
+    [setting: string]: unknown;
+}
+
+interface TokenOptions {
+    secret?: string;
+    subject?: string;
+    expiresIn?: string;
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+    return [...previous, value];
 }
 
 const program = new Command();
@@ -11,29 +24,81 @@ program
     .name('bunnel-server')
     .description('HTTP tunnel server for local development')
     .version('0.1.0')
-    .option('-p, --port <number>', 'port for tunnel to listen on', '4444')
-    .action(async (options: ServerOptions) => {
-        const { port } = options;
+    .option('-c, --config <file>', 'JSON or TOML config file, overridden by environment variables and flags (env: BUNNEL_CONFIG)')
+    .option('--print-config', 'print the effective configuration and exit');
+
+// Every setting can also come from the config file and a BUNNEL_* environment variable
+for (const setting of SETTINGS) {
+    const description = `${setting.description} (env: ${envName(setting)})`;
+    if (setting.kind === 'list') {
+        program.option(flagName(setting), description, collect);
+    } else {
+        program.option(flagName(setting), description);
+    }
+}
+
+program.action(async (options: ServerOptions) => {
+    const { default: TunnelServer, DEFAULT_OPTIONS } = await import('../server/server.js');
 
-        const serverOptions: TunnelServerOptions = {
-            tunnelPort: parseInt(port)
-        };
+    let serverOptions: ServerConfig;
+    try {
+        const configPath = options.config ?? process.env.BUNNEL_CONFIG;
+        const file = configPath ? loadConfigFile(configPath) : null;
+        serverOptions = resolveConfig(file, process.env, options);
+    } catch (error) {
+        console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+        process.exit(1);
+    }
 
-        console.log(`🚀 Starting tunnel server on ws://0.0.0.0:${port}...`);
+    if (options.printConfig) {
+        console.log(formatConfig(serverOptions, DEFAULT_OPTIONS));
+        return;
+    }
+
+    const host = serverOptions.hostname ?? DEFAULT_OPTIONS.hostname;
+    const port = serverOptions.tunnelPort ?? DEFAULT_OPTIONS.tunnelPort;
+    console.log(`🚀 Starting tunnel server on ${serverOptions.cert ? 'wss' : 'ws'}://${host}:${port}...`);
+    if (!serverOptions.authTokens?.length && !serverOptions.authSecret) {
+        console.log('⚠️  No auth tokens configured, any client can open a tunnel');
+    }
+
+    try {
+        const server = new TunnelServer(toServerOptions(serverOptions));
+        server.start();
+
+        // Handle graceful shutdown
+        process.on('SIGINT', () => {
+            console.log('\n🛑 Shutting down server...');
+            server.stop();
+            process.exit(0);
+        });
+    } catch (error) {
+        console.error('❌ Failed to start server:', error);
+        process.exit(1);
+    }
+});
+
+program
+    .command('token')
+    .description('sign a client auth token with the server\'s auth secret')
+    .option('--secret <secret>', 'auth secret (env: BUNNEL_AUTH_SECRET)')
+    .option('--subject <name>', 'who the token is for, shown in server logs')
+    .option('--expires-in <duration>', 'lifetime such as 12h or 30d, never expires if omitted')
+    .action(async (options: TokenOptions) => {
+        const secret = options.secret ?? process.env.BUNNEL_AUTH_SECRET;
+        if (!secret) {
+            console.error('❌ An auth secret is required, pass --secret or set BUNNEL_AUTH_SECRET');
+            process.exit(1);
+        }
 
         try {
-            const { default: TunnelServer } = await import('../server/server.js');
-            const server = new TunnelServer(serverOptions);
-            server.start();
-
-            // Handle graceful shutdown
-            process.on('SIGINT', () => {
-                console.log('\n🛑 Shutting down server...');
-                server.stop();
-                process.exit(0);
-            });
+            const { signAuthToken } = await import('../server/server.js');
+            const exp = options.expiresIn
+                ? Math.floor((Date.now() + parseDuration(options.expiresIn)) / 1000)
+                : undefined;
+            console.log(signAuthToken(secret, { sub: options.subject, exp }));
         } catch (error) {
-            console.error('❌ Failed to start server:', error);
+            console.error('❌ Failed to sign token:', error);
             process.exit(1);
         }
     });
@@ -0,0 +1,157 @@
+import { isIP } from 'node:net';
+import { safeEqual } from './auth';
+import type { HeaderList } from './protocol';
+
+/**
+ * Who may use a tunnel, as its client asked when connecting. Visitors have to
+ * come from one of the allowed addresses, if any are listed, and present the
+ * basic auth credentials or the bearer token, if either is set.
+ */
+export interface VisitorPolicy {
+    allow: AddressRange[];  // Everyone when empty
+    basicAuth?: string;  // `username:password`
+    token?: string;
+}
+
+/**
+ * What a tunnel's visitor policy enforces, as reported to its client and the admin API
+ */
+export interface VisitorAccess {
+    allow: string[];
+    basicAuth: boolean;
+    token: boolean;
+}
+
+interface AddressRange {
+    cidr: string;  // As the client gave it
+    version: 4 | 6;
+    network: bigint;
+    mask: bigint;
+}
+
+/**
+ * An IP address as a number, with IPv4-mapped IPv6 addresses such as
+ * `::ffff:10.0.0.1` treated as the IPv4 address they carry
+ */
+function parseAddress(address: string): { version: 4 | 6; value: bigint } | null {
+    address = address.replace(/%.*$/, '').replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+    switch (isIP(address)) {
+        case 4:
+            return { version: 4, value: address.split('.').reduce((value, part) => (value << 8n) | BigInt(part), 0n) };
+        case 6: {
+            // A trailing IPv4 part stands for the last two groups
+            const expanded = address.replace(/(\d+)\.(\d+)\.(\d+)\.(\d+)$/, (_, a, b, c, d) => {
+                return `${((Number(a) << 8) | Number(b)).toString(16)}:${((Number(c) << 8) | Number(d)).toString(16)}`;
+            });
+            const [head, tail] = expanded.split('::').map(half => half ? half.split(':') : []);
+            const groups = tail ? [...head, ...new Array(8 - head.length - tail.length).fill('0'), ...tail] : head;
+            return { version: 6, value: groups.reduce((value, group) => (value << 16n) | BigInt(parseInt(group, 16)), 0n) };
+        }
+        default:
+            return null;
+    }
+}
+
+/**
+ * Parse `address` or `address/prefix`, IPv4 or IPv6
+ * @returns null if it isn't one
+ */
+function parseRange(cidr: string): AddressRange | null {
+    const [address, prefix, ...rest] = cidr.split('/');
+    const parsed = parseAddress(address);
+    if (!parsed || rest.length > 0) return null;
+    const bits = parsed.version === 4 ? 32 : 128;
+    if (prefix !== undefined && !/^\d+$/.test(prefix)) return null;
+    const length = prefix === undefined ? bits : Number(prefix);
+    if (length > bits) return null;
+    const mask = ((1n << BigInt(length)) - 1n) << BigInt(bits - length);
+    return { cidr, version: parsed.version, network: parsed.value & mask, mask };
+}
+
+/**
+ * Read the visitor policy a client asks for from its connection headers:
+ * - `x-bunnel-allow`: comma separated addresses and CIDR ranges
+ * - `x-bunnel-basic-auth`: base64 `username:password`, as in a Basic Authorization header
+ * - `x-bunnel-visitor-token`: bearer token
+ * @returns the policy, or a message saying what's wrong with it
+ */
+export function parseVisitorPolicy(headers: Headers): VisitorPolicy | string {
+    const allow: AddressRange[] = [];
+    for (const entry of (headers.get('x-bunnel-allow') ?? '').split(',').map(entry => entry.trim()).filter(Boolean)) {
+        const range = parseRange(entry);
+        if (!range) {
+            return `Invalid address or CIDR range '${entry}' to allow visitors from`;
+        }
+        allow.push(range);
+    }
+
+    const encoded = headers.get('x-bunnel-basic-auth');
+    const basicAuth = encoded ? Buffer.from(encoded, 'base64').toString() : undefined;
+    if (basicAuth !== undefined && basicAuth.indexOf(':') < 1) {
+        return 'Invalid basic auth credentials for visitors, expected base64 of username:password';
+    }
+
+    const token = headers.get('x-bunnel-visitor-token') || undefined;
+    return { allow, basicAuth, token };
+}
+
+/**
+ * Summary of a policy without its secrets
+ */
+export function describeVisitorPolicy(policy: VisitorPolicy): VisitorAccess {
+    return {
+        allow: policy.allow.map(({ cidr }) => cidr),
+        basicAuth: policy.basicAuth !== undefined,
+        token: policy.token !== undefined
+    };
+}
+
+/**
+ * Check a visitor against a tunnel's policy
+ * @param address Where the visitor connected from
+ * @returns a 403 or 401 response if they're turned away
+ */
+export function checkVisitor(policy: VisitorPolicy, req: Request, address: string | undefined): Response | null {
+    if (!isAddressAllowed(policy, address)) {
+        return new Response('Forbidden: your address is not allowed to use this tunnel\n', {
+            status: 403,
+            headers: { 'content-type': 'text/plain' }
+        });
+    }
+    if (!policy.basicAuth && !policy.token) return null;
+
+    const [scheme, credentials] = (req.headers.get('authorization') ?? '').trim().split(/\s+/, 2);
+    if (policy.basicAuth && /^basic$/i.test(scheme) && credentials
+        && safeEqual(policy.basicAuth, Buffer.from(credentials, 'base64').toString())) {
+        return null;
+    }
+    if (policy.token && /^bearer$/i.test(scheme) && credentials && safeEqual(policy.token, credentials)) {
+        return null;
+    }
+
+    const headers = new Headers({ 'content-type': 'text/plain' });
+    if (policy.basicAuth) headers.append('www-authenticate', 'Basic realm="bunnel", charset="UTF-8"');
+    if (policy.token) headers.append('www-authenticate', 'Bearer realm="bunnel"');
+    return new Response('Unauthorized: this tunnel needs credentials\n', { status: 401, headers });
+}
+
+/**
+ * Check a visitor's address against the allowed ranges, e.g. for TCP
+ * connections, which can't carry credentials
+ */
+export function isAddressAllowed(policy: VisitorPolicy, address: string | undefined): boolean {
+    if (policy.allow.length === 0) return true;
+    const parsed = address ? parseAddress(address) : null;
+    return parsed !== null && policy.allow.some(({ version, network, mask }) => {
+        return version === parsed.version && (parsed.value & mask) === network;
+    });
+}
+
+/**
+ * Drop the credentials a visitor presented to the tunnel, so the local
+ * server doesn't see the tunnel's password or token
+ */
+export function stripVisitorCredentials(policy: VisitorPolicy, headers: HeaderList): HeaderList {
+    if (!policy.basicAuth && !policy.token) return headers;
+    return headers.filter(([name]) => name !== 'authorization');
+}
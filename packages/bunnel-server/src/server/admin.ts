@@ -0,0 +1,113 @@
+import { safeEqual } from './auth';
+import type { VisitorAccess } from './access';
+
+/**
+ * A tunnel as reported by the admin API
+ */
+export interface TunnelSummary {
+    subdomain: string;
+    url: string;
+    state: 'online' | 'offline';  // Offline tunnels are waiting for their client to reconnect
+    createdAt: string;
+    connectedAt: string;  // Last time the client connected, reconnections included
+    lastActive: string;  // Last HTTP request or WebSocket message through the tunnel
+    expiresAt?: string;  // When the idle timeout or maximum lifetime closes the tunnel, if nothing changes
+    authSubject?: string;
+    clientSockets: number;  // Open visitor WebSockets
+    inFlightRequests: number;  // HTTP requests still waiting on or streaming a response
+    tcpStreams: number;  // Open TCP connections
+    targets: Record<string, string>;  // Public URL of each named local target
+    tcp: Record<string, string>;  // Public `host:port` of each TCP forward
+    access: VisitorAccess;  // Who may use the tunnel
+}
+
+/**
+ * What the admin API can see and do, implemented by TunnelServer
+ */
+export interface AdminControls {
+    listTunnels(): TunnelSummary[];
+    closeTunnel(subdomain: string): boolean;
+    drain(): void;
+    isDraining(): boolean;
+}
+
+interface AdminErrorBody {
+    error: 'unauthorized' | 'not_found' | 'method_not_allowed';
+    message: string;
+}
+
+// Path the admin API is served under
+export const ADMIN_PATH = '/admin';
+
+function adminError(status: number, body: AdminErrorBody, headers: Record<string, string> = {}): Response {
+    return Response.json(body, { status, headers });
+}
+
+function methodNotAllowed(req: Request, allowed: string[]): Response {
+    return adminError(405, {
+        error: 'method_not_allowed',
+        message: `${req.method} is not allowed here, use ${allowed.join(' or ')}`
+    }, { allow: allowed.join(', ') });
+}
+
+/**
+ * Check a request carries `Authorization: Bearer <token>`
+ * @returns a 401 response if it doesn't
+ */
+export function checkAdminToken(req: Request, token: string): Response | null {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('authorization') ?? '');
+    if (match && safeEqual(token, match[1].trim())) return null;
+    return adminError(401, {
+        error: 'unauthorized',
+        message: 'Missing or invalid admin token'
+    }, { 'www-authenticate': 'Bearer' });
+}
+
+/**
+ * Answer a request for the admin API, which needs `Authorization: Bearer <token>`
+ * - `GET /admin/tunnels`: every tunnel, and whether the server is draining
+ * - `GET /admin/tunnels/<subdomain>`: a single tunnel
+ * - `DELETE /admin/tunnels/<subdomain>`: close a tunnel, the client doesn't reconnect
+ * - `POST /admin/drain`: stop accepting new tunnels, existing ones carry on
+ * @returns null if the request isn't for the admin API
+ */
+export function handleAdminRequest(req: Request, url: URL, token: string, controls: AdminControls): Response | null {
+    if (url.pathname !== ADMIN_PATH && !url.pathname.startsWith(`${ADMIN_PATH}/`)) {
+        return null;
+    }
+
+    const denied = checkAdminToken(req, token);
+    if (denied) return denied;
+
+    const path = url.pathname.slice(ADMIN_PATH.length).replace(/\/+$/, '');
+    if (path === '/tunnels') {
+        if (req.method !== 'GET') return methodNotAllowed(req, ['GET']);
+        return Response.json({ draining: controls.isDraining(), tunnels: controls.listTunnels() });
+    }
+
+    const tunnelPath = /^\/tunnels\/([^/]+)$/.exec(path);
+    if (tunnelPath) {
+        const subdomain = tunnelPath[1].toLowerCase();
+        const tunnel = controls.listTunnels().find(summary => summary.subdomain === subdomain);
+        if (!tunnel) {
+            return adminError(404, { error: 'not_found', message: `No tunnel with subdomain '${subdomain}'` });
+        }
+        switch (req.method) {
+            case 'GET':
+                return Response.json(tunnel);
+            case 'DELETE':
+                controls.closeTunnel(subdomain);
+                return new Response(null, { status: 204 });
+            default:
+                return methodNotAllowed(req, ['GET', 'DELETE']);
+        }
+    }
+
+    if (path === '/drain') {
+        if (req.method !== 'POST') return methodNotAllowed(req, ['POST']);
+        controls.drain();
+        return Response.json({ draining: true, tunnels: controls.listTunnels().length });
+    }
+
+    return adminError(404, { error: 'not_found', message: `Unknown admin endpoint ${url.pathname}` });
+}
@@ -0,0 +1,48 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * Claims carried by a signed auth token
+ */
+export interface AuthTokenClaims {
+    sub?: string;  // Who the token was issued to, for logging
+    exp?: number;  // Expiry in seconds since the epoch
+}
+
+/**
+ * Compare two secrets without leaking where they differ through timing
+ */
+export function safeEqual(expected: string, actual: string): boolean {
+    const expectedBytes = Buffer.from(expected);
+    const actualBytes = Buffer.from(actual);
+    return expectedBytes.length === actualBytes.length && timingSafeEqual(expectedBytes, actualBytes);
+}
+
+function sign(secret: string, payload: string): string {
+    return createHmac('sha256', secret).update(payload).digest('base64url');
+}
+
+/**
+ * Create a token of the form `<base64url claims>.<base64url HMAC-SHA256>`
+ */
+export function signAuthToken(secret: string, claims: AuthTokenClaims = {}): string {
+    const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+    return `${payload}.${sign(secret, payload)}`;
+}
+
+/**
+ * Verify a token created by signAuthToken
+ * @returns the token's claims, or null if the signature is invalid or the token has expired
+ */
+export function verifyAuthToken(secret: string, token: string): AuthTokenClaims | null {
+    const [payload, signature, ...rest] = token.split('.');
+    if (!payload || !signature || rest.length > 0) return null;
+    if (!safeEqual(sign(secret, payload), signature)) return null;
+
+    try {
+        const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as AuthTokenClaims;
+        if (claims.exp !== undefined && claims.exp * 1000 < Date.now()) return null;
+        return claims;
+    } catch {
+        return null;
+    }
+}
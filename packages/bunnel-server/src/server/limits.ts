@@ -0,0 +1,98 @@
+/**
+ * Which limit a visitor's request ran into, as counted in metrics and sent in
+ * the X-Bunnel-Limit header of the response turning it away. Responses cut off
+ * for `response_body` have already gone out without it.
+ */
+export type LimitKind = 'rate' | 'ip_rate' | 'in_flight' | 'request_body' | 'response_body';
+
+/**
+ * Outcome of taking a request from a rate limiter
+ */
+export interface RateDecision {
+    allowed: boolean;
+    retryAfter: number;  // Whole seconds until the next request would be allowed, 0 if this one was
+    first: boolean;  // First request turned away since one was last allowed, so a flood is logged once
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;  // performance.now() when tokens was last topped up
+    limited: boolean;  // The last request was turned away
+}
+
+/**
+ * Token bucket per key, such as a tunnel or a visitor's address. Each bucket
+ * holds a second's worth of requests and refills at the given rate, so short
+ * bursts get through as long as the average stays under it.
+ */
+export class RateLimiter {
+    private buckets: Map<string, Bucket> = new Map();
+
+    /**
+     * @param rate Requests per second allowed for each key
+     */
+    constructor(private readonly rate: number) {}
+
+    public take(key: string, now = performance.now()): RateDecision {
+        const bucket = this.refill(key, now);
+        if (bucket.tokens >= 1) {
+            bucket.tokens--;
+            bucket.limited = false;
+            return { allowed: true, retryAfter: 0, first: false };
+        }
+
+        const first = !bucket.limited;
+        bucket.limited = true;
+        return { allowed: false, retryAfter: Math.max(1, Math.ceil((1 - bucket.tokens) / this.rate)), first };
+    }
+
+    public forget(key: string): void {
+        this.buckets.delete(key);
+    }
+
+    /**
+     * Drop buckets that have refilled, they're no different from a new one
+     */
+    public sweep(now = performance.now()): void {
+        for (const key of [...this.buckets.keys()]) {
+            if (this.refill(key, now).tokens >= this.capacity) {
+                this.buckets.delete(key);
+            }
+        }
+    }
+
+    private get capacity(): number {
+        return Math.max(1, this.rate);
+    }
+
+    private refill(key: string, now: number): Bucket {
+        let bucket = this.buckets.get(key);
+        if (!bucket) {
+            bucket = { tokens: this.capacity, updatedAt: now, limited: false };
+            this.buckets.set(key, bucket);
+        }
+        bucket.tokens = Math.min(this.capacity, bucket.tokens + (now - bucket.updatedAt) / 1000 * this.rate);
+        bucket.updatedAt = now;
+        return bucket;
+    }
+}
+
+/**
+ * Plain text response for a request turned away by a limit
+ * @param retryAfter Seconds for the Retry-After header, if the visitor may try again
+ */
+export function limitResponse(status: number, message: string, limit: LimitKind, retryAfter?: number): Response {
+    const headers = new Headers({ 'content-type': 'text/plain', 'x-bunnel-limit': limit });
+    if (retryAfter !== undefined) headers.set('retry-after', String(retryAfter));
+    return new Response(`${message}\n`, { status, headers });
+}
+
+/**
+ * Byte count for messages, such as `10MB`
+ */
+export function formatBytes(bytes: number): string {
+    for (const [unit, size] of [['GB', 1024 ** 3], ['MB', 1024 ** 2], ['KB', 1024]] as const) {
+        if (bytes >= size && bytes % size === 0) return `${bytes / size}${unit}`;
+    }
+    return `${bytes} bytes`;
+}
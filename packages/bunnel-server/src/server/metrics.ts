@@ -0,0 +1,196 @@
+/**
+ * Prometheus metrics for the tunnel server, rendered in the text exposition
+ * format. Only the little the server needs: counters, gauges and histograms
+ * with a fixed set of label names each.
+ */
+
+type Labels = Record<string, string>;
+
+interface Series {
+    labels: Labels;
+    value: number;
+}
+
+// Label value for tunnels past the limit on individually labelled ones
+export const OTHER_TUNNELS = 'other';
+
+// Time to a response head, in seconds
+const LATENCY_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+function escapeLabelValue(value: string): string {
+    return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+    const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+function formatValue(value: number): string {
+    return value === Infinity ? '+Inf' : String(value);
+}
+
+abstract class Metric {
+    protected series: Map<string, Series> = new Map();
+
+    constructor(
+        public readonly name: string,
+        private readonly help: string,
+        private readonly type: 'counter' | 'gauge' | 'histogram',
+        private readonly labelNames: string[]
+    ) {}
+
+    /**
+     * Forget every series with this label value, e.g. those of a closed tunnel
+     */
+    public remove(name: string, value: string): void {
+        for (const [key, series] of this.series) {
+            if (series.labels[name] === value) {
+                this.series.delete(key);
+            }
+        }
+    }
+
+    public render(): string[] {
+        return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.renderSeries()];
+    }
+
+    protected abstract renderSeries(): string[];
+
+    protected get(labels: Labels): Series {
+        // Label names are fixed, so their values alone identify a series
+        const key = this.labelNames.map(name => labels[name] ?? '').join('\u0000');
+        let series = this.series.get(key);
+        if (!series) {
+            series = { labels: Object.fromEntries(this.labelNames.map(name => [name, labels[name] ?? ''])), value: 0 };
+            this.series.set(key, series);
+        }
+        return series;
+    }
+}
+
+export class Counter extends Metric {
+    constructor(name: string, help: string, labelNames: string[] = []) {
+        super(name, help, 'counter', labelNames);
+    }
+
+    public inc(labels: Labels = {}, value = 1): void {
+        this.get(labels).value += value;
+    }
+
+    protected renderSeries(): string[] {
+        return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+}
+
+export class Gauge extends Metric {
+    constructor(name: string, help: string, labelNames: string[] = []) {
+        super(name, help, 'gauge', labelNames);
+    }
+
+    public set(labels: Labels, value: number): void {
+        this.get(labels).value = value;
+    }
+
+    protected renderSeries(): string[] {
+        return [...this.series.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`);
+    }
+}
+
+export class Histogram extends Metric {
+    private buckets: Map<Series, number[]> = new Map();  // Count per bucket, not cumulative
+
+    constructor(name: string, help: string, labelNames: string[], private readonly bounds: number[]) {
+        super(name, help, 'histogram', labelNames);
+    }
+
+    public observe(labels: Labels, value: number): void {
+        const series = this.get(labels);
+        let counts = this.buckets.get(series);
+        if (!counts) {
+            counts = new Array(this.bounds.length + 1).fill(0);
+            this.buckets.set(series, counts);
+        }
+        const index = this.bounds.findIndex(bound => value <= bound);
+        counts[index === -1 ? this.bounds.length : index]++;
+        series.value += value;
+    }
+
+    public remove(name: string, value: string): void {
+        for (const series of this.series.values()) {
+            if (series.labels[name] === value) {
+                this.buckets.delete(series);
+            }
+        }
+        super.remove(name, value);
+    }
+
+    protected renderSeries(): string[] {
+        const lines: string[] = [];
+        for (const series of this.series.values()) {
+            const counts = this.buckets.get(series)!;
+            let cumulative = 0;
+            [...this.bounds, Infinity].forEach((bound, i) => {
+                cumulative += counts[i];
+                lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: formatValue(bound) })} ${cumulative}`);
+            });
+            lines.push(`${this.name}_sum${formatLabels(series.labels)} ${series.value}`);
+            lines.push(`${this.name}_count${formatLabels(series.labels)} ${cumulative}`);
+        }
+        return lines;
+    }
+}
+
+/**
+ * Everything the tunnel server measures. Tunnels are labelled by subdomain up
+ * to a limit, the rest share the `other` label so a busy server can't grow
+ * the number of series without bound.
+ */
+export class TunnelMetrics {
+    public readonly tunnels = new Gauge('bunnel_tunnels', 'Tunnels held by the server, offline ones are waiting for their client to reconnect', ['state']);
+    public readonly tunnelsOpened = new Counter('bunnel_tunnels_opened_total', 'Tunnels opened');
+    public readonly reconnects = new Counter('bunnel_control_reconnects_total', 'Clients reclaiming their tunnel over a new control connection', ['tunnel']);
+    public readonly requests = new Counter('bunnel_http_requests_total', 'HTTP requests forwarded through a tunnel, by response status', ['tunnel', 'status']);
+    public readonly latency = new Histogram('bunnel_http_request_duration_seconds', 'Time from a request arriving to its response head being sent to the visitor', ['tunnel'], LATENCY_BUCKETS);
+    public readonly timeouts = new Counter('bunnel_http_request_timeouts_total', 'Requests answered 504 because the local server did not respond in time, by the limit that was hit', ['tunnel', 'limit']);
+    public readonly lost = new Counter('bunnel_http_requests_lost_total', 'Requests answered 502 because their tunnel closed or lost its control connection', ['tunnel']);
+    public readonly limited = new Counter('bunnel_http_requests_limited_total', 'Requests turned away or cut off by a rate, in-flight or body size limit, by the limit that was hit', ['tunnel', 'limit']);
+    public readonly bytesReceived = new Counter('bunnel_received_bytes_total', 'Bytes received from visitors, by protocol', ['tunnel', 'protocol']);
+    public readonly bytesSent = new Counter('bunnel_sent_bytes_total', 'Bytes sent to visitors, by protocol', ['tunnel', 'protocol']);
+
+    private labelled: Set<string> = new Set();  // Subdomains with labels of their own
+
+    /**
+     * @param maxTunnelLabels Tunnels labelled by subdomain at any one time, 0 for none
+     */
+    constructor(private readonly maxTunnelLabels: number) {}
+
+    /**
+     * Label for a newly opened tunnel, its subdomain if there's room for another
+     */
+    public labelFor(subdomain: string): string {
+        if (this.labelled.has(subdomain) || this.labelled.size < this.maxTunnelLabels) {
+            this.labelled.add(subdomain);
+            return subdomain;
+        }
+        return OTHER_TUNNELS;
+    }
+
+    /**
+     * Drop the series of a closed tunnel, making room for another to be labelled
+     */
+    public release(subdomain: string): void {
+        if (!this.labelled.delete(subdomain)) return;
+        for (const metric of this.all()) {
+            metric.remove('tunnel', subdomain);
+        }
+    }
+
+    public render(): string {
+        return this.all().flatMap(metric => metric.render()).join('\n') + '\n';
+    }
+
+    private all(): Metric[] {
+        return [this.tunnels, this.tunnelsOpened, this.reconnects, this.requests, this.latency, this.timeouts, this.lost, this.limited, this.bytesReceived, this.bytesSent];
+    }
+}
@@ -0,0 +1,200 @@
+/**
+ * Binary framing used on the control WebSocket.
+ *
+ * JSON text messages carry connection-level events (e.g. `connected`), while
+ * everything that belongs to a single tunneled request travels as a binary
+ * frame so bodies arrive byte-for-byte intact and can be streamed in chunks:
+ *
+ *   [type: u8][id length: u8][id: utf-8][payload]
+ *
+ * The server and client packages each carry this file and mux.ts, which must
+ * stay identical, as test/shared-copies.test.ts checks. Change both together.
+ */
+export const FrameType = {
+    RequestStart: 0x01,   // payload: JSON TunnelRequest
+    RequestBody: 0x02,    // payload: raw body chunk
+    RequestEnd: 0x03,     // no payload
+    ResponseStart: 0x04,  // payload: JSON TunnelResponse
+    ResponseBody: 0x05,   // payload: raw body chunk
+    ResponseEnd: 0x06,    // no payload
+    ResponseError: 0x07,  // payload: utf-8 error message
+    WindowUpdate: 0x08,   // payload: u32 count of body or TcpData bytes consumed since the last update
+    RequestCancel: 0x09,  // payload: utf-8 reason (server -> client), the response is no longer wanted
+    WsOpen: 0x10,         // payload: JSON WebSocketOpen (server -> client)
+    WsOpened: 0x11,       // payload: JSON WebSocketOpened (client -> server)
+    WsText: 0x12,         // payload: utf-8 message
+    WsBinary: 0x13,       // payload: raw message
+    WsClose: 0x14,        // payload: JSON WebSocketClose
+    TcpOpen: 0x20,        // payload: JSON TcpOpen (server -> client)
+    TcpOpened: 0x21,      // no payload (client -> server)
+    TcpData: 0x22,        // payload: raw bytes
+    TcpEnd: 0x24,         // no payload, the sender's side won't send more (half close)
+    TcpClose: 0x25        // payload: utf-8 error message, empty for a clean close
+} as const;
+
+export type FrameType = typeof FrameType[keyof typeof FrameType];
+
+/**
+ * Codes the server closes a control connection with when it ends the tunnel
+ * on purpose, so the client can tell why it went away
+ */
+export const ControlCloseCode = {
+    ServerShutdown: 1001,  // Server is stopping, it may come back
+    IdleTimeout: 4000,     // No traffic through the tunnel for too long
+    Expired: 4001,         // Tunnel reached its maximum lifetime
+    Closed: 4002           // Closed by the server operator, e.g. through the admin API
+} as const;
+
+export interface Frame {
+    type: FrameType;
+    id: string;
+    payload: Uint8Array;
+}
+
+/**
+ * Headers as ordered name/value pairs with lowercase names. Unlike a plain
+ * object this keeps repeated headers such as Set-Cookie apart.
+ */
+export type HeaderList = [name: string, value: string][];
+
+export interface WebSocketOpen {
+    path: string;
+    headers: HeaderList;
+    protocols: string[];
+    tunnelUrl?: string;  // Public tunnel URL the visitor addressed
+    target?: string;  // Named local target, unset for the default one
+}
+
+export interface TcpOpen {
+    forward: string;  // Name of the TCP forward the connection came in on
+    remoteAddress: string;
+}
+
+/**
+ * Bytes of a request body, response body or TCP stream that may be in flight
+ * before the receiver reports them consumed. The sender stops once it's reached.
+ */
+export const STREAM_WINDOW = 256 * 1024;
+
+export interface WebSocketOpened {
+    protocol: string;
+}
+
+export interface WebSocketClose {
+    code: number;
+    reason: string;
+}
+
+// Headers describing a single connection rather than the message, which must
+// not be passed on by a proxy (RFC 9110, section 7.6.1)
+const HOP_BY_HOP_HEADERS = [
+    'connection',
+    'keep-alive',
+    'proxy-authenticate',
+    'proxy-authorization',
+    'proxy-connection',
+    'te',
+    'trailer',
+    'transfer-encoding',
+    'upgrade'
+];
+
+/**
+ * Copy fetch Headers into a HeaderList, with each Set-Cookie as its own entry
+ */
+export function headersToList(headers: Headers): HeaderList {
+    const list: HeaderList = [];
+    headers.forEach((value, name) => {
+        if (name !== 'set-cookie') {
+            list.push([name, value]);
+        }
+    });
+    for (const cookie of headers.getSetCookie()) {
+        list.push(['set-cookie', cookie]);
+    }
+    return list;
+}
+
+// Handshake headers that belong to the visitor's WebSocket connection, the local
+// socket negotiates its own. Subprotocols are passed on separately.
+export const WEBSOCKET_HANDSHAKE_HEADERS = [
+    'sec-websocket-key',
+    'sec-websocket-version',
+    'sec-websocket-extensions',
+    'sec-websocket-protocol'
+];
+
+/**
+ * Drop hop-by-hop headers, including any the Connection header lists
+ * @param extra Further headers to drop, e.g. framing that no longer applies
+ */
+export function stripHopByHopHeaders(headers: HeaderList, extra: string[] = []): HeaderList {
+    const listed = headers
+        .filter(([name]) => name === 'connection')
+        .flatMap(([, value]) => value.split(',').map(token => token.trim().toLowerCase()));
+    const dropped = new Set([...HOP_BY_HOP_HEADERS, ...listed, ...extra]);
+    return headers.filter(([name]) => !dropped.has(name));
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export function encodeFrame(type: FrameType, id: string, payload?: Uint8Array | string): Uint8Array {
+    const idBytes = encoder.encode(id);
+    if (idBytes.length > 255) {
+        throw new Error(`Frame id too long: ${id}`);
+    }
+
+    const body = typeof payload === 'string' ? encoder.encode(payload) : payload ?? new Uint8Array(0);
+    const frame = new Uint8Array(2 + idBytes.length + body.length);
+    frame[0] = type;
+    frame[1] = idBytes.length;
+    frame.set(idBytes, 2);
+    frame.set(body, 2 + idBytes.length);
+    return frame;
+}
+
+export function encodeJsonFrame(type: FrameType, id: string, value: unknown): Uint8Array {
+    return encodeFrame(type, id, JSON.stringify(value));
+}
+
+export function decodeFrame(data: Uint8Array): Frame {
+    if (data.length < 2 || data.length < 2 + data[1]) {
+        throw new Error('Malformed tunnel frame');
+    }
+
+    const idLength = data[1];
+    return {
+        type: data[0] as FrameType,
+        id: decoder.decode(data.subarray(2, 2 + idLength)),
+        payload: data.subarray(2 + idLength)
+    };
+}
+
+export function encodeWindowUpdate(id: string, bytes: number): Uint8Array {
+    const payload = new Uint8Array(4);
+    new DataView(payload.buffer).setUint32(0, bytes);
+    return encodeFrame(FrameType.WindowUpdate, id, payload);
+}
+
+export function decodeWindowUpdate(payload: Uint8Array): number {
+    return new DataView(payload.buffer, payload.byteOffset, payload.byteLength).getUint32(0);
+}
+
+export function decodeJsonPayload<T>(payload: Uint8Array): T {
+    return JSON.parse(decoder.decode(payload)) as T;
+}
+
+export function decodeTextPayload(payload: Uint8Array): string {
+    return decoder.decode(payload);
+}
+
+/**
+ * Close codes that may be passed to `close()`; the rest are reserved for
+ * reporting (e.g. 1005 "no status", 1006 "abnormal closure") and must not be sent.
+ */
+export function isSendableCloseCode(code: number): boolean {
+    return (code >= 1000 && code <= 1003) ||
+        (code >= 1007 && code <= 1014) ||
+        (code >= 3000 && code <= 4999);
+}
@@ -0,0 +1,105 @@
+/**
+ * Where a visitor request is headed once the tunnel has been picked out of it
+ */
+export interface TunnelRoute {
+    subdomain: string;
+    path: string;  // Path and query to request from the local server
+    routingHeaders?: string[];  // Request headers that picked the tunnel, kept from the local server
+}
+
+/**
+ * A route along with the tunnel URL of the router that matched it
+ */
+export interface MatchedRoute extends TunnelRoute {
+    tunnelUrl: string;
+    target?: string;  // Named local target, when the subdomain belongs to one
+}
+
+/**
+ * Strategy for addressing tunnels. The server tries its routers in order and
+ * the first one also decides the public URL it reports to clients.
+ */
+export interface TunnelRouter {
+    /**
+     * Pick the tunnel a visitor request is addressed to
+     * @returns null if the request isn't meant for a tunnel
+     */
+    match(req: Request, url: URL): TunnelRoute | null;
+
+    /**
+     * Public URL visitors use to reach a tunnel
+     * @param publicUrl Base URL the server is reachable at
+     */
+    tunnelUrl(subdomain: string, publicUrl: URL): string;
+}
+
+export type RoutingStrategy = 'host' | 'path' | 'header';
+
+/**
+ * Route `<subdomain>.<baseDomain>` hosts, e.g. `abc123.localhost` or `abc123.tunnels.example.internal`
+ */
+export function hostRouter(baseDomain: string): TunnelRouter {
+    const suffix = `.${baseDomain.toLowerCase()}`;
+
+    return {
+        match(req, url) {
+            const host = (req.headers.get('host') || url.host).toLowerCase();
+            const hostname = host.replace(/:\d+$/, '');
+            if (!hostname.endsWith(suffix)) return null;
+
+            // Exactly one label in front of the base domain
+            const subdomain = hostname.slice(0, -suffix.length);
+            if (!subdomain || subdomain.includes('.')) return null;
+
+            return { subdomain, path: url.pathname + url.search };
+        },
+        tunnelUrl(subdomain, publicUrl) {
+            return `${publicUrl.protocol}//${subdomain}.${publicUrl.host}`;
+        }
+    };
+}
+
+/**
+ * Route `<prefix>/<subdomain>/...` paths, stripping the prefix and subdomain before forwarding
+ */
+export function pathRouter(prefix: string): TunnelRouter {
+    const base = `/${prefix.replace(/^\/+|\/+$/g, '')}/`;
+
+    return {
+        match(_req, url) {
+            if (!url.pathname.startsWith(base)) return null;
+
+            const rest = url.pathname.slice(base.length);
+            const slash = rest.indexOf('/');
+            const subdomain = slash === -1 ? rest : rest.slice(0, slash);
+            if (!subdomain) return null;
+
+            const path = slash === -1 ? '/' : rest.slice(slash);
+            return { subdomain: subdomain.toLowerCase(), path: path + url.search };
+        },
+        tunnelUrl(subdomain, publicUrl) {
+            return `${publicUrl.origin}${base}${subdomain}/`;
+        }
+    };
+}
+
+/**
+ * Route requests carrying the tunnel's subdomain in a header, e.g. `X-Bunnel-Tunnel: abc123`,
+ * dropping the header before forwarding
+ */
+export function headerRouter(header: string): TunnelRouter {
+    const name = header.toLowerCase();
+
+    return {
+        match(req, url) {
+            const subdomain = req.headers.get(name)?.trim().toLowerCase();
+            if (!subdomain) return null;
+
+            return { subdomain, path: url.pathname + url.search, routingHeaders: [name] };
+        },
+        tunnelUrl(_subdomain, publicUrl) {
+            // Visitors reach every tunnel through the same URL and pick one with the header
+            return publicUrl.origin;
+        }
+    };
+}
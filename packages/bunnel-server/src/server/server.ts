@@ -1,6 +1,22 @@
-import type { Server, ServerWebSocket } from "bun";
+import type { Server, ServerWebSocket, Socket, TCPSocketListener, TLSOptions, TLSWebSocketServeOptions } from "bun";
 import { init } from '@paralleldrive/cuid2';
+import { createPrivateKey, createPublicKey, randomBytes } from 'node:crypto';
+import type { KeyObject } from 'node:crypto';
+import { readFileSync, unwatchFile, watchFile } from 'node:fs';
 import logger from './logger';
+import { safeEqual, verifyAuthToken } from './auth';
+import { checkVisitor, describeVisitorPolicy, isAddressAllowed, parseVisitorPolicy, stripVisitorCredentials } from './access';
+import type { VisitorAccess, VisitorPolicy } from './access';
+import { checkAdminToken, handleAdminRequest } from './admin';
+import type { AdminControls, TunnelSummary } from './admin';
+import { RateLimiter, formatBytes, limitResponse } from './limits';
+import { OTHER_TUNNELS, TunnelMetrics } from './metrics';
+import { Multiplexer, ReceiveWindow, SendWindow } from './mux';
+import { TcpStream } from './tcp';
+import { headerRouter, hostRouter, pathRouter } from './router';
+import type { MatchedRoute, RoutingStrategy, TunnelRouter } from './router';
+import { ControlCloseCode, FrameType, STREAM_WINDOW, WEBSOCKET_HANDSHAKE_HEADERS, decodeFrame, decodeJsonPayload, decodeTextPayload, decodeWindowUpdate, encodeFrame, encodeJsonFrame, encodeWindowUpdate, headersToList, isSendableCloseCode, stripHopByHopHeaders } from './protocol';
+import type { Frame, HeaderList, TcpOpen, WebSocketClose, WebSocketOpen, WebSocketOpened } from './protocol';
 
 const createId = init({
     length: 12
@@ -9,306 +25,1010 @@ const createId = init({
 interface TunnelData {
     subdomain: string;
     isControl?: boolean;
+    connectionId?: string;  // Set on tunneled client connections
+    resume?: boolean;       // Control connection reclaiming an existing tunnel
+    authSubject?: string;   // Subject of the signed token the control connection presented
+    targets?: Map<string, string>;  // Named local targets of a new control connection, name to subdomain
+    tcpForwards?: Map<string, TcpForward>;  // TCP forwards bound for a new control connection
+    timeouts?: RouteTimeout[];  // Request timeouts a new control connection asked for
+    visitorPolicy?: VisitorPolicy;  // Who a new control connection lets use the tunnel
+}
+
+/**
+ * Request timeout a client asked for on paths matching a pattern, such as `/reports/*`
+ */
+interface RouteTimeout {
+    pattern: string;
+    matcher: RegExp;
+    timeout: number;  // Time in ms, before capping at maxRequestTimeout
+}
+
+/**
+ * Which limit a request's timeout came from, reported with the 504 once it's hit
+ */
+type TimeoutLimit = 'default' | 'route' | 'max';
+
+/**
+ * A port listening on behalf of a tunnel, whose connections the client dials locally
+ */
+interface TcpForward {
+    port: number;
+    listener: TCPSocketListener<TcpStream | undefined>;
 }
 
 interface TunnelRequest {
     id: string;
     method: string;
     path: string;
-    headers: Record<string, string>;
-    body: string | null;
+    headers: HeaderList;
+    hasBody: boolean;  // Body follows as RequestBody frames
+    tunnelUrl: string;  // Public tunnel URL the visitor addressed
+    target?: string;  // Named local target, unset for the default one
+    queued: number;  // Milliseconds the server held the request before forwarding it, e.g. while the client reconnected
 }
 
 interface TunnelResponse {
     id: string;
     status: number;
-    headers: Record<string, string>;
-    body: string;
+    headers: HeaderList;
+}
+
+interface PendingRequest {
+    resolve: (response: Response) => void;
+    responded: boolean;  // Set once the response head has arrived
+    timeout: ReturnType<typeof setTimeout>;  // Cleared once the response head has arrived
+    body?: ReceiveWindow;
+    bodyBytes: number;  // Response body received so far, for the size limit
+}
+
+type UpgradeResult =
+    | { accepted: true; protocol: string }
+    | { accepted: false; close: WebSocketClose };
+
+interface PendingUpgrade {
+    resolve: (result: UpgradeResult) => void;
+    backlog: Frame[];  // Local messages that arrive before the visitor socket opens
+    closed?: WebSocketClose;
 }
 
 interface ConnectedMessage {
     type: 'connected';
     subdomain: string;
+    resumeToken: string;  // Presented on reconnect to reclaim the subdomain
+    url: string;          // Public URL visitors reach the tunnel at
+    targets: Record<string, string>;  // Public URL of each named local target
+    tcp: Record<string, string>;  // Public `host:port` of each TCP forward
+    timeouts: Record<string, number>;  // Request timeout in ms for each path pattern, as enforced
+    access: VisitorAccess;  // Who may use the tunnel, as enforced
+    expiresAt?: number;   // When the tunnel reaches its maximum lifetime
+}
+
+type ExpiryReason = 'idle_timeout' | 'expired';
+
+/**
+ * Sent ahead of the server closing a tunnel for being idle or too old
+ */
+interface ExpiringMessage {
+    type: 'expiring';
+    reason: ExpiryReason;
+    expiresAt: number;
+}
+
+/**
+ * Body of the error response sent when a control connection is refused
+ */
+interface ControlErrorBody {
+    error: 'unauthorized' | 'invalid_subdomain' | 'invalid_target' | 'subdomain_taken' | 'invalid_tcp_forward' | 'tcp_unavailable' | 'port_taken' | 'invalid_timeout' | 'invalid_access' | 'draining';
+    message: string;
 }
 
 interface TunnelInfo {
     controlSocket: ServerWebSocket<TunnelData>;
-    clientSockets: Set<ServerWebSocket<TunnelData>>;
+    mux: Multiplexer;  // Everything bound for the client goes through here, except control messages
+    clientSockets: Map<string, ServerWebSocket<TunnelData>>;  // Keyed by connection ID
     state: 'online' | 'offline';
     graceTimeout?: number;  // Timer ID for reconnection window
-    lastActive: number;     // Timestamp for activity tracking
+    createdAt: number;      // Kept across reconnections, for the maximum lifetime
+    connectedAt: number;    // Last time the control connection opened
+    lastActive: number;     // Last HTTP request or WebSocket message through the tunnel
+    warnedExpiry?: number;  // Expiry time the client was last warned about
+    missedHeartbeats: number;  // Pings sent since the control socket was last heard from
+    resumeToken: string;
+    authSubject?: string;
+    targets: Map<string, string>;  // Named local targets, name to their own subdomain
+    tcpForwards: Map<string, TcpForward>;  // Keyed by name
+    tcpStreams: Map<string, TcpStream>;  // Tunneled TCP connections, keyed by stream ID
+    timeouts: RouteTimeout[];  // First match wins
+    visitorPolicy: VisitorPolicy;  // Checked before anything reaches the client
+    pendingRequests: Map<string, PendingRequest>;  // In-flight HTTP requests, keyed by request ID
+    requestBodies: Map<string, SendWindow>;  // Request bodies still being sent, keyed by request ID
+    pendingUpgrades: Map<string, PendingUpgrade>;  // Visitor WebSockets waiting on the local server
+    metricsLabel: string;  // Tunnel label in metrics, its subdomain or `other`
+    onlineWaiters: Set<(online: boolean) => void>;  // Requests queued while offline
+    saturated: boolean;  // The last request was turned away for too many in flight, so it's logged once
+}
+
+/**
+ * Inclusive range of ports TCP forwards may listen on
+ */
+export interface TcpPortRange {
+    from: number;
+    to: number;
+}
+
+/**
+ * Certificate files for serving https:// and wss:// directly
+ */
+export interface TunnelServerTls {
+    cert: string;  // Path to the PEM certificate, including any intermediates
+    key: string;  // Path to the PEM private key
+    ca?: string[];  // Paths to additional CA certificates
+    passphrase?: string;  // For an encrypted private key
 }
 
 export interface TunnelServerOptions {
     tunnelPort?: number; // Port for the WS tunnel
-    idleTimeout?: number;  // Time in ms before cleaning up idle tunnels
+    hostname?: string;  // Interface to bind to
+    tls?: TunnelServerTls;  // Reloaded whenever the certificate or key file changes
+    tcpPorts?: TcpPortRange;  // Ports clients may forward TCP connections from, TCP forwarding is off without it
+    requestTimeout?: number;  // Time in ms to wait for the local server to start responding
+    maxRequestTimeout?: number;  // Cap in ms on the request timeouts clients ask for, 0 for no cap
+    idleTimeout?: number;  // Time in ms without traffic before closing a tunnel, 0 disables it
+    maxLifetime?: number;  // Time in ms before closing a tunnel regardless of traffic, 0 disables it
+    expiryWarning?: number;  // Time in ms before either limit to warn the client
     reconnectGrace?: number;  // Time in ms to allow for reconnection
+    authTokens?: string[];  // Shared secrets accepted from control connections
+    authSecret?: string;  // HMAC secret for verifying signed tokens (see signAuthToken)
+    baseDomain?: string;  // Domain tunnels are subdomains of for host routing
+    publicUrl?: string;  // Base URL visitors reach the server at, defaults to http://<baseDomain>:<tunnelPort>
+    pathPrefix?: string;  // Prefix for path routing, as in /t/<subdomain>/...
+    tunnelHeader?: string;  // Header naming the tunnel for header routing
+    routing?: (RoutingStrategy | TunnelRouter)[];  // Tried in order, the first one decides tunnel URLs
+    heartbeatInterval?: number;  // Time in ms between pings to control connections, 0 disables them
+    heartbeatMisses?: number;  // Unanswered pings before a control connection is considered dead
+    adminToken?: string;  // Bearer token for the admin API, which is off without one
+    adminPort?: number;  // Port to serve the admin API on, 0 to serve it under /admin on the tunnel port
+    adminHost?: string;  // Interface the admin port binds to
+    metrics?: boolean;  // Serve Prometheus metrics at /metrics, next to the admin API
+    metricsTunnelLabels?: number;  // Tunnels labelled by subdomain in metrics, the rest are `other`
+    rateLimit?: number;  // Requests per second each tunnel accepts, 0 for no limit
+    ipRateLimit?: number;  // Requests per second accepted from each visitor address across all tunnels, 0 for no limit
+    maxInFlight?: number;  // HTTP requests each tunnel may have in progress at once, 0 for no limit
+    maxRequestBody?: number;  // Largest request body in bytes passed on to a client, 0 for no limit
+    maxResponseBody?: number;  // Largest response body in bytes passed back to a visitor, 0 for no limit
 }
 
-const DEFAULT_OPTIONS = {
+// Statuses for which a Response must not carry a body
+const NULL_BODY_STATUSES = new Set([101, 204, 205, 304]);
+
+// A single DNS label, so the subdomain always forms a valid hostname
+const SUBDOMAIN_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/;
+
+// Named local targets get `<name>-<subdomain>`, so names follow the same rules
+const TARGET_NAME_PATTERN = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+
+// Path patterns clients set request timeouts for, with `*` matching anything
+const PATH_PATTERN = /^\/[^\s,=]*$/;
+
+// How long to wait for the local server to accept a tunneled WebSocket
+const UPGRADE_TIMEOUT = 10000;
+
+// Messages from a visitor's WebSocket that may wait for the control connection
+// before the visitor is cut off. Bun can't stop reading a WebSocket, so this is
+// the only thing keeping a fast sender from filling memory.
+const WS_BACKLOG_LIMIT = 4 * STREAM_WINDOW;
+
+// How often to check tunnels for expiry, fine enough to warn clients in time
+const MONITOR_INTERVAL = 5000;
+
+// How often to check certificate files for changes, and how long to wait for
+// a renewal to finish writing both of them
+const TLS_WATCH_INTERVAL = 5000;
+const TLS_RELOAD_DELAY = 1000;
+
+export const DEFAULT_OPTIONS = {
     tunnelPort: 4444,
+    hostname: '0.0.0.0',
+    requestTimeout: 30 * 1000,  // 30 seconds
+    maxRequestTimeout: 10 * 60 * 1000,  // 10 minutes
     idleTimeout: 5 * 60 * 1000,  // 5 minutes
-    reconnectGrace: 1000  // 1 second
+    maxLifetime: 0,  // Unlimited
+    expiryWarning: 60 * 1000,  // 1 minute
+    reconnectGrace: 30 * 1000,  // 30 seconds
+    authTokens: [] as string[],  // No auth unless tokens or a secret are configured
+    authSecret: '',
+    baseDomain: 'localhost',
+    publicUrl: '',
+    pathPrefix: '/t',
+    tunnelHeader: 'x-bunnel-tunnel',
+    routing: ['host'] as (RoutingStrategy | TunnelRouter)[],
+    heartbeatInterval: 15 * 1000,  // 15 seconds
+    heartbeatMisses: 3,
+    adminToken: '',
+    adminPort: 0,
+    adminHost: '127.0.0.1',
+    metrics: false,
+    metricsTunnelLabels: 100,
+    rateLimit: 0,  // Unlimited
+    ipRateLimit: 0,
+    maxInFlight: 0,
+    maxRequestBody: 0,
+    maxResponseBody: 0
 };
 
-class TunnelServer {
+class TunnelServer implements AdminControls {
     private tunnels: Map<string, TunnelInfo>;
-    private pendingRequests: Map<string, (response: Response) => void>;
-    private options: Required<TunnelServerOptions>;
+    private claimedSubdomains: Set<string>;  // Upgraded control connections that haven't opened yet
+    private targetSubdomains: Map<string, { subdomain: string; target: string }>;  // Subdomains of named targets, to their tunnel
+    private options: Required<Omit<TunnelServerOptions, 'tls' | 'tcpPorts'>> & Pick<TunnelServerOptions, 'tls' | 'tcpPorts'>;
+    private routers: TunnelRouter[];
+    private publicUrl: URL;
     private server?: Server;
+    private adminServer?: Server;  // Admin API on a port of its own
+    private draining = false;  // No new tunnels are accepted
+    private metrics: TunnelMetrics;
+    private tunnelRates?: RateLimiter;  // Keyed by subdomain
+    private visitorRates?: RateLimiter;  // Keyed by visitor address
     private monitorInterval?: number;
+    private heartbeatInterval?: number;
+    private tlsReloadTimeout?: ReturnType<typeof setTimeout>;
+    private currentTls?: TLSOptions;  // Certificate the listener is serving
 
     constructor(options: TunnelServerOptions = {}) {
+        // Options explicitly set to undefined keep their defaults
+        const provided = Object.fromEntries(
+            Object.entries(options).filter(([, value]) => value !== undefined)
+        );
         this.options = {
             ...DEFAULT_OPTIONS,
-            ...options
+            ...provided
         };
         this.tunnels = new Map();
-        this.pendingRequests = new Map();
+        this.claimedSubdomains = new Set();
+        this.targetSubdomains = new Map();
+        this.metrics = new TunnelMetrics(this.options.metricsTunnelLabels);
+        if (this.options.rateLimit > 0) {
+            this.tunnelRates = new RateLimiter(this.options.rateLimit);
+        }
+        if (this.options.ipRateLimit > 0) {
+            this.visitorRates = new RateLimiter(this.options.ipRateLimit);
+        }
+
+        this.routers = this.options.routing.map(strategy => {
+            switch (strategy) {
+                case 'host': return hostRouter(this.options.baseDomain);
+                case 'path': return pathRouter(this.options.pathPrefix);
+                case 'header': return headerRouter(this.options.tunnelHeader);
+                default: return strategy;
+            }
+        });
+        if (this.routers.length === 0) {
+            throw new Error('At least one routing strategy is required');
+        }
+        const scheme = this.options.tls ? 'https' : 'http';
+        this.publicUrl = new URL(this.options.publicUrl || `${scheme}://${this.options.baseDomain}:${this.options.tunnelPort}`);
     }
 
     public start(): void {
-        // const serverConfig: any = {
-        //     hostname: "0.0.0.0",
-        //     port: this.options.tunnelPort,
-        //     fetch: this.handleRequest.bind(this),
-        //     websocket: {
-        //         open: this.handleWebSocketOpen.bind(this),
-        //         message: this.handleWebSocketMessage.bind(this),
-        //         close: this.handleWebSocketClose.bind(this)
-        //     }
-        // };
-
-        const host = "0.0.0.0";
-
-        this.server = Bun.serve({
-            hostname: host,
+        const host = this.options.hostname;
+
+        this.currentTls = this.options.tls ? this.loadTls(this.options.tls) : undefined;
+        this.server = this.listen(this.currentTls);
+        if (this.options.tls) {
+            this.watchTls(this.options.tls);
+        }
+        if ((this.options.adminToken || this.options.metrics) && this.options.adminPort) {
+            this.adminServer = this.listenAdmin();
+        } else if (this.options.adminPort) {
+            logger.warn('Not serving the admin API, it needs an admin token');
+        }
+        if (this.options.metrics && !this.options.adminToken && !this.options.adminPort) {
+            logger.warn('Not serving metrics, they need an admin token or an admin port to be served on');
+        }
+
+        // Start tunnel monitoring
+        this.monitorInterval = setInterval(() => {
+            this.monitorTunnels();
+        }, MONITOR_INTERVAL) as unknown as number;
+
+        // Detect half-open control connections, which would otherwise look online forever
+        if (this.options.heartbeatInterval > 0) {
+            this.heartbeatInterval = setInterval(() => {
+                this.sendHeartbeats();
+            }, this.options.heartbeatInterval) as unknown as number;
+        }
+
+        logger.info(`Tunnel server started on ${this.options.tls ? 'wss' : 'ws'}://${host}:${this.options.tunnelPort}`);
+    }
+
+    private listen(tls?: TLSOptions): Server {
+        // Typed separately, Bun.serve's own signature leaves out the TLS variants
+        const options: TLSWebSocketServeOptions<TunnelData> = {
+            hostname: this.options.hostname,
             port: this.options.tunnelPort,
+            tls,
             fetch: this.handleRequest.bind(this),
             websocket: {
                 open: this.handleWebSocketOpen.bind(this),
                 message: this.handleWebSocketMessage.bind(this),
+                pong: this.handleWebSocketPong.bind(this),
+                drain: this.handleWebSocketDrain.bind(this),
                 close: this.handleWebSocketClose.bind(this)
             }
+        };
+        return Bun.serve(options);
+    }
+
+    private listenAdmin(): Server {
+        const { adminHost, adminPort } = this.options;
+        const server = Bun.serve({
+            hostname: adminHost,
+            port: adminPort,
+            fetch: (req) => {
+                return this.handleOperatorRequest(req, new URL(req.url)) ?? new Response('Not found', { status: 404 });
+            }
         });
+        logger.info(`Admin API listening on http://${adminHost}:${adminPort}`);
+        return server;
+    }
 
-        // Start tunnel monitoring
-        this.monitorInterval = setInterval(() => {
-            this.monitorTunnels();
-        }, 60000) as unknown as number;
+    /**
+     * Serve the admin API and metrics, whichever are enabled. Metrics need
+     * the admin token too, if there is one, and can only go without it on an
+     * admin port of their own since their labels name every tunnel.
+     * @returns null if the request isn't for either
+     */
+    private handleOperatorRequest(req: Request, url: URL): Response | null {
+        const { adminToken, adminPort, metrics } = this.options;
+        if (metrics && url.pathname === '/metrics' && (adminToken || adminPort)) {
+            return (adminToken ? checkAdminToken(req, adminToken) : null) ?? this.metricsResponse();
+        }
+        return adminToken ? handleAdminRequest(req, url, adminToken, this) : null;
+    }
+
+    private metricsResponse(): Response {
+        const online = [...this.tunnels.values()].filter(tunnel => tunnel.state === 'online').length;
+        this.metrics.tunnels.set({ state: 'online' }, online);
+        this.metrics.tunnels.set({ state: 'offline' }, this.tunnels.size - online);
+        return new Response(this.metrics.render(), {
+            headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' }
+        });
+    }
 
-        logger.info(`Tunnel server started on ws://${host}:${this.options.tunnelPort}`);
+    /**
+     * Read the certificate files, making sure the key belongs to the certificate
+     * @throws Error if a file can't be read or parsed, or the two don't match
+     */
+    private loadTls(tls: TunnelServerTls): TLSOptions {
+        const cert = readFileSync(tls.cert, 'utf8');
+        const key = readFileSync(tls.key, 'utf8');
+        // Bun would only reject a mismatched key once the listener is replaced, e.g. halfway through a renewal
+        const spki = (publicKey: KeyObject) => publicKey.export({ type: 'spki', format: 'der' }).toString('base64');
+        if (spki(createPublicKey(cert)) !== spki(createPublicKey(createPrivateKey({ key, passphrase: tls.passphrase })))) {
+            throw new Error(`the private key in ${tls.key} does not belong to the certificate in ${tls.cert}`);
+        }
+        return {
+            cert,
+            key,
+            ca: tls.ca?.map(path => readFileSync(path, 'utf8')),
+            passphrase: tls.passphrase
+        };
+    }
+
+    /**
+     * Pick up renewed certificates. Polling rather than fs.watch, since renewal
+     * tools tend to swap files or symlinks instead of writing them in place.
+     */
+    private watchTls(tls: TunnelServerTls): void {
+        for (const path of [tls.cert, tls.key]) {
+            watchFile(path, { interval: TLS_WATCH_INTERVAL }, () => {
+                clearTimeout(this.tlsReloadTimeout);
+                this.tlsReloadTimeout = setTimeout(() => this.reloadTls(tls), TLS_RELOAD_DELAY);
+            });
+        }
+    }
+
+    private reloadTls(tls: TunnelServerTls): void {
+        let options: TLSOptions;
+        try {
+            options = this.loadTls(tls);
+        } catch (err) {
+            logger.error(`Keeping the current TLS certificate, failed to load the new one: ${err instanceof Error ? err.message : String(err)}`);
+            return;
+        }
+
+        // Bun can't swap certificates on a running server, so replace the listener.
+        // Stopping without force keeps open connections, tunnels included, alive.
+        this.server?.stop();
+        try {
+            this.server = this.listen(options);
+            this.currentTls = options;
+            logger.info('Reloaded TLS certificate');
+        } catch (err) {
+            logger.error(`Keeping the current TLS certificate, the new one was rejected: ${err instanceof Error ? err.message : String(err)}`);
+            try {
+                this.server = this.listen(this.currentTls);
+            } catch (err) {
+                this.server = undefined;
+                logger.error(`No longer listening on port ${this.options.tunnelPort}, failed to listen again with the current certificate: ${err instanceof Error ? err.message : String(err)}`);
+            }
+        }
     }
 
     public stop(): void {
         if (this.monitorInterval) {
             clearInterval(this.monitorInterval);
         }
+        if (this.heartbeatInterval) {
+            clearInterval(this.heartbeatInterval);
+        }
+        if (this.options.tls) {
+            clearTimeout(this.tlsReloadTimeout);
+            unwatchFile(this.options.tls.cert);
+            unwatchFile(this.options.tls.key);
+        }
+        // Tell clients this isn't a dropped connection, so they can report it as such
+        for (const subdomain of [...this.tunnels.keys()]) {
+            this.cleanupTunnel(subdomain, { code: ControlCloseCode.ServerShutdown, reason: 'Server shutting down' });
+        }
         this.server?.stop();
+        this.adminServer?.stop();
         this.tunnels.clear();
-        this.pendingRequests.clear();
+        this.claimedSubdomains.clear();
+        this.targetSubdomains.clear();
+    }
+
+    /**
+     * Every tunnel the server holds, including those waiting for their client to reconnect
+     */
+    public listTunnels(): TunnelSummary[] {
+        const tunnelUrl = (subdomain: string) => this.routers[0].tunnelUrl(subdomain, this.publicUrl);
+        return [...this.tunnels].map(([subdomain, tunnel]) => {
+            const expiry = this.nextExpiry(tunnel);
+            return {
+                subdomain,
+                url: tunnelUrl(subdomain),
+                state: tunnel.state,
+                createdAt: new Date(tunnel.createdAt).toISOString(),
+                connectedAt: new Date(tunnel.connectedAt).toISOString(),
+                lastActive: new Date(tunnel.lastActive).toISOString(),
+                expiresAt: expiry ? new Date(expiry.at).toISOString() : undefined,
+                authSubject: tunnel.authSubject,
+                clientSockets: tunnel.clientSockets.size,
+                inFlightRequests: tunnel.pendingRequests.size,
+                tcpStreams: tunnel.tcpStreams.size,
+                targets: Object.fromEntries([...tunnel.targets].map(([target, targetSubdomain]) => {
+                    return [target, tunnelUrl(targetSubdomain)];
+                })),
+                tcp: Object.fromEntries([...tunnel.tcpForwards].map(([name, forward]) => {
+                    return [name, `${this.publicUrl.hostname}:${forward.port}`];
+                })),
+                access: describeVisitorPolicy(tunnel.visitorPolicy)
+            };
+        });
+    }
+
+    /**
+     * Close a tunnel for good, its client is told not to reconnect
+     * @returns false if there's no such tunnel
+     */
+    public closeTunnel(subdomain: string): boolean {
+        if (!this.tunnels.has(subdomain)) return false;
+        logger.info(`Closing tunnel ${subdomain} on request`);
+        this.cleanupTunnel(subdomain, { code: ControlCloseCode.Closed, reason: 'Tunnel closed by the server operator' });
+        return true;
+    }
+
+    /**
+     * Stop accepting new tunnels, ahead of taking the server down. Existing
+     * tunnels carry on and may still reconnect, and the health check fails so
+     * a load balancer can send new clients elsewhere.
+     */
+    public drain(): void {
+        if (this.draining) return;
+        this.draining = true;
+        logger.info(`Draining, no new tunnels will be accepted (${this.tunnels.size} open)`);
+    }
+
+    public isDraining(): boolean {
+        return this.draining;
     }
 
     private monitorTunnels(): void {
+        this.tunnelRates?.sweep();
+        this.visitorRates?.sweep();
+
         const now = Date.now();
         for (const [subdomain, tunnel] of this.tunnels) {
-            // Clean up tunnels that have been idle too long
-            if (now - tunnel.lastActive > this.options.idleTimeout) {
-                logger.debug(`Cleaning up idle tunnel: ${subdomain}`);
-                this.cleanupTunnel(subdomain);
+            const expiry = this.nextExpiry(tunnel);
+            if (!expiry) continue;
+
+            if (now >= expiry.at) {
+                logger.debug(`Closing tunnel ${subdomain}: ${expiry.reason}`);
+                this.cleanupTunnel(subdomain, expiry.reason === 'idle_timeout'
+                    ? { code: ControlCloseCode.IdleTimeout, reason: 'Tunnel idle for too long' }
+                    : { code: ControlCloseCode.Expired, reason: 'Tunnel reached its maximum lifetime' });
                 continue;
             }
 
-            // Update activity timestamp for active tunnels
-            if (tunnel.state === 'online') {
-                tunnel.lastActive = now;
+            // Warn once per expiry time, traffic pushes the idle expiry back
+            if (expiry.at - now <= this.options.expiryWarning && tunnel.warnedExpiry !== expiry.at && tunnel.state === 'online') {
+                tunnel.warnedExpiry = expiry.at;
+                const message: ExpiringMessage = { type: 'expiring', reason: expiry.reason, expiresAt: expiry.at };
+                tunnel.controlSocket.send(JSON.stringify(message));
             }
         }
     }
 
+    /**
+     * Whichever of the idle timeout and maximum lifetime will close the tunnel first.
+     * A response still streaming holds off the idle timeout, however quiet it is,
+     * so event streams aren't cut off between events.
+     * @returns null if neither applies
+     */
+    private nextExpiry(tunnel: TunnelInfo): { reason: ExpiryReason; at: number } | null {
+        const { idleTimeout, maxLifetime } = this.options;
+        const streaming = [...tunnel.pendingRequests.values()].some(pending => pending.responded);
+        const idleAt = idleTimeout > 0 && !streaming ? tunnel.lastActive + idleTimeout : Infinity;
+        const expiresAt = maxLifetime > 0 ? tunnel.createdAt + maxLifetime : Infinity;
+
+        if (idleAt === Infinity && expiresAt === Infinity) return null;
+        return idleAt < expiresAt
+            ? { reason: 'idle_timeout', at: idleAt }
+            : { reason: 'expired', at: expiresAt };
+    }
+
+    private sendHeartbeats(): void {
+        for (const [subdomain, tunnel] of this.tunnels) {
+            if (tunnel.state !== 'online') continue;
+
+            if (tunnel.missedHeartbeats >= this.options.heartbeatMisses) {
+                logger.warn(`Control connection for ${subdomain} missed ${tunnel.missedHeartbeats} heartbeats, marking offline`);
+                const socket = tunnel.controlSocket;
+                this.markOffline(subdomain, tunnel);
+                socket.terminate();
+                continue;
+            }
+
+            tunnel.missedHeartbeats++;
+            tunnel.controlSocket.ping();
+        }
+    }
+
     private async handleRequest(req: Request, server: Server): Promise<Response> {
         try {
             const url = new URL(req.url);
             const host = req.headers.get('host') || url.hostname;
 
-            logger.debug("Got request:", req)
             logger.debug(`[REQUEST] ${new Date().toISOString()}`);
             logger.debug(`[REQUEST] URL: ${req.url}`);
             logger.debug(`[REQUEST] Method: ${req.method}`);
             logger.debug(`[REQUEST] Host header: ${host}`);
-            logger.debug(`[REQUEST] URL hostname: ${url.hostname}`);
-            
-            // Handle health check for root path - only for non-WebSocket requests to the root domain
-            // Handle health check for root path - only for non-WebSocket requests to the root domain
-            if (req.method === 'GET' && url.pathname === '/' && 
-                req.headers.get('upgrade')?.toLowerCase() !== 'websocket') {
-                
-                // Parse the host to check if it's a subdomain request
-                const hostWithoutPort = host.includes(':') ? host.split(':')[0] : host;
-                const hostParts = hostWithoutPort.split('.');
-                
-                // Check if this is a subdomain request (<id>.localhost)
-                const isSubdomainRequest = hostParts.length === 2 && hostParts[1] === 'localhost';
-                
-                // Only respond to health check if it's NOT a subdomain request
-                if (!isSubdomainRequest) {
-                    logger.debug('[REQUEST] Returning health check 200 response')
-                    return new Response('Tunnel server is running', { 
-                        status: 200,
-                        headers: { 'Content-Type': 'text/plain' }
-                    });
-                }
-            }
 
-            logger.debug('[REQUEST] Request to subdomain tunnel, forwarding')
-            
-            let parts: string[] = [];
-            
-            // Try both the Host header and URL hostname for parsing
-            if (host.includes(':')) {
-                // Remove port if present
-                parts = host.split(':')[0].split('.');
-                logger.debug(`[REQUEST] Host parts (from header): ${JSON.stringify(parts)}`);
-            } else {
-                parts = host.split('.');
-                logger.debug(`[REQUEST] Host parts: ${JSON.stringify(parts)}`);
-            }
-            
-            // Also log URL parts as fallback
-            const urlParts = url.hostname.split('.');
-            logger.debug(`[REQUEST] URL hostname parts: ${JSON.stringify(urlParts)}`);
-            
             // Log all headers for debugging
             logger.debug('[REQUEST] Headers:');
-            const allHeaders: Record<string, string> = {};
             req.headers.forEach((value, key) => {
-                allHeaders[key] = value;
                 logger.debug(`[REQUEST]   ${key}: ${value}`);
             });
 
+            let route = this.matchRoute(req, url);
+            logger.debug(`[REQUEST] Route: ${route ? `${route.subdomain} ${route.path}` : 'none'}`);
+
             // Check if this is a WebSocket upgrade request
-            const upgradeHeader = req.headers.get('upgrade');
-            logger.debug(`[REQUEST] Upgrade header: ${upgradeHeader}`);
-            
-            if (upgradeHeader?.toLowerCase() === 'websocket') {
-                try {
-                    logger.debug(`[WS] Processing WebSocket upgrade request`);
-                    logger.debug(`[WS] Host parts length: ${parts.length}`);
-                    logger.debug(`[WS] First part: '${parts[0]}', Second part (if exists): '${parts[1]}'`);
-                    
-                    // Check if direct connection (for new tunnel) - accept any non-subdomain host
-                    // This handles both localhost:4444 and api.app.magnitude.run:4444
-                    const isLocalhostSubdomain = parts.length >= 2 && parts[parts.length - 1] === 'localhost';
-
-                    if (isLocalhostSubdomain) {
-                        const subdomain = parts[0];
-                        logger.debug(`[WS] Identified as client connection for subdomain: ${subdomain}`);
-                        
-                        const tunnel = this.tunnels.get(subdomain);
-                        if (!tunnel) {
-                            logger.debug(`[WS] No tunnel found for subdomain: ${subdomain}`);
-                            return new Response('Tunnel not found', { status: 404 });
-                        }
-                        
-                        const success = server.upgrade(req, {
-                            data: { subdomain, isControl: false }
-                        });
-                        
-                        logger.debug(`[WS] Client upgrade result: ${success ? 'Success' : 'Failed'}`);
-                        return success ? new Response() : new Response('WebSocket upgrade failed', { status: 500 });
-                    } else {
-                        logger.debug('[WS] Identified as new tunnel control connection');
-                        const subdomain = this.generateSubdomain();
-                        logger.debug(`[WS] Generated subdomain: ${subdomain}`);
-                        
-                        const success = server.upgrade(req, {
-                            data: { subdomain, isControl: true }
+            const isUpgrade = req.headers.get('upgrade')?.toLowerCase() === 'websocket';
+
+            if (!route) {
+                // Any WebSocket that isn't addressed to a tunnel is a new control connection
+                if (isUpgrade) {
+                    logger.debug('[WS] Identified as tunnel control connection');
+                    return this.handleControlUpgrade(req, server);
+                }
+
+                if (!this.options.adminPort) {
+                    const response = this.handleOperatorRequest(req, url);
+                    if (response) return response;
+                }
+
+                // Handle health check for root path
+                if (req.method === 'GET' && url.pathname === '/') {
+                    if (this.draining) {
+                        return new Response('Tunnel server is draining', {
+                            status: 503,
+                            headers: { 'Content-Type': 'text/plain' }
                         });
-                        
-                        logger.debug(`[WS] Upgrade result: ${success ? 'Success' : 'Failed'}`);
-                        return success ? new Response() : new Response('WebSocket upgrade failed', { status: 500 });
                     }
-                    // // If we get here, neither parsing method worked
-                    // logger.debug(`[WS] Invalid WebSocket connection request`);
-                    // logger.debug(`[WS] Expected formats:`);
-                    // logger.debug(`[WS]   - some.domain.com:${this.options.tunnelPort} (for control connection)`);
-                    // logger.debug(`[WS]   - localhost:${this.options.tunnelPort} (for control connection)`);
-                    // logger.debug(`[WS]   - <subdomain>.localhost:${this.options.tunnelPort} (for client connection)`);
-                    // logger.debug(`[WS] Actual host received: ${host}`);
-                    
-                    // return new Response('Invalid WebSocket connection request', { status: 400 });
+                    logger.debug('[REQUEST] Returning health check 200 response')
+                    return new Response('Tunnel server is running', { 
+                        status: 200,
+                        headers: { 'Content-Type': 'text/plain' }
+                    });
+                }
+
+                logger.debug('[REQUEST] No matching route found, returning 404');
+                return new Response('Not found', { status: 404 });
+            }
+
+            // Named targets are reached through a subdomain of their own
+            const named = this.targetSubdomains.get(route.subdomain);
+            if (named) {
+                route = { ...route, ...named };
+            }
+
+            const { subdomain } = route;
+            const tunnel = this.tunnels.get(subdomain);
+            if (!tunnel) {
+                logger.debug(`[REQUEST] No tunnel found for subdomain: ${subdomain}`);
+                return new Response('Tunnel not found', { status: 404 });
+            }
+
+            // Visitors the tunnel turns away never reach its client. The address is
+            // rate limited first, so guessing credentials is slowed down too.
+            const address = server.requestIP(req)?.address;
+            const limited = this.checkRate(tunnel, 'ip_rate', address);
+            if (limited) return limited;
+            const denied = checkVisitor(tunnel.visitorPolicy, req, address);
+            if (denied) {
+                logger.debug(`[REQUEST] Visitor from ${address} denied by ${subdomain} (${denied.status})`);
+                return denied;
+            }
+            const overLimit = this.checkRate(tunnel, 'rate', subdomain) ?? this.checkRequestSize(tunnel, subdomain, req);
+            if (overLimit) return overLimit;
+
+            const startedAt = performance.now();
+            if (!(await this.waitForOnline(tunnel, subdomain))) {
+                this.metrics.lost.inc({ tunnel: tunnel.metricsLabel });
+                this.recordRequest(tunnel, 502, startedAt);
+                return new Response('Tunnel connection lost', { status: 502 });
+            }
+
+            if (isUpgrade) {
+                try {
+                    logger.debug(`[WS] Identified as client connection for subdomain: ${subdomain}`);
+                    return await this.upgradeClientConnection(req, server, tunnel, route);
                 } catch (err) {
                     logger.error('[WS] Error handling WebSocket upgrade:', err);
                     return new Response('WebSocket upgrade failed', { status: 500 });
                 }
             }
 
-            // Handle regular HTTP requests
-            if (parts.length === 2 && parts[1] === 'localhost') {
-                logger.debug('[HTTP] Forwarding HTTP request')
-                const subdomain = parts[0];
-                const tunnel = this.tunnels.get(subdomain);
-                
-                if (!tunnel) {
-                    logger.debug(`[HTTP] No tunnel found for ${subdomain}:`);
-                    return new Response('Tunnel not found', { status: 404 });
-                } else {
-                    logger.debug(`[HTTP] Tunnel found for ${subdomain}:`, tunnel);
-                }
+            const busy = this.checkInFlight(tunnel, subdomain);
+            if (busy) return busy;
 
-                // Create unique request ID
-                const requestId = Math.random().toString(36).substring(2);
-                logger.debug(`[HTTP] Request ID generated: ${requestId}`);
+            const response = await this.forwardRequest(req, server, tunnel, route, startedAt);
+            this.recordRequest(tunnel, response.status, startedAt);
+            return response;
+        } catch (err) {
+            logger.error('Unexpected error handling request:', err);
+            return new Response('Internal server error', { status: 500 });
+        }
+    }
 
-                try {
-                    // Prepare request data for tunnel
-                    const tunnelRequest: TunnelRequest = {
-                        id: requestId,
-                        method: req.method,
-                        path: url.pathname + url.search,
-                        headers: this.headersToObject(req.headers),
-                        body: req.body ? await req.text() : null
-                    };
-
-                    logger.debug('[HTTP] Sending request through tunnel socket:', tunnelRequest);
-                    logger.debug(tunnelRequest);
-                    logger.debug(tunnelRequest.body);
-
-                    // Send request through control socket
-                    tunnel.controlSocket.send(JSON.stringify(tunnelRequest));
-
-                    // Wait for response with timeout
-                    const response = await Promise.race([
-                        new Promise<Response>((resolve) => {
-                            this.pendingRequests.set(requestId, resolve);
-                        }),
-                        new Promise<Response>((_, reject) => {
-                            setTimeout(() => {
-                                this.pendingRequests.delete(requestId);
-                                reject(new Error('Request timeout'));
-                            }, 30000); // 30 second timeout
-                        })
-                    ]);
-
-                    return response;
-                } catch (err) {
-                    logger.error('Error processing tunnel request:', err);
-                    this.pendingRequests.delete(requestId);
+    private matchRoute(req: Request, url: URL): MatchedRoute | null {
+        for (const router of this.routers) {
+            const route = router.match(req, url);
+            if (route) return { ...route, tunnelUrl: router.tunnelUrl(route.subdomain, this.publicUrl) };
+        }
+        return null;
+    }
 
-                    if (err instanceof Error && err.message === 'Request timeout') {
-                        return new Response('Request timeout', { status: 504 });
-                    }
+    /**
+     * Count a forwarded request once its response head is ready for the visitor
+     */
+    private recordRequest(tunnel: TunnelInfo, status: number, startedAt: number): void {
+        this.metrics.requests.inc({ tunnel: tunnel.metricsLabel, status: String(status) });
+        this.metrics.latency.observe({ tunnel: tunnel.metricsLabel }, (performance.now() - startedAt) / 1000);
+    }
+
+    /**
+     * Take a request from the tunnel's or the visitor address's rate limit
+     * @param key Subdomain or address the limit is kept for
+     * @returns a 429 response if it's over the limit
+     */
+    private checkRate(tunnel: TunnelInfo, limit: 'rate' | 'ip_rate', key: string | undefined): Response | null {
+        const limiter = limit === 'rate' ? this.tunnelRates : this.visitorRates;
+        if (!limiter || key === undefined) return null;
+        const decision = limiter.take(key);
+        if (decision.allowed) return null;
+
+        const rate = limit === 'rate' ? this.options.rateLimit : this.options.ipRateLimit;
+        const log = `[LIMIT] ${limit === 'rate' ? 'Tunnel' : 'Visitor'} ${key} is over ${rate} requests per second`;
+        if (decision.first) {
+            logger.warn(`${log}, answering 429 until it slows down`);
+        } else {
+            logger.debug(log);
+        }
+        this.metrics.limited.inc({ tunnel: tunnel.metricsLabel, limit });
+        const message = limit === 'rate'
+            ? `Too Many Requests: this tunnel accepts at most ${rate} requests per second`
+            : `Too Many Requests: at most ${rate} requests per second are accepted from your address`;
+        return limitResponse(429, message, limit, decision.retryAfter);
+    }
+
+    /**
+     * Turn away a request whose Content-Length is over the request body limit
+     * up front, bodies without one are cut off once they reach it
+     */
+    private checkRequestSize(tunnel: TunnelInfo, subdomain: string, req: Request): Response | null {
+        const max = this.options.maxRequestBody;
+        const length = Number(req.headers.get('content-length') ?? 0);
+        if (max === 0 || !(length > max)) return null;
+
+        logger.warn(`[LIMIT] Refused a ${length} byte request body for ${subdomain}, over the ${formatBytes(max)} limit`);
+        this.metrics.limited.inc({ tunnel: tunnel.metricsLabel, limit: 'request_body' });
+        return this.requestTooLarge();
+    }
+
+    private requestTooLarge(): Response {
+        return limitResponse(413, `Payload Too Large: request bodies are limited to ${formatBytes(this.options.maxRequestBody)}`, 'request_body');
+    }
+
+    /**
+     * Turn away an HTTP request if the tunnel already has as many in progress
+     * as it may, responses still streaming included
+     */
+    private checkInFlight(tunnel: TunnelInfo, subdomain: string): Response | null {
+        const max = this.options.maxInFlight;
+        if (max === 0 || tunnel.pendingRequests.size < max) {
+            tunnel.saturated = false;
+            return null;
+        }
 
-                    return new Response('Error processing request', { status: 500 });
+        if (!tunnel.saturated) {
+            logger.warn(`[LIMIT] Tunnel ${subdomain} has ${max} requests in flight, answering 429 to more until some finish`);
+        }
+        tunnel.saturated = true;
+        this.metrics.limited.inc({ tunnel: tunnel.metricsLabel, limit: 'in_flight' });
+        return limitResponse(429, `Too Many Requests: this tunnel is already handling ${max} requests`, 'in_flight', 1);
+    }
+
+    private handleControlUpgrade(req: Request, server: Server): Response {
+        const auth = this.authenticateControlConnection(req);
+        if (!auth.authorized) {
+            logger.warn(`[WS] Rejected unauthenticated control connection from ${server.requestIP(req)?.address}`);
+            return this.controlError(401, {
+                error: 'unauthorized',
+                message: 'Missing or invalid auth token'
+            });
+        }
+
+        const resumed = this.findResumableTunnel(req);
+        let subdomain = resumed;
+
+        // Tunnels that were already open may still reconnect
+        if (this.draining && !resumed) {
+            return this.controlError(503, {
+                error: 'draining',
+                message: 'Server is draining and not accepting new tunnels'
+            });
+        }
+
+        // Hand out the subdomain the client asked for, if it's free
+        const requested = req.headers.get('x-bunnel-subdomain')?.toLowerCase();
+        if (!subdomain && requested) {
+            if (!SUBDOMAIN_PATTERN.test(requested)) {
+                return this.controlError(400, {
+                    error: 'invalid_subdomain',
+                    message: `Invalid subdomain '${requested}', use lowercase letters, digits and hyphens (max 63)`
+                });
+            }
+            if (this.isSubdomainTaken(requested)) {
+                logger.debug(`[WS] Requested subdomain already in use: ${requested}`);
+                return this.controlError(409, {
+                    error: 'subdomain_taken',
+                    message: `Subdomain '${requested}' is already in use by another tunnel`
+                });
+            }
+            subdomain = requested;
+        }
+
+        subdomain ??= this.generateSubdomain();
+        logger.debug(`[WS] ${resumed ? 'Resuming' : requested ? 'Requested' : 'Generated'} subdomain: ${subdomain}`);
+
+        // A resumed tunnel keeps the targets it was opened with
+        const targets = new Map<string, string>();
+        if (!resumed) {
+            const names = (req.headers.get('x-bunnel-targets') ?? '')
+                .split(',')
+                .map(name => name.trim().toLowerCase())
+                .filter(Boolean);
+            for (const name of names) {
+                const targetSubdomain = `${name}-${subdomain}`;
+                if (!TARGET_NAME_PATTERN.test(name) || !SUBDOMAIN_PATTERN.test(targetSubdomain) || targets.has(name)) {
+                    return this.controlError(400, {
+                        error: 'invalid_target',
+                        message: `Invalid target name '${name}', use unique lowercase letters, digits and hyphens that fit in '${targetSubdomain}' (max 63)`
+                    });
                 }
+                if (this.isSubdomainTaken(targetSubdomain)) {
+                    return this.controlError(409, {
+                        error: 'subdomain_taken',
+                        message: `Subdomain '${targetSubdomain}' for target '${name}' is already in use by another tunnel`
+                    });
+                }
+                targets.set(name, targetSubdomain);
             }
+        }
+
+        // Likewise for TCP forwards, which start listening right away so a
+        // port that can't be had is refused along with the connection
+        let tcpForwards = new Map<string, TcpForward>();
+        if (!resumed) {
+            const forwards = this.bindTcpForwards(subdomain, req.headers.get('x-bunnel-tcp') ?? '');
+            if (forwards instanceof Response) {
+                return forwards;
+            }
+            tcpForwards = forwards;
+        }
+
+        const timeouts = resumed ? [] : this.parseRouteTimeouts(req.headers.get('x-bunnel-timeouts') ?? '');
+        if (timeouts instanceof Response) {
+            for (const forward of tcpForwards.values()) {
+                forward.listener.stop(true);
+            }
+            return timeouts;
+        }
+
+        const visitorPolicy = resumed ? undefined : parseVisitorPolicy(req.headers);
+        if (typeof visitorPolicy === 'string') {
+            for (const forward of tcpForwards.values()) {
+                forward.listener.stop(true);
+            }
+            return this.controlError(400, { error: 'invalid_access', message: visitorPolicy });
+        }
+
+        // Hold the names until the socket opens, so a concurrent request can't take them
+        const claimed = [subdomain, ...targets.values()];
+        for (const name of claimed) {
+            this.claimedSubdomains.add(name);
+        }
+        const success = server.upgrade(req, {
+            data: { subdomain, isControl: true, resume: resumed !== null, authSubject: auth.subject, targets, tcpForwards, timeouts, visitorPolicy }
+        });
+        
+        logger.debug(`[WS] Upgrade result: ${success ? 'Success' : 'Failed'}`);
+        if (!success) {
+            for (const name of claimed) {
+                this.claimedSubdomains.delete(name);
+            }
+            for (const forward of tcpForwards.values()) {
+                forward.listener.stop(true);
+            }
+            return new Response('WebSocket upgrade failed', { status: 500 });
+        }
+        return new Response();
+    }
+
+    /**
+     * Send a request to the client and wait for the response head
+     * @param receivedAt performance.now() when the request arrived, before any wait for the client to reconnect
+     */
+    private async forwardRequest(req: Request, server: Server, tunnel: TunnelInfo, route: MatchedRoute, receivedAt: number): Promise<Response> {
+        logger.debug('[HTTP] Forwarding HTTP request')
+
+        // Bun closes connections that are quiet for 10 seconds, which would cut off
+        // slow responses and event streams. The request timeout covers the wait for
+        // the response head instead, and the body may go quiet for as long as it likes.
+        server.timeout(req, 0);
+
+        // Create unique request ID
+        const requestId = createId();
+        tunnel.lastActive = Date.now();
+        logger.debug(`[HTTP] Request ID generated: ${requestId}`);
 
-            logger.debug('[REQUEST] No matching route found, returning 404');
-            return new Response('Not found', { status: 404 });
+        try {
+            // Prepare request head for tunnel, the body follows as separate frames
+            const tunnelRequest: TunnelRequest = {
+                id: requestId,
+                method: req.method,
+                path: route.path,
+                headers: stripVisitorCredentials(tunnel.visitorPolicy, stripHopByHopHeaders(headersToList(req.headers), route.routingHeaders)),
+                hasBody: req.body !== null,
+                tunnelUrl: route.tunnelUrl,
+                target: route.target,
+                queued: Math.round(performance.now() - receivedAt)
+            };
+
+            logger.debug('[HTTP] Sending request through tunnel socket');
+            logger.debug(tunnelRequest);
+
+            // Register before sending so a fast response can't slip past us.
+            // The timeout only covers the response head, the body keeps streaming afterwards.
+            const limit = this.requestTimeoutFor(tunnel, route.path);
+            const responsePromise = new Promise<Response>((resolve) => {
+                const timeout = setTimeout(() => {
+                    logger.warn(`[HTTP] Request ${requestId} to ${route.subdomain} timed out after ${limit.timeout}ms (${limit.limit})`);
+                    this.metrics.timeouts.inc({ tunnel: tunnel.metricsLabel, limit: limit.limit });
+                    resolve(this.timeoutResponse(limit));
+                    this.cancelRequest(tunnel, requestId, 'Timed out waiting for the local server');
+                }, limit.timeout);
+
+                tunnel.pendingRequests.set(requestId, { resolve, responded: false, timeout, bodyBytes: 0 });
+            });
+
+            // The visitor hanging up, before or during the response, ends the request on the local server too
+            req.signal.addEventListener('abort', () => {
+                this.cancelRequest(tunnel, requestId, 'Visitor went away');
+            }, { once: true });
+
+            // Send request through control socket
+            tunnel.mux.send(requestId, encodeJsonFrame(FrameType.RequestStart, requestId, tunnelRequest));
+            const sent = req.body ? await this.streamRequestBody(tunnel, requestId, req.body) : true;
+            if (sent) {
+                tunnel.mux.send(requestId, encodeFrame(FrameType.RequestEnd, requestId));
+            }
+
+            return await responsePromise;
         } catch (err) {
-            logger.error('Unexpected error handling request:', err);
-            return new Response('Internal server error', { status: 500 });
+            if (req.signal.aborted) {
+                logger.debug(`[HTTP] Visitor went away during request ${requestId}`);
+            } else {
+                logger.error('Error processing tunnel request:', err);
+            }
+            this.cancelRequest(tunnel, requestId, 'Error processing request');
+
+            return new Response('Error processing request', { status: 500 });
+        }
+    }
+
+    /**
+     * Timeout for a request, the first of the tunnel's path patterns that
+     * matches or the server default, capped at the server maximum
+     */
+    private requestTimeoutFor(tunnel: TunnelInfo, path: string): { timeout: number; limit: TimeoutLimit; pattern?: string } {
+        const pathname = path.split('?')[0];
+        const route = tunnel.timeouts.find(({ matcher }) => matcher.test(pathname));
+        const requested = route?.timeout ?? this.options.requestTimeout;
+        const timeout = this.capRequestTimeout(requested);
+        if (timeout < requested) {
+            return { timeout, limit: 'max', pattern: route?.pattern };
         }
+        return { timeout, limit: route ? 'route' : 'default', pattern: route?.pattern };
+    }
+
+    private capRequestTimeout(timeout: number): number {
+        const max = this.options.maxRequestTimeout;
+        return max > 0 ? Math.min(timeout, max) : timeout;
+    }
+
+    /**
+     * 504 for a request the local server didn't answer in time, saying which
+     * limit it ran into in the body and the X-Bunnel-Timeout header
+     */
+    private timeoutResponse({ timeout, limit, pattern }: { timeout: number; limit: TimeoutLimit; pattern?: string }): Response {
+        const reasons: Record<TimeoutLimit, string> = {
+            default: "the tunnel server's default timeout",
+            route: `the tunnel's timeout for ${pattern}`,
+            max: `the tunnel server's maximum timeout${pattern ? `, lower than the tunnel's for ${pattern}` : ''}`
+        };
+        return new Response(`Gateway Timeout: the local server did not respond within ${timeout / 1000}s, ${reasons[limit]}\n`, {
+            status: 504,
+            headers: { 'content-type': 'text/plain', 'x-bunnel-timeout': limit }
+        });
+    }
+
+    /**
+     * Give up on a request, telling the client to abort it on the local server
+     * rather than send a response nobody will read
+     * @param response Sent to the visitor if the response hasn't started, a 502 by default
+     * @param endBody End a response that has started where it is, rather than fail it
+     */
+    private cancelRequest(tunnel: TunnelInfo, requestId: string, reason: string, response?: Response, endBody = false): void {
+        const pending = tunnel.pendingRequests.get(requestId);
+        if (!pending) return;
+
+        logger.debug(`[HTTP] Cancelling request ${requestId}: ${reason}`);
+        clearTimeout(pending.timeout);
+        tunnel.pendingRequests.delete(requestId);
+        if (pending.responded && endBody) {
+            pending.body?.end();
+        } else if (pending.responded) {
+            pending.body?.error(new Error(reason));
+        } else {
+            pending.resolve(response ?? new Response(reason, { status: 502 }));
+        }
+        tunnel.requestBodies.get(requestId)?.close();
+        tunnel.mux.drop(requestId);
+        tunnel.mux.send(requestId, encodeFrame(FrameType.RequestCancel, requestId, reason));
     }
 
     private handleWebSocketOpen(ws: ServerWebSocket<TunnelData>): void {
@@ -324,29 +1044,112 @@ class TunnelServer {
 
         // Handle control connection (from bunnel CLI)
         if (ws.data.isControl) {
+            this.claimedSubdomains.delete(subdomain);
+            for (const targetSubdomain of ws.data.targets?.values() ?? []) {
+                this.claimedSubdomains.delete(targetSubdomain);
+            }
             const existingTunnel = this.tunnels.get(subdomain);
+            if (ws.data.resume && !existingTunnel) {
+                // The grace period ran out since the upgrade. A resume doesn't carry the
+                // tunnel's targets, forwards or visitor policy, so rather than open it
+                // without them the client is sent back to register it in full.
+                logger.debug(`Tunnel ${subdomain} expired while its client was reconnecting`);
+                ws.close(1013, 'Tunnel expired while reconnecting, try again');
+                return;
+            }
+            // Rotate the token on every connection so a used one can't be replayed
+            const resumeToken = randomBytes(24).toString('hex');
 
-            if (existingTunnel && existingTunnel.state === 'offline') {
-                // Reconnection during grace period
+            if (existingTunnel && ws.data.resume) {
+                // Reconnection during grace period, or a client that noticed a
+                // dead connection before we did
                 clearTimeout(existingTunnel.graceTimeout);
+                const previousSocket = existingTunnel.controlSocket;
+                if (previousSocket !== ws && existingTunnel.state === 'online') {
+                    // Whatever was in flight went with the old connection, as it does
+                    // when we notice it's gone first
+                    this.dropConnectionState(existingTunnel);
+                }
                 existingTunnel.controlSocket = ws;
                 existingTunnel.state = 'online';
-                existingTunnel.lastActive = Date.now();
+                existingTunnel.missedHeartbeats = 0;
+                existingTunnel.connectedAt = Date.now();
+                this.metrics.reconnects.inc({ tunnel: existingTunnel.metricsLabel });
+                existingTunnel.resumeToken = resumeToken;
+                if (previousSocket !== ws && previousSocket.readyState === WebSocket.OPEN) {
+                    previousSocket.close(1000, 'Superseded by reconnection');
+                }
+                for (const waiter of existingTunnel.onlineWaiters) {
+                    waiter(true);
+                }
+                existingTunnel.onlineWaiters.clear();
                 logger.debug(`Tunnel ${subdomain} reconnected`);
             } else {
                 // New tunnel connection
                 const tunnelInfo: TunnelInfo = {
                     controlSocket: ws,
-                    clientSockets: new Set(),
+                    mux: new Multiplexer({
+                        write: (frame) => {
+                            // Bun drops a frame it won't buffer and returns 0, which would
+                            // leave its stream waiting on the other side for good. The
+                            // client resumes the tunnel over a fresh connection instead.
+                            const socket = tunnelInfo.controlSocket;
+                            if (socket.send(frame) === 0 && socket.readyState === WebSocket.OPEN) {
+                                logger.error(`Control connection for ${subdomain} dropped a frame, closing it`);
+                                socket.terminate();
+                            }
+                        },
+                        bufferedAmount: () => tunnelInfo.controlSocket.getBufferedAmount()
+                    }),
+                    clientSockets: new Map(),
                     state: 'online',
-                    lastActive: Date.now()
+                    createdAt: Date.now(),
+                    connectedAt: Date.now(),
+                    lastActive: Date.now(),
+                    missedHeartbeats: 0,
+                    resumeToken,
+                    authSubject: ws.data.authSubject,
+                    targets: ws.data.targets ?? new Map(),
+                    tcpForwards: ws.data.tcpForwards ?? new Map(),
+                    tcpStreams: new Map(),
+                    timeouts: ws.data.timeouts ?? [],
+                    visitorPolicy: ws.data.visitorPolicy ?? { allow: [] },
+                    pendingRequests: new Map(),
+                    requestBodies: new Map(),
+                    pendingUpgrades: new Map(),
+                    metricsLabel: this.metrics.labelFor(subdomain),
+                    onlineWaiters: new Set(),
+                    saturated: false
                 };
                 this.tunnels.set(subdomain, tunnelInfo);
-                logger.debug(`Control connection opened for subdomain: ${subdomain}`);
+                this.metrics.tunnelsOpened.inc();
+                for (const [target, targetSubdomain] of tunnelInfo.targets) {
+                    this.targetSubdomains.set(targetSubdomain, { subdomain, target });
+                }
+                logger.debug(`Control connection opened for subdomain: ${subdomain}${ws.data.authSubject ? ` (${ws.data.authSubject})` : ''}`);
             }
 
             try {
-                const message: ConnectedMessage = { type: 'connected', subdomain };
+                const tunnel = this.tunnels.get(subdomain)!;
+                const message: ConnectedMessage = {
+                    type: 'connected',
+                    subdomain,
+                    resumeToken,
+                    url: this.routers[0].tunnelUrl(subdomain, this.publicUrl),
+                    targets: Object.fromEntries([...tunnel.targets].map(([target, targetSubdomain]) => {
+                        return [target, this.routers[0].tunnelUrl(targetSubdomain, this.publicUrl)];
+                    })),
+                    tcp: Object.fromEntries([...tunnel.tcpForwards].map(([name, forward]) => {
+                        return [name, `${this.publicUrl.hostname}:${forward.port}`];
+                    })),
+                    timeouts: Object.fromEntries(tunnel.timeouts.map(({ pattern, timeout }) => {
+                        return [pattern, this.capRequestTimeout(timeout)];
+                    })),
+                    access: describeVisitorPolicy(tunnel.visitorPolicy),
+                    expiresAt: this.options.maxLifetime > 0
+                        ? tunnel.createdAt + this.options.maxLifetime
+                        : undefined
+                };
                 ws.send(JSON.stringify(message));
                 logger.debug(`[WS_OPEN] Sent connected message to control connection for: ${subdomain}`);
             } catch (err) {
@@ -364,8 +1167,20 @@ class TunnelServer {
             return;
         }
 
-        tunnel.clientSockets.add(ws);
-        logger.debug(`Client connection added for subdomain: ${subdomain}, total clients: ${tunnel.clientSockets.size}`);
+        const connectionId = ws.data.connectionId!;
+        const pending = tunnel.pendingUpgrades.get(connectionId);
+        tunnel.pendingUpgrades.delete(connectionId);
+
+        tunnel.clientSockets.set(connectionId, ws);
+        logger.debug(`Client connection ${connectionId} added for subdomain: ${subdomain}, total clients: ${tunnel.clientSockets.size}`);
+
+        // Deliver anything the local server sent while the upgrade was completing
+        for (const frame of pending?.backlog ?? []) {
+            this.handleWebSocketFrame(tunnel, frame);
+        }
+        if (pending?.closed) {
+            this.closeClientSocket(tunnel, connectionId, pending.closed);
+        }
     }
 
     private handleWebSocketMessage(ws: ServerWebSocket<TunnelData>, message: string | Buffer): void {
@@ -376,22 +1191,33 @@ class TunnelServer {
         if (!tunnel) return;
 
         try {
-            if (ws === tunnel.controlSocket) {
-                // Handle messages from control connection
-                const response = JSON.parse(message.toString()) as TunnelResponse;
-                const resolve = this.pendingRequests.get(response.id);
-
-                if (resolve) {
-                    resolve(new Response(response.body, {
-                        status: response.status,
-                        headers: response.headers
-                    }));
-                    this.pendingRequests.delete(response.id);
+            if (ws.data.isControl) {
+                // Handle messages from control connection, ignoring any that
+                // has since been replaced by a reconnection
+                if (ws !== tunnel.controlSocket) return;
+                tunnel.missedHeartbeats = 0;
+                if (typeof message === 'string') {
+                    logger.warn(`Unexpected text message on control connection for ${subdomain}`);
+                    return;
                 }
+                this.handleControlFrame(tunnel, message);
             } else {
-                // Handle messages from client connections
-                // Forward to control socket
-                tunnel.controlSocket.send(message);
+                // Relay messages from client connections to the local server
+                const connectionId = ws.data.connectionId!;
+                tunnel.lastActive = Date.now();
+                const frame = typeof message === 'string'
+                    ? encodeFrame(FrameType.WsText, connectionId, message)
+                    : encodeFrame(FrameType.WsBinary, connectionId, message);
+                const bytes = typeof message === 'string' ? Buffer.byteLength(message) : message.length;
+                this.metrics.bytesReceived.inc({ tunnel: tunnel.metricsLabel, protocol: 'websocket' }, bytes);
+                tunnel.mux.send(connectionId, frame);
+                if (tunnel.mux.queued(connectionId) > WS_BACKLOG_LIMIT) {
+                    logger.warn(`[WS] Visitor WebSocket ${connectionId} on ${subdomain} is sending faster than the tunnel carries, closing it`);
+                    const close: WebSocketClose = { code: 1013, reason: 'Tunnel backed up' };
+                    this.closeClientSocket(tunnel, connectionId, close);
+                    tunnel.mux.drop(connectionId);
+                    tunnel.mux.send(connectionId, encodeJsonFrame(FrameType.WsClose, connectionId, close));
+                }
             }
         } catch (err) {
             logger.error('Error handling WebSocket message:', err);
@@ -399,40 +1225,94 @@ class TunnelServer {
         }
     }
 
-    private handleWebSocketClose(ws: ServerWebSocket<TunnelData>): void {
+    private handleWebSocketClose(ws: ServerWebSocket<TunnelData>, code: number, reason: string): void {
         const subdomain = ws.data.subdomain;
         if (!subdomain) return;
 
         const tunnel = this.tunnels.get(subdomain);
         if (!tunnel) return;
 
-        if (ws === tunnel.controlSocket) {
-            // Control socket disconnected - start grace period
-            tunnel.state = 'offline';
-            tunnel.graceTimeout = setTimeout(() => {
-                logger.debug(`Grace period expired for tunnel: ${subdomain}`);
-                this.cleanupTunnel(subdomain);
-            }, this.options.reconnectGrace) as unknown as number;
-            logger.debug(`Control connection lost for ${subdomain}, grace period started`);
+        if (ws.data.isControl) {
+            // A control socket replaced by a reconnection needs no cleanup
+            if (ws !== tunnel.controlSocket) return;
+            this.markOffline(subdomain, tunnel);
         } else {
-            // Client socket closed - just remove from set
-            tunnel.clientSockets.delete(ws);
+            // Client socket closed - remove it and let the local server know,
+            // unless the close came from the local side in the first place
+            const connectionId = ws.data.connectionId!;
+            if (tunnel.clientSockets.get(connectionId) === ws) {
+                tunnel.clientSockets.delete(connectionId);
+                if (tunnel.state === 'online') {
+                    const close: WebSocketClose = { code, reason };
+                    tunnel.mux.send(connectionId, encodeJsonFrame(FrameType.WsClose, connectionId, close));
+                }
+            }
             tunnel.lastActive = Date.now(); // Update activity timestamp
             logger.debug(`Client connection closed for subdomain: ${subdomain}, remaining clients: ${tunnel.clientSockets.size}`);
         }
     }
 
-    private cleanupTunnel(subdomain: string): void {
+    private handleWebSocketPong(ws: ServerWebSocket<TunnelData>): void {
+        const tunnel = this.tunnels.get(ws.data.subdomain);
+        if (ws.data.isControl && tunnel?.controlSocket === ws) {
+            tunnel.missedHeartbeats = 0;
+        }
+    }
+
+    private handleWebSocketDrain(ws: ServerWebSocket<TunnelData>): void {
+        const tunnel = this.tunnels.get(ws.data.subdomain);
+        if (ws.data.isControl && tunnel?.controlSocket === ws) {
+            tunnel.mux.flush();
+        }
+    }
+
+    /**
+     * Control socket disconnected or found dead - start grace period
+     */
+    private markOffline(subdomain: string, tunnel: TunnelInfo): void {
+        if (tunnel.state === 'offline') return;
+        tunnel.state = 'offline';
+
+        this.dropConnectionState(tunnel);
+
+        tunnel.graceTimeout = setTimeout(() => {
+            logger.debug(`Grace period expired for tunnel: ${subdomain}`);
+            this.cleanupTunnel(subdomain);
+        }, this.options.reconnectGrace) as unknown as number;
+        logger.debug(`Control connection lost for ${subdomain}, grace period started`);
+    }
+
+    /**
+     * Fail everything carried by a control connection that's gone. The client drops
+     * its in-flight requests and local WebSockets when the control connection goes,
+     * so none of them can be resumed, and frames still queued for them would only
+     * confuse the next connection.
+     */
+    private dropConnectionState(tunnel: TunnelInfo): void {
+        this.failPendingRequests(tunnel);
+        tunnel.mux.clear();
+        for (const connectionId of [...tunnel.clientSockets.keys()]) {
+            this.closeClientSocket(tunnel, connectionId, { code: 1011, reason: 'Tunnel connection lost' });
+        }
+        this.abortTcpStreams(tunnel);
+    }
+
+    private cleanupTunnel(subdomain: string, close?: WebSocketClose): void {
         const tunnel = this.tunnels.get(subdomain);
         if (!tunnel) return;
 
+        // Its series go, so whatever is counted while it winds down goes to the other tunnels
+        this.metrics.release(subdomain);
+        tunnel.metricsLabel = OTHER_TUNNELS;
+        this.tunnelRates?.forget(subdomain);
+
         // Clear any existing grace timeout
         if (tunnel.graceTimeout) {
             clearTimeout(tunnel.graceTimeout);
         }
 
         // Close all client sockets
-        for (const clientSocket of tunnel.clientSockets) {
+        for (const clientSocket of tunnel.clientSockets.values()) {
             try {
                 clientSocket.close();
             } catch (err) {
@@ -440,10 +1320,16 @@ class TunnelServer {
             }
         }
 
+        // Stop listening for TCP forwards and drop their connections
+        this.abortTcpStreams(tunnel);
+        for (const forward of tunnel.tcpForwards.values()) {
+            forward.listener.stop(true);
+        }
+
         // Close control socket if it's still open
         try {
             if (tunnel.controlSocket.readyState !== WebSocket.CLOSED) {
-                tunnel.controlSocket.close();
+                tunnel.controlSocket.close(close?.code, close?.reason);
             }
         } catch (err) {
             // Ignore errors during close
@@ -451,26 +1337,318 @@ class TunnelServer {
 
         // Clean up maps
         this.tunnels.delete(subdomain);
+        for (const targetSubdomain of tunnel.targets.values()) {
+            this.targetSubdomains.delete(targetSubdomain);
+        }
 
-        // Clean up any pending requests
-        for (const [id, resolve] of this.pendingRequests) {
-            resolve(new Response('Tunnel connection lost', { status: 502 }));
-            this.pendingRequests.delete(id);
+        // Fail requests that were waiting for a reconnection
+        for (const waiter of tunnel.onlineWaiters) {
+            waiter(false);
         }
 
+        // Clean up this tunnel's pending requests, other tunnels are unaffected
+        this.failPendingRequests(tunnel);
+
         logger.debug(`Tunnel cleaned up for subdomain: ${subdomain}`);
     }
 
+    /**
+     * Fail everything in flight on a tunnel whose client has gone away, the
+     * client forgets about its requests when the control connection drops
+     */
+    private failPendingRequests(tunnel: TunnelInfo): void {
+        for (const pending of tunnel.pendingRequests.values()) {
+            clearTimeout(pending.timeout);
+            if (pending.responded) {
+                pending.body?.error(new Error('Tunnel connection lost'));
+            } else {
+                this.metrics.lost.inc({ tunnel: tunnel.metricsLabel });
+                pending.resolve(new Response('Tunnel connection lost', { status: 502 }));
+            }
+        }
+        tunnel.pendingRequests.clear();
+        for (const window of tunnel.requestBodies.values()) {
+            window.close();
+        }
+        tunnel.requestBodies.clear();
+
+        for (const pending of tunnel.pendingUpgrades.values()) {
+            pending.closed = { code: 1011, reason: 'Tunnel connection lost' };
+            pending.resolve({ accepted: false, close: pending.closed });
+        }
+    }
+
+    /**
+     * Send the visitor's request body a window at a time. The visitor's socket
+     * isn't read from while the client catches up.
+     * @returns false if the request was cancelled or the client went away first
+     */
+    private async streamRequestBody(tunnel: TunnelInfo, requestId: string, body: ReadableStream<Uint8Array>): Promise<boolean> {
+        const window = new SendWindow();
+        tunnel.requestBodies.set(requestId, window);
+        const reader = body.getReader();
+        const max = this.options.maxRequestBody;
+        let sent = 0;
+        try {
+            while (true) {
+                await window.wait();
+                if (window.closed) {
+                    await reader.cancel();
+                    return false;
+                }
+                const { done, value } = await reader.read();
+                if (done) return true;
+
+                sent += value.length;
+                if (max > 0 && sent > max) {
+                    logger.warn(`[LIMIT] Request ${requestId} has a body over the ${formatBytes(max)} limit, cancelling it`);
+                    this.metrics.limited.inc({ tunnel: tunnel.metricsLabel, limit: 'request_body' });
+                    this.cancelRequest(tunnel, requestId, 'Request body too large', this.requestTooLarge());
+                    await reader.cancel();
+                    return false;
+                }
+                window.consume(value.length);
+                tunnel.lastActive = Date.now();
+                this.metrics.bytesReceived.inc({ tunnel: tunnel.metricsLabel, protocol: 'http' }, value.length);
+                tunnel.mux.sendData(FrameType.RequestBody, requestId, value);
+            }
+        } finally {
+            tunnel.requestBodies.delete(requestId);
+        }
+    }
+
+    private handleControlFrame(tunnel: TunnelInfo, data: Uint8Array): void {
+        const frame = decodeFrame(data);
+        tunnel.lastActive = Date.now();
+
+        switch (frame.type) {
+            case FrameType.WsOpened:
+            case FrameType.WsText:
+            case FrameType.WsBinary:
+            case FrameType.WsClose:
+                this.handleWebSocketFrame(tunnel, frame);
+                return;
+            case FrameType.WindowUpdate: {
+                const window = tunnel.requestBodies.get(frame.id);
+                if (window) {
+                    window.ack(decodeWindowUpdate(frame.payload));
+                } else {
+                    tunnel.tcpStreams.get(frame.id)?.handleFrame(frame);
+                }
+                return;
+            }
+            case FrameType.TcpData:
+                this.metrics.bytesSent.inc({ tunnel: tunnel.metricsLabel, protocol: 'tcp' }, frame.payload.length);
+                tunnel.tcpStreams.get(frame.id)?.handleFrame(frame);
+                return;
+            case FrameType.TcpOpened:
+            case FrameType.TcpEnd:
+            case FrameType.TcpClose:
+                tunnel.tcpStreams.get(frame.id)?.handleFrame(frame);
+                return;
+            default:
+                this.handleResponseFrame(tunnel, frame);
+        }
+    }
+
+    private handleResponseFrame(tunnel: TunnelInfo, frame: Frame): void {
+        const pending = tunnel.pendingRequests.get(frame.id);
+        if (!pending) {
+            logger.debug(`Dropping frame ${frame.type} for unknown request: ${frame.id}`);
+            return;
+        }
+
+        switch (frame.type) {
+            case FrameType.ResponseStart: {
+                const response = decodeJsonPayload<TunnelResponse>(frame.payload);
+                const headers = stripHopByHopHeaders(response.headers);
+                pending.responded = true;
+                clearTimeout(pending.timeout);
+
+                if (NULL_BODY_STATUSES.has(response.status)) {
+                    pending.resolve(new Response(null, {
+                        status: response.status,
+                        headers
+                    }));
+                    return;
+                }
+
+                // Bytes are reported consumed as Bun takes them for the visitor, so a
+                // slow download holds back the local server. Bun itself may still
+                // buffer ahead of a slow visitor, depending on its version.
+                pending.body = new ReceiveWindow((bytes) => {
+                    this.metrics.bytesSent.inc({ tunnel: tunnel.metricsLabel, protocol: 'http' }, bytes);
+                    tunnel.mux.send(frame.id, encodeWindowUpdate(frame.id, bytes));
+                }, () => this.cancelRequest(tunnel, frame.id, 'Visitor went away'));
+                pending.resolve(new Response(pending.body.stream, {
+                    status: response.status,
+                    headers
+                }));
+                break;
+            }
+            case FrameType.ResponseBody:
+                // The head has gone out by now, so a response over the limit can only be
+                // cut off. It ends after what came within the limit, a size limit isn't a
+                // failure for the visitor's connection to be reset over.
+                pending.bodyBytes += frame.payload.length;
+                if (this.options.maxResponseBody > 0 && pending.bodyBytes > this.options.maxResponseBody) {
+                    logger.warn(`[LIMIT] Response to request ${frame.id} is over the ${formatBytes(this.options.maxResponseBody)} limit, cutting it off`);
+                    this.metrics.limited.inc({ tunnel: tunnel.metricsLabel, limit: 'response_body' });
+                    this.cancelRequest(tunnel, frame.id, 'Response body too large', undefined, true);
+                    break;
+                }
+                // Copy out of the socket buffer, it may be reused once we return
+                pending.body?.push(frame.payload.slice());
+                break;
+            case FrameType.ResponseEnd:
+                pending.body?.end();
+                tunnel.pendingRequests.delete(frame.id);
+                break;
+            case FrameType.ResponseError: {
+                const reason = decodeTextPayload(frame.payload);
+                logger.debug(`Request ${frame.id} failed on client: ${reason}`);
+                clearTimeout(pending.timeout);
+                if (pending.responded) {
+                    pending.body?.error(new Error(reason));
+                } else {
+                    pending.resolve(new Response('Bad Gateway', { status: 502 }));
+                }
+                tunnel.pendingRequests.delete(frame.id);
+                break;
+            }
+            default:
+                logger.warn(`Unknown frame type from control connection: ${frame.type}`);
+        }
+    }
+
+    private handleWebSocketFrame(tunnel: TunnelInfo, frame: Frame): void {
+        const socket = tunnel.clientSockets.get(frame.id);
+        const pending = tunnel.pendingUpgrades.get(frame.id);
+
+        switch (frame.type) {
+            case FrameType.WsOpened: {
+                const opened = decodeJsonPayload<WebSocketOpened>(frame.payload);
+                pending?.resolve({ accepted: true, protocol: opened.protocol });
+                break;
+            }
+            case FrameType.WsText:
+            case FrameType.WsBinary: {
+                this.metrics.bytesSent.inc({ tunnel: tunnel.metricsLabel, protocol: 'websocket' }, frame.payload.length);
+                if (socket) {
+                    socket.send(frame.type === FrameType.WsText
+                        ? decodeTextPayload(frame.payload)
+                        : frame.payload);
+                } else {
+                    // Copy out of the socket buffer, it may be reused once we return
+                    pending?.backlog.push({ ...frame, payload: frame.payload.slice() });
+                }
+                break;
+            }
+            case FrameType.WsClose: {
+                const close = decodeJsonPayload<WebSocketClose>(frame.payload);
+                if (socket) {
+                    this.closeClientSocket(tunnel, frame.id, close);
+                } else if (pending) {
+                    // Either the local server refused the connection, or it hung
+                    // up before the visitor socket finished opening
+                    pending.closed = close;
+                    pending.resolve({ accepted: false, close });
+                }
+                break;
+            }
+        }
+    }
+
+    private async upgradeClientConnection(req: Request, server: Server, tunnel: TunnelInfo, route: MatchedRoute): Promise<Response> {
+        const { subdomain } = route;
+        const connectionId = createId();
+        const protocols = (req.headers.get('sec-websocket-protocol') ?? '')
+            .split(',')
+            .map(protocol => protocol.trim())
+            .filter(Boolean);
+
+        // Ask the client to open the matching local WebSocket before accepting the visitor,
+        // so refusals surface as HTTP errors and the subprotocol can be negotiated
+        const result = await new Promise<UpgradeResult>((resolve) => {
+            const timeout = setTimeout(() => {
+                resolve({ accepted: false, close: { code: 1011, reason: 'Local WebSocket open timeout' } });
+            }, UPGRADE_TIMEOUT);
+
+            tunnel.pendingUpgrades.set(connectionId, {
+                resolve: (result) => {
+                    clearTimeout(timeout);
+                    resolve(result);
+                },
+                backlog: []
+            });
+
+            const open: WebSocketOpen = {
+                path: route.path,
+                headers: stripVisitorCredentials(tunnel.visitorPolicy, stripHopByHopHeaders(headersToList(req.headers), [...WEBSOCKET_HANDSHAKE_HEADERS, ...route.routingHeaders ?? []])),
+                protocols,
+                tunnelUrl: route.tunnelUrl,
+                target: route.target
+            };
+            tunnel.mux.send(connectionId, encodeJsonFrame(FrameType.WsOpen, connectionId, open));
+        });
+
+        if (!result.accepted) {
+            // On timeout the client may still be dialing, tell it to give up
+            if (!tunnel.pendingUpgrades.get(connectionId)?.closed) {
+                tunnel.mux.send(connectionId, encodeJsonFrame(FrameType.WsClose, connectionId, result.close));
+            }
+            tunnel.pendingUpgrades.delete(connectionId);
+            logger.debug(`[WS] Local server refused connection ${connectionId}: ${result.close.reason}`);
+            return new Response('Bad Gateway', { status: 502 });
+        }
+
+        // Bun answers with the first requested subprotocol on its own and sends the
+        // header twice if we set it as well, so only override a different choice
+        const overrideProtocol = result.protocol && result.protocol !== protocols[0];
+        const success = server.upgrade(req, {
+            data: { subdomain, isControl: false, connectionId },
+            headers: overrideProtocol ? { 'Sec-WebSocket-Protocol': result.protocol } : undefined
+        });
+
+        logger.debug(`[WS] Client upgrade result: ${success ? 'Success' : 'Failed'}`);
+        if (!success) {
+            tunnel.pendingUpgrades.delete(connectionId);
+            const close: WebSocketClose = { code: 1011, reason: 'Visitor upgrade failed' };
+            tunnel.mux.send(connectionId, encodeJsonFrame(FrameType.WsClose, connectionId, close));
+            return new Response('WebSocket upgrade failed', { status: 500 });
+        }
+        return new Response();
+    }
+
+    private closeClientSocket(tunnel: TunnelInfo, connectionId: string, close: WebSocketClose): void {
+        const socket = tunnel.clientSockets.get(connectionId);
+        if (!socket) return;
+
+        // Remove first so the close handler doesn't echo the close back to the local server
+        tunnel.clientSockets.delete(connectionId);
+        try {
+            if (isSendableCloseCode(close.code)) {
+                socket.close(close.code, close.reason);
+            } else {
+                socket.close();
+            }
+        } catch (err) {
+            // Ignore errors during close
+        }
+    }
+
     private cleanupWebSocket(ws: ServerWebSocket<TunnelData>): void {
         const subdomain = ws.data.subdomain;
         if (!subdomain) return;
 
         if (ws.data.isControl) {
-            this.cleanupTunnel(subdomain);
+            if (this.tunnels.get(subdomain)?.controlSocket === ws) {
+                this.cleanupTunnel(subdomain);
+            }
         } else {
             const tunnel = this.tunnels.get(subdomain);
             if (tunnel) {
-                tunnel.clientSockets.delete(ws);
+                tunnel.clientSockets.delete(ws.data.connectionId!);
             }
         }
 
@@ -483,17 +1661,239 @@ class TunnelServer {
         }
     }
 
-    private generateSubdomain(): string {
-        return createId();
+    /**
+     * Wait for an offline tunnel to be reclaimed by its client
+     * @returns false if the grace period ran out instead
+     */
+    private async waitForOnline(tunnel: TunnelInfo, subdomain: string): Promise<boolean> {
+        if (tunnel.state === 'online') return true;
+
+        logger.debug(`[REQUEST] Tunnel ${subdomain} is offline, queueing request until it reconnects`);
+        return new Promise((resolve) => {
+            tunnel.onlineWaiters.add(resolve);
+        });
+    }
+
+    /**
+     * Match a control connection's resume credentials against a live tunnel
+     * @returns the subdomain to reclaim, or null to allocate a new one
+     */
+    private findResumableTunnel(req: Request): string | null {
+        // Sent as `<subdomain>.<token>`
+        const [subdomain, token] = (req.headers.get('x-bunnel-resume') ?? '').split('.');
+        if (!subdomain || !token) return null;
+
+        const tunnel = this.tunnels.get(subdomain);
+        if (!tunnel || !safeEqual(tunnel.resumeToken, token)) {
+            logger.debug(`[WS] Rejected resume for subdomain: ${subdomain}`);
+            return null;
+        }
+        return subdomain;
+    }
+
+    /**
+     * Check the bearer token of a control connection against the configured
+     * shared secrets and signing secret. Everyone is let in when neither is set.
+     */
+    private authenticateControlConnection(req: Request): { authorized: boolean; subject?: string } {
+        const { authTokens, authSecret } = this.options;
+        if (authTokens.length === 0 && !authSecret) {
+            return { authorized: true };
+        }
+
+        const match = /^Bearer\s+(.+)$/i.exec(req.headers.get('authorization') ?? '');
+        if (!match) {
+            return { authorized: false };
+        }
+        const token = match[1].trim();
+
+        if (authTokens.some(expected => safeEqual(expected, token))) {
+            return { authorized: true };
+        }
+
+        const claims = authSecret ? verifyAuthToken(authSecret, token) : null;
+        if (claims) {
+            return { authorized: true, subject: claims.sub };
+        }
+
+        return { authorized: false };
+    }
+
+    /**
+     * Read the request timeouts a client asks for, as `pattern=ms` pairs such as
+     * `/reports/*=300000`, where `*` in a pattern matches anything
+     */
+    private parseRouteTimeouts(header: string): RouteTimeout[] | Response {
+        const timeouts: RouteTimeout[] = [];
+        for (const entry of header.split(',').map(entry => entry.trim()).filter(Boolean)) {
+            const separator = entry.lastIndexOf('=');
+            const pattern = entry.slice(0, separator);
+            const timeout = Number(entry.slice(separator + 1));
+            if (separator < 0 || !PATH_PATTERN.test(pattern) || !Number.isInteger(timeout) || timeout <= 0) {
+                return this.controlError(400, {
+                    error: 'invalid_timeout',
+                    message: `Invalid request timeout '${entry}', expected a path pattern starting with / and a number of milliseconds`
+                });
+            }
+            const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+            timeouts.push({ pattern, matcher: new RegExp(`^${source}$`), timeout });
+        }
+        return timeouts;
+    }
+
+    /**
+     * Listen for the TCP forwards a control connection asks for, given as
+     * `<name>=<port>` pairs where port 0 picks any free port in the range
+     * @returns the listeners, or the error response to refuse the connection with
+     */
+    private bindTcpForwards(subdomain: string, header: string): Map<string, TcpForward> | Response {
+        const requested = header.split(',').map(entry => entry.trim()).filter(Boolean);
+        const forwards = new Map<string, TcpForward>();
+        const refuse = (status: number, body: ControlErrorBody): Response => {
+            for (const forward of forwards.values()) {
+                forward.listener.stop(true);
+            }
+            return this.controlError(status, body);
+        };
+
+        const range = this.options.tcpPorts;
+        for (const entry of requested) {
+            const [name, portValue] = entry.toLowerCase().split('=');
+            const port = Number(portValue);
+            if (!TARGET_NAME_PATTERN.test(name) || !Number.isInteger(port) || port < 0 || port > 65535 || forwards.has(name)) {
+                return refuse(400, {
+                    error: 'invalid_tcp_forward',
+                    message: `Invalid TCP forward '${entry}', expected a unique name of lowercase letters, digits and hyphens and a port`
+                });
+            }
+            if (!range) {
+                return refuse(403, {
+                    error: 'tcp_unavailable',
+                    message: 'TCP forwarding is not enabled on this server'
+                });
+            }
+            if (port !== 0 && (port < range.from || port > range.to)) {
+                return refuse(403, {
+                    error: 'tcp_unavailable',
+                    message: `Port ${port} is outside the ports available for TCP forwarding, ${range.from}-${range.to}`
+                });
+            }
+
+            const candidates = port === 0
+                ? Array.from({ length: range.to - range.from + 1 }, (_, i) => range.from + i)
+                : [port];
+            let listener: TcpForward['listener'] | null = null;
+            for (const candidate of candidates) {
+                listener = this.listenTcp(subdomain, name, candidate);
+                if (listener) break;
+            }
+            if (!listener) {
+                return refuse(409, {
+                    error: 'port_taken',
+                    message: port === 0
+                        ? `No free port left for TCP forward '${name}'`
+                        : `Port ${port} for TCP forward '${name}' is already in use`
+                });
+            }
+            forwards.set(name, { port: listener.port, listener });
+            logger.debug(`[TCP] Listening on port ${listener.port} for ${subdomain}/${name}`);
+        }
+        return forwards;
     }
 
-    private headersToObject(headers: Headers): Record<string, string> {
-        const obj: Record<string, string> = {};
-        headers.forEach((value, key) => {
-            obj[key] = value;
+    /**
+     * @returns null if the port can't be listened on
+     */
+    private listenTcp(subdomain: string, name: string, port: number): TcpForward['listener'] | null {
+        try {
+            return Bun.listen<TcpStream | undefined>({
+                hostname: this.options.hostname,
+                port,
+                allowHalfOpen: true,
+                data: undefined,
+                socket: {
+                    open: (socket) => this.openTcpStream(subdomain, name, socket),
+                    data: (socket, data) => {
+                        const tunnel = this.tunnels.get(subdomain);
+                        if (tunnel) {
+                            this.metrics.bytesReceived.inc({ tunnel: tunnel.metricsLabel, protocol: 'tcp' }, data.length);
+                        }
+                        socket.data?.receive(data);
+                    },
+                    end: (socket) => socket.data?.end(),
+                    drain: (socket) => socket.data?.drain(),
+                    close: (socket) => socket.data?.close(),
+                    error: (socket, err) => socket.data?.close(err.message)
+                }
+            });
+        } catch (err) {
+            logger.debug(`[TCP] Can't listen on port ${port}: ${err instanceof Error ? err.message : String(err)}`);
+            return null;
+        }
+    }
+
+    private openTcpStream(subdomain: string, name: string, socket: Socket<TcpStream | undefined>): void {
+        const tunnel = this.tunnels.get(subdomain);
+        if (!tunnel || tunnel.state !== 'online') {
+            socket.end();
+            return;
+        }
+        if (!isAddressAllowed(tunnel.visitorPolicy, socket.remoteAddress)) {
+            logger.debug(`[TCP] Connection from ${socket.remoteAddress} denied by ${subdomain}/${name}`);
+            socket.end();
+            return;
+        }
+
+        const id = createId();
+        const stream = new TcpStream(id, socket as Socket<TcpStream>, (frame) => {
+            tunnel.lastActive = Date.now();
+            tunnel.mux.send(id, frame);
+        }, () => {
+            tunnel.tcpStreams.delete(id);
+            logger.debug(`[TCP] Stream ${id} closed, remaining: ${tunnel.tcpStreams.size}`);
         });
-        return obj;
+        socket.data = stream;
+        tunnel.tcpStreams.set(id, stream);
+        tunnel.lastActive = Date.now();
+
+        const open: TcpOpen = { forward: name, remoteAddress: socket.remoteAddress };
+        tunnel.mux.send(id, encodeJsonFrame(FrameType.TcpOpen, id, open));
+        logger.debug(`[TCP] Stream ${id} opened on ${subdomain}/${name} from ${socket.remoteAddress}`);
+    }
+
+    private abortTcpStreams(tunnel: TunnelInfo): void {
+        for (const stream of tunnel.tcpStreams.values()) {
+            stream.abort();
+        }
+        tunnel.tcpStreams.clear();
+    }
+
+    private controlError(status: number, body: ControlErrorBody): Response {
+        return new Response(JSON.stringify(body), {
+            status,
+            headers: { 'Content-Type': 'application/json' }
+        });
+    }
+
+    private isSubdomainTaken(subdomain: string): boolean {
+        return this.tunnels.has(subdomain) || this.claimedSubdomains.has(subdomain) || this.targetSubdomains.has(subdomain);
+    }
+
+    private generateSubdomain(): string {
+        // Requested names share the namespace, so a random one could already be taken
+        let subdomain = createId();
+        while (this.isSubdomainTaken(subdomain)) {
+            subdomain = createId();
+        }
+        return subdomain;
     }
 }
 
+export { signAuthToken, verifyAuthToken } from './auth';
+export { headerRouter, hostRouter, pathRouter } from './router';
+export type { MatchedRoute, RoutingStrategy, TunnelRoute, TunnelRouter } from './router';
+export type { AuthTokenClaims } from './auth';
+export type { TunnelSummary } from './admin';
+export type { VisitorAccess } from './access';
+
 export default TunnelServer;
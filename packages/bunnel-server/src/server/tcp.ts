@@ -0,0 +1,178 @@
+import type { Socket } from "bun";
+import { FrameType, STREAM_WINDOW, decodeTextPayload, decodeWindowUpdate, encodeFrame, encodeWindowUpdate } from './protocol';
+import type { Frame } from './protocol';
+
+// Bun sockets can stop reading, though its types don't declare it yet
+type PausableSocket = Socket<TcpStream> & { pause(): void; resume(): void };
+
+/**
+ * Server end of a tunneled TCP connection, relaying between a visitor's socket
+ * and the client's local connection, one window of bytes at a time.
+ */
+export class TcpStream {
+    private pending: Uint8Array[] = [];  // Visitor bytes waiting for the stream to open or the window to free up
+    private pendingBytes = 0;
+    private unacked = 0;  // Bytes sent to the client that it hasn't written out yet
+    private writes: Uint8Array[] = [];  // Client bytes waiting for the visitor's socket to drain
+    private opened = false;
+    private paused = false;
+    private visitorEnded = false;  // Bun reports the visitor's FIN on every tick, act on it once
+    private endSent = false;
+    private ending = false;  // The client's side is done, shut down once the writes are out
+    private closing = false;  // The client closed cleanly, close once the writes are out
+    public closed = false;
+    private readonly socket: PausableSocket;
+
+    constructor(
+        public readonly id: string,
+        socket: Socket<TcpStream>,
+        private readonly send: (frame: Uint8Array) => void,
+        private readonly onClose: () => void
+    ) {
+        this.socket = socket as PausableSocket;
+    }
+
+    /**
+     * Bytes from the visitor
+     */
+    public receive(data: Uint8Array): void {
+        if (this.closed) return;
+
+        // Copy out of the socket buffer, it may be reused once we return
+        this.pending.push(data.slice());
+        this.pendingBytes += data.length;
+        this.flush();
+        // A few reads may still arrive after pausing, so this is a soft limit
+        if (this.pendingBytes >= STREAM_WINDOW && !this.paused) {
+            this.paused = true;
+            this.socket.pause();
+        }
+    }
+
+    /**
+     * The visitor won't send any more
+     */
+    public end(): void {
+        if (this.visitorEnded) return;
+        this.visitorEnded = true;
+        this.flush();
+    }
+
+    /**
+     * The visitor's socket can take more writes
+     */
+    public drain(): void {
+        this.write();
+    }
+
+    public handleFrame(frame: Frame): void {
+        if (this.closed) return;
+
+        switch (frame.type) {
+            case FrameType.TcpOpened:
+                this.opened = true;
+                this.flush();
+                break;
+            case FrameType.TcpData:
+                this.writes.push(frame.payload.slice());
+                this.write();
+                break;
+            case FrameType.WindowUpdate:
+                this.unacked -= decodeWindowUpdate(frame.payload);
+                this.flush();
+                break;
+            case FrameType.TcpEnd:
+                this.ending = true;
+                this.write();
+                break;
+            case FrameType.TcpClose: {
+                const reason = decodeTextPayload(frame.payload);
+                this.closed = true;
+                this.onClose();
+                if (reason) {
+                    this.socket.terminate();
+                } else {
+                    this.closing = true;
+                    this.write();
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Close both ends, telling the client why
+     * @param reason Empty for a clean close
+     */
+    public close(reason = ''): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.onClose();
+        try {
+            this.send(encodeFrame(FrameType.TcpClose, this.id, reason));
+        } catch {
+            // The control connection is gone, the client has dropped the stream already
+        }
+        if (reason) {
+            this.socket.terminate();
+        } else {
+            this.socket.end();
+        }
+    }
+
+    /**
+     * Drop the visitor's connection without a word to the client, which
+     * forgets its streams when the control connection goes
+     */
+    public abort(): void {
+        this.closed = true;
+        this.socket.terminate();
+    }
+
+    // Send the visitor's bytes on while the client has room for them
+    private flush(): void {
+        if (!this.opened || this.closed) return;
+
+        while (this.pending.length > 0 && this.unacked < STREAM_WINDOW) {
+            const chunk = this.pending.shift()!;
+            this.pendingBytes -= chunk.length;
+            this.unacked += chunk.length;
+            this.send(encodeFrame(FrameType.TcpData, this.id, chunk));
+        }
+        if (this.paused && this.pendingBytes < STREAM_WINDOW) {
+            this.paused = false;
+            this.socket.resume();
+        }
+        if (this.pending.length === 0 && this.visitorEnded && !this.endSent) {
+            this.endSent = true;
+            this.send(encodeFrame(FrameType.TcpEnd, this.id));
+        }
+    }
+
+    // Write the client's bytes to the visitor as fast as it takes them, and
+    // report them consumed so the client reads more
+    private write(): void {
+        let written = 0;
+        while (this.writes.length > 0) {
+            const chunk = this.writes[0];
+            const count = this.socket.write(chunk);
+            written += count;
+            if (count < chunk.length) {
+                this.writes[0] = chunk.subarray(count);
+                break;
+            }
+            this.writes.shift();
+        }
+        if (written > 0 && !this.closed) {
+            this.send(encodeWindowUpdate(this.id, written));
+        }
+
+        if (this.writes.length > 0) return;
+        if (this.closing) {
+            this.socket.end();
+        } else if (this.ending) {
+            this.ending = false;
+            this.socket.shutdown();
+        }
+    }
+}
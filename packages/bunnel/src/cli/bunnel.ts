@@ -1,45 +1,208 @@
 #!/usr/bin/env node
 import { Command } from 'commander';
-import { TunnelClient } from '../client/index.js';
+import { readFileSync } from 'node:fs';
+import { TunnelClient, TunnelError } from '../client/index.js';
+import type { ConnectionInfo, LocalTarget, RouteTimeout, TcpForward, TunnelCloseReason, VisitorAccess } from '../client/index.js';
+import { loadConfigFile, parseDuration, parseInspectPort, parseRouteTimeout, parseTcpForward, parseVisitorAccess, resolveLocalTargets } from './config.js';
 
 interface ClientOptions {
-    local: string;
-    tunnel: string;
+    config?: string;
+    local?: string[];
+    tcp?: string[];
+    tunnel?: string;
+    reconnect: boolean;
+    authToken?: string;
+    subdomain?: string;
+    ca?: string;
+    fingerprint?: string;
+    hostHeader: string;
+    requestTimeout: string | number;
+    timeout?: string[];
+    rewriteRedirects?: boolean;
+    inspect?: boolean | number | string;
+    har?: string;
+    allow?: string[];
+    basicAuth?: string;
+    visitorToken?: string;
+}
+
+const CLOSE_MESSAGES: Record<TunnelCloseReason, string> = {
+    disconnected: '🔌 Tunnel closed',
+    connection_lost: '🔌 Tunnel closed, connection to the tunnel server lost',
+    server_shutdown: '🔌 Tunnel closed, the tunnel server shut down',
+    closed_by_server: '🔌 Tunnel closed by the tunnel server operator',
+    idle_timeout: '⏱️  Tunnel closed by the server after being idle for too long',
+    expired: '⏱️  Tunnel closed by the server after reaching its maximum lifetime'
+};
+
+/**
+ * Print the public URL of the main local server, of each additional target
+ * and of each TCP forward
+ */
+function printTunnelUrls(info: ConnectionInfo, targets: LocalTarget[], tcp: TcpForward[]): void {
+    console.log(`🌐 Tunnel URL: ${info.tunnelUrl}`);
+    for (const target of targets) {
+        const url = target.name
+            ? info.targets[target.name] ?? '(not set up by the server)'
+            : `${info.tunnelUrl.replace(/\/$/, '')}${target.pathPrefix}`;
+        console.log(`   ${target.name ?? target.pathPrefix}: ${url} → ${target.url}`);
+    }
+    for (const forward of tcp) {
+        const address = info.tcp[forward.name] ?? '(not set up by the server)';
+        console.log(`   ${forward.name}: tcp://${address} → ${forward.host}:${forward.port}`);
+    }
+}
+
+/**
+ * Say who may use the tunnel, e.g. `visitors from 10.0.0.0/8 with basic auth or the visitor token`
+ */
+function describeAccess({ allow = [], basicAuth, token }: VisitorAccess): string {
+    const from = allow.length > 0 ? ` from ${allow.join(', ')}` : '';
+    const credentials = [basicAuth && 'basic auth', token && 'the visitor token'].filter(Boolean).join(' or ');
+    return `visitors${from}${credentials ? ` with ${credentials}` : ''}`;
+}
+
+function collect(value: string, previous: string[] = []): string[] {
+    return [...previous, value];
 }
 
 const program = new Command();
 program
     .name('bunnel')
     .description('Bunnel client')
-    .requiredOption('-l, --local <url>', 'local server URL, for example http://localhost:3000')
-    .requiredOption('-t, --tunnel <url>', 'tunnel server URL, for example, ws://myserver.com:4444')
-    .action(async (options: ClientOptions) => {
-        const localServerUrl = options.local;
+    .option('-l, --local <target>', 'local server URL, for example http://localhost:3000. Repeat as name=<url> for a subdomain of its own or /prefix=<url> for a path of the tunnel URL', collect)
+    .option('--tcp <forward>', 'expose a local TCP service on a port of the tunnel server, as [name=][remotePort:][host:]port, repeatable', collect)
+    .option('-t, --tunnel <url>', 'tunnel server URL, for example, ws://myserver.com:4444')
+    .option('-c, --config <file>', 'JSON file with any of the long options, flags take precedence')
+    .option('-a, --auth-token <token>', 'token for the tunnel server (env: BUNNEL_AUTH_TOKEN)')
+    .option('-s, --subdomain <name>', 'request a fixed subdomain instead of a random one')
+    .option('--ca <file>', 'CA certificate to verify a wss:// tunnel server with, e.g. its self-signed certificate')
+    .option('--fingerprint <sha256>', 'trust only the tunnel server certificate with this SHA-256 fingerprint')
+    .option('--host-header <mode>', "Host header for the local server: 'rewrite' to its own host, 'preserve' to keep the tunnel's, or a fixed value", 'rewrite')
+    .option('--request-timeout <duration>', 'how long to wait for the local server to start responding, e.g. 30s or 2m, 0 to wait indefinitely', '30s')
+    .option('--timeout <path=duration>', 'request timeout for paths matching a pattern, e.g. /reports/*=5m, enforced by the tunnel server, repeatable', collect)
+    .option('--rewrite-redirects', 'rewrite redirects and cookie domains pointing at the local server to the tunnel URL')
+    .option('--inspect [port]', 'serve a request inspector on 127.0.0.1 to look at recent requests and replay them (default port: 4040)')
+    .option('--allow <cidr>', 'only let visitors in from this IP address or CIDR range, e.g. 10.0.0.0/8, repeatable', collect)
+    .option('--basic-auth <user:password>', 'make visitors log in with HTTP basic auth (env: BUNNEL_BASIC_AUTH)')
+    .option('--visitor-token <token>', 'make visitors send Authorization: Bearer <token> (env: BUNNEL_VISITOR_TOKEN)')
+    .option('--har <file>', 'record requests and WebSocket messages through the tunnel to a HAR file')
+    .option('--no-reconnect', 'exit instead of reconnecting when the tunnel connection drops')
+    .action(async (flags: ClientOptions, command: Command) => {
+        let options: ClientOptions;
+        let localServerUrl: string;
+        let targets: LocalTarget[];
+        let tcp: TcpForward[];
+        let requestTimeout: number;
+        let timeouts: RouteTimeout[];
+        let inspectorPort: number | undefined;
+        let access: VisitorAccess | undefined;
+        try {
+            const file = flags.config ? loadConfigFile(flags.config) : {};
+            // Flags win over the file, and the file over flag defaults
+            const given = Object.fromEntries(
+                Object.entries(flags).filter(([key]) => command.getOptionValueSource(key) === 'cli')
+            );
+            options = { ...flags, ...file, ...given };
+            if (!options.tunnel) {
+                throw new Error('A tunnel server URL is required, pass --tunnel or set tunnel in a config file');
+            }
+            ({ localServerUrl, targets } = resolveLocalTargets(options.local ?? []));
+            tcp = (options.tcp ?? []).map(parseTcpForward);
+            requestTimeout = parseDuration(options.requestTimeout);
+            timeouts = (options.timeout ?? []).map(parseRouteTimeout);
+            inspectorPort = options.inspect ? parseInspectPort(options.inspect) : undefined;
+            access = parseVisitorAccess(
+                options.allow ?? [],
+                options.basicAuth ?? process.env.BUNNEL_BASIC_AUTH,
+                options.visitorToken ?? process.env.BUNNEL_VISITOR_TOKEN
+            );
+        } catch (error) {
+            console.error(`❌ ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        }
+
+        let ca: string | undefined;
+        try {
+            ca = options.ca ? readFileSync(options.ca, 'utf8') : undefined;
+        } catch (error) {
+            console.error(`❌ Could not read CA certificate: ${error instanceof Error ? error.message : String(error)}`);
+            process.exit(1);
+        }
 
         const tunnel = new TunnelClient({
             localServerUrl: localServerUrl,
+            targets,
+            tcp,
             tunnelServerUrl: options.tunnel,
-            onClosed: () => {
-                console.log('🔌 Tunnel closed');
-                process.exit(0);
+            authToken: options.authToken ?? process.env.BUNNEL_AUTH_TOKEN,
+            subdomain: options.subdomain,
+            ca,
+            fingerprint: options.fingerprint,
+            hostHeader: options.hostHeader,
+            requestTimeout,
+            timeouts,
+            inspectorPort,
+            har: options.har,
+            access,
+            rewriteRedirects: options.rewriteRedirects,
+            reconnect: options.reconnect,
+            onClosed: (reason) => {
+                console.log(CLOSE_MESSAGES[reason]);
+                process.exit(reason === 'disconnected' ? 0 : 1);
+            },
+            onExpiring: (reason, expiresAt) => {
+                const seconds = Math.max(0, Math.round((expiresAt.getTime() - Date.now()) / 1000));
+                console.log(reason === 'idle_timeout'
+                    ? `⏳ Tunnel idle, the server will close it in ${seconds}s unless it sees traffic`
+                    : `⏳ Tunnel reaches its maximum lifetime in ${seconds}s`);
+            },
+            onReconnecting: (attempt, delay) => {
+                console.log(`🔁 Connection lost, reconnecting in ${Math.ceil(delay / 1000)}s (attempt ${attempt})...`);
+            },
+            onReconnected: (info) => {
+                console.log(`✅ Reconnected`);
+                printTunnelUrls(info, targets, tcp);
             }
         });
 
         console.log(`📡 Connecting to tunnel server at ${options.tunnel}...`);
-        console.log(`🔄 Will forward requests to ${options.local}`);
+        console.log(`🔄 Will forward requests to ${localServerUrl}`);
+
+        // Handle graceful shutdown. The HAR file is open from the start of
+        // connecting, so it's finished even if that never completes.
+        let connected = false;
+        process.on('SIGINT', () => {
+            console.log('\n🛑 Shutting down tunnel...');
+            tunnel.disconnect();
+            // onClosed is only called for a tunnel that came up
+            if (!connected) process.exit(0);
+        });
 
         try {
-            const { subdomain, tunnelUrl } = await tunnel.connect();
+            const info = await tunnel.connect();
+            connected = true;
 
             console.log(`Tunnel to ${localServerUrl} available on remote:`);
-            console.log(`🌐 Tunnel URL: ${tunnelUrl}`);
-
-            // Handle graceful shutdown
-            process.on('SIGINT', () => {
-                console.log('\n🛑 Shutting down tunnel...');
-                tunnel.disconnect();
-            });
+            printTunnelUrls(info, targets, tcp);
+            if (access) {
+                console.log(`🔒 Only ${describeAccess(access)} may use the tunnel`);
+            }
+            if (info.expiresAt) {
+                console.log(`⏱️  Tunnel expires at ${info.expiresAt.toLocaleTimeString()}`);
+            }
+            const inspectorUrl = tunnel.getInspectorUrl();
+            if (inspectorUrl) {
+                console.log(`🔍 Inspector: ${inspectorUrl}`);
+            }
+            if (options.har) {
+                console.log(`📼 Recording traffic to ${options.har}`);
+            }
         } catch (error) {
+            if (error instanceof TunnelError) {
+                console.error(`❌ Tunnel server refused the connection (${error.code}): ${error.message}`);
+                process.exit(1);
+            }
             console.error('❌ Tunnel error:', error);
             process.exit(1);
         }
@@ -0,0 +1,205 @@
+import { readFileSync } from 'node:fs';
+import { isIP } from 'node:net';
+import type { LocalTarget, RouteTimeout, TcpForward, VisitorAccess } from '../client/index.js';
+
+/**
+ * Settings a config file can hold, keyed like the long flags
+ */
+export interface ClientConfig {
+    local?: string[];  // Same `[name=|/prefix=]url` form as --local
+    tcp?: string[];  // Same `[name=][remotePort:][host:]port` form as --tcp
+    tunnel?: string;
+    authToken?: string;
+    subdomain?: string;
+    ca?: string;
+    fingerprint?: string;
+    hostHeader?: string;
+    requestTimeout?: string | number;  // Duration, plain numbers are seconds
+    timeout?: string[];  // Same `path=duration` form as --timeout
+    rewriteRedirects?: boolean;
+    reconnect?: boolean;
+    inspect?: boolean | number | string;  // true for the default port
+    har?: string;
+    allow?: string[];  // Same address or CIDR range as --allow
+    basicAuth?: string;  // `username:password`
+    visitorToken?: string;
+}
+
+const STRING_SETTINGS = ['tunnel', 'authToken', 'subdomain', 'ca', 'fingerprint', 'hostHeader', 'har', 'basicAuth', 'visitorToken'];
+const BOOLEAN_SETTINGS = ['rewriteRedirects', 'reconnect'];
+const DURATION_SETTINGS = ['requestTimeout'];
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, '': 1000, s: 1000, m: 60000, h: 3600000, d: 86400000 };
+
+/**
+ * Read a JSON config file, where `local`, `tcp`, `timeout` and `allow` are a single value or a list of them
+ */
+export function loadConfigFile(path: string): ClientConfig {
+    try {
+        const config: unknown = JSON.parse(readFileSync(path, 'utf8'));
+        if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+            throw new Error('expected an object of settings');
+        }
+
+        for (const [key, value] of Object.entries(config)) {
+            if (key === 'local' || key === 'tcp' || key === 'timeout' || key === 'allow') {
+                const entries = Array.isArray(value) ? value : [value];
+                if (!entries.every(entry => typeof entry === 'string')) {
+                    throw new Error(`expected ${key} to be a string or a list of strings`);
+                }
+            } else if (STRING_SETTINGS.includes(key)) {
+                if (typeof value !== 'string') throw new Error(`expected ${key} to be a string`);
+            } else if (BOOLEAN_SETTINGS.includes(key)) {
+                if (typeof value !== 'boolean') throw new Error(`expected ${key} to be true or false`);
+            } else if (DURATION_SETTINGS.includes(key)) {
+                parseDuration(value);
+            } else if (key === 'inspect') {
+                if (value !== false) parseInspectPort(value as boolean | number | string);
+            } else {
+                throw new Error(`unknown setting '${key}'`);
+            }
+        }
+
+        const { local, tcp, timeout, allow, ...rest } = config as Omit<ClientConfig, 'local' | 'tcp' | 'timeout' | 'allow'>
+            & { local?: string | string[]; tcp?: string | string[]; timeout?: string | string[]; allow?: string | string[] };
+        return {
+            ...rest,
+            local: local === undefined ? undefined : [local].flat(),
+            tcp: tcp === undefined ? undefined : [tcp].flat(),
+            timeout: timeout === undefined ? undefined : [timeout].flat(),
+            allow: allow === undefined ? undefined : [allow].flat()
+        };
+    } catch (error) {
+        throw new Error(`Invalid config file ${path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Parse a duration such as `90`, `500ms`, `15m` or `12h` into milliseconds.
+ * Plain numbers are seconds.
+ */
+export function parseDuration(value: unknown): number {
+    const match = /^(\d+(?:\.\d+)?)(ms|[smhd]?)$/.exec(String(value).trim());
+    if (!match || (typeof value !== 'string' && typeof value !== 'number')) {
+        throw new Error(`Invalid duration: ${value}`);
+    }
+    return Math.round(parseFloat(match[1]) * DURATION_UNITS[match[2]]);
+}
+
+// Port the request inspector listens on when --inspect is given without one
+const DEFAULT_INSPECT_PORT = 4040;
+
+/**
+ * Port for --inspect, given bare for the default port
+ */
+export function parseInspectPort(value: boolean | number | string): number {
+    if (value === true) return DEFAULT_INSPECT_PORT;
+    const port = Number(value);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        throw new Error(`Invalid inspector port: ${value}`);
+    }
+    return port;
+}
+
+/**
+ * Parse a --local value: `url` for the main local server, `name=url` for one
+ * on a subdomain of its own, or `/prefix=url` for one under a path
+ */
+export function parseLocalTarget(spec: string): LocalTarget {
+    // URLs can hold `=` too, but never before a `:`
+    const match = /^([a-z0-9-]+|\/[^=:]*)=(.+)$/i.exec(spec.trim());
+    const url = match ? match[2] : spec.trim();
+
+    let protocol: string;
+    try {
+        protocol = new URL(url).protocol;
+    } catch {
+        throw new Error(`Invalid local server URL in '${spec}'`);
+    }
+    if (protocol !== 'http:' && protocol !== 'https:') {
+        throw new Error(`Expected an http or https local server URL in '${spec}'`);
+    }
+
+    if (!match) return { url };
+    return match[1].startsWith('/')
+        ? { url, pathPrefix: match[1] }
+        : { url, name: match[1].toLowerCase() };
+}
+
+/**
+ * Split --local values into the main local server and additional targets
+ * @throws Error unless exactly one of them is the main local server
+ */
+export function resolveLocalTargets(specs: string[]): { localServerUrl: string; targets: LocalTarget[] } {
+    const targets = specs.map(parseLocalTarget);
+    const main = targets.filter(target => !target.name && !target.pathPrefix);
+    if (main.length !== 1) {
+        throw new Error(main.length === 0
+            ? 'One --local needs to be a plain URL, for the main local server'
+            : 'Only one --local can be a plain URL, name the others with name=url or /prefix=url');
+    }
+    return {
+        localServerUrl: main[0].url,
+        targets: targets.filter(target => target !== main[0])
+    };
+}
+
+/**
+ * Parse a --tcp value, `[name=][remotePort:][host:]port` as in `ssh -R`, e.g.
+ * `5432`, `db=postgres.internal:5432` or `db=15432:localhost:5432`. The name
+ * defaults to the local port and the host to localhost.
+ */
+export function parseTcpForward(spec: string): TcpForward {
+    const match = /^(?:([a-z0-9-]+)=)?(?:(\d+):)?(?:([^:=]+):)?(\d+)$/i.exec(spec.trim());
+    const port = Number(match?.[4]);
+    const remotePort = match?.[2] === undefined ? undefined : Number(match[2]);
+    if (!match || port < 1 || port > 65535 || (remotePort !== undefined && (remotePort < 1 || remotePort > 65535))) {
+        throw new Error(`Invalid TCP forward '${spec}', expected [name=][remotePort:][host:]port`);
+    }
+    return {
+        name: (match[1] ?? String(port)).toLowerCase(),
+        host: match[3] ?? 'localhost',
+        port,
+        remotePort
+    };
+}
+
+/**
+ * Parse a --timeout value, `path=duration` such as `/reports/*=5m`, where `*`
+ * in the path matches anything
+ */
+export function parseRouteTimeout(spec: string): RouteTimeout {
+    const separator = spec.lastIndexOf('=');
+    const path = spec.slice(0, separator).trim();
+    if (separator < 0 || !/^\/[^\s,=]*$/.test(path)) {
+        throw new Error(`Invalid request timeout '${spec}', expected path=duration such as /reports/*=5m`);
+    }
+    const timeout = parseDuration(spec.slice(separator + 1));
+    if (timeout <= 0) {
+        throw new Error(`Invalid request timeout '${spec}', the duration can't be 0`);
+    }
+    return { path, timeout };
+}
+
+/**
+ * Gather the visitor access flags, with --basic-auth as `username:password`
+ * @returns undefined if none of them are set
+ */
+export function parseVisitorAccess(allow: string[], basicAuth?: string, token?: string): VisitorAccess | undefined {
+    if (allow.length === 0 && !basicAuth && !token) return undefined;
+    for (const entry of allow) {
+        const [address, prefix, ...rest] = entry.split('/');
+        if (!isIP(address) || rest.length > 0 || (prefix !== undefined && !/^\d+$/.test(prefix))) {
+            throw new Error(`Invalid address or CIDR range '${entry}', expected e.g. 203.0.113.7 or 10.0.0.0/8`);
+        }
+    }
+    const separator = basicAuth?.indexOf(':') ?? -1;
+    if (basicAuth && separator < 1) {
+        throw new Error('Invalid basic auth credentials, expected username:password');
+    }
+    return {
+        allow,
+        basicAuth: basicAuth ? { username: basicAuth.slice(0, separator), password: basicAuth.slice(separator + 1) } : undefined,
+        token
+    };
+}
@@ -0,0 +1,20 @@
+/**
+ * Reasons the tunnel server can give for refusing a control connection
+ */
+export type TunnelErrorCode = 'unauthorized' | 'invalid_subdomain' | 'invalid_target' | 'subdomain_taken'
+    | 'invalid_tcp_forward' | 'tcp_unavailable' | 'port_taken' | 'invalid_timeout' | 'invalid_access' | 'draining';
+
+/**
+ * Error thrown by connect() when the tunnel server refuses the connection
+ */
+export class TunnelError extends Error {
+    public readonly code: TunnelErrorCode;
+    public readonly status: number;
+
+    constructor(code: TunnelErrorCode, message: string, status: number) {
+        super(message);
+        this.name = 'TunnelError';
+        this.code = code;
+        this.status = status;
+    }
+}
@@ -0,0 +1,310 @@
+import { closeSync, openSync, readFileSync, writeSync } from 'node:fs';
+import { STATUS_CODES } from 'node:http';
+import { BodyCapture, MAX_CAPTURED_BODY, tapStream } from './inspector';
+import type { HeaderList } from './protocol';
+
+/**
+ * Traffic through the tunnel recorded as a HAR 1.2 file
+ * (http://www.softwareishard.com/blog/har-12-spec/), with WebSocket messages
+ * in the `_webSocketMessages` extension browsers use.
+ */
+
+interface HarNameValue {
+    name: string;
+    value: string;
+}
+
+interface HarTimings {
+    blocked: number;  // Held by the tunnel server, e.g. while the client reconnected
+    dns: -1;
+    connect: -1;
+    ssl: -1;
+    send: number;
+    wait: number;  // Waiting on the local server for the response head
+    receive: number;  // Sending the response body back through the tunnel
+}
+
+interface HarWebSocketMessage {
+    type: 'send' | 'receive';  // Sent by the visitor or received from the local server
+    time: number;  // Seconds since the epoch
+    opcode: 1 | 2;  // Text or binary
+    data: string;  // Binary messages are base64
+}
+
+interface HarEntry {
+    startedDateTime: string;
+    time: number;
+    request: {
+        method: string;
+        url: string;
+        httpVersion: string;
+        cookies: HarNameValue[];
+        headers: HarNameValue[];
+        queryString: HarNameValue[];
+        postData?: { mimeType: string; text: string; comment?: string };
+        headersSize: -1;
+        bodySize: number;
+    };
+    response: {
+        status: number;
+        statusText: string;
+        httpVersion: string;
+        cookies: HarNameValue[];
+        headers: HarNameValue[];
+        content: { size: number; mimeType: string; text?: string; encoding?: 'base64'; comment?: string };
+        redirectURL: string;
+        headersSize: -1;
+        bodySize: number;
+    };
+    cache: Record<string, never>;
+    timings: HarTimings;
+    comment?: string;
+    _resourceType?: 'websocket';
+    _webSocketMessages?: HarWebSocketMessage[];
+    _error?: string;
+}
+
+// Messages recorded per WebSocket, the rest are only counted so a long-lived socket can't grow without bound
+const MAX_WEBSOCKET_MESSAGES = 1000;
+const MAX_WEBSOCKET_BYTES = 8 * MAX_CAPTURED_BODY;
+
+// Closes the entries array and the log, every entry is written over it and it's written again after
+const HAR_END = '\n]}}\n';
+
+function harCreator(): { name: string; version: string } {
+    try {
+        const { version } = JSON.parse(readFileSync(new URL('../../package.json', import.meta.url), 'utf8'));
+        return { name: 'bunnel', version: String(version) };
+    } catch {
+        return { name: 'bunnel', version: 'unknown' };
+    }
+}
+
+function harHeaders(headers: HeaderList): HarNameValue[] {
+    return headers.map(([name, value]) => ({ name, value }));
+}
+
+function headerValue(headers: HeaderList, name: string): string {
+    return headers.find(([header]) => header === name)?.[1] ?? '';
+}
+
+/**
+ * Body text for the HAR, noting when it's base64 or only the start of the body
+ */
+function harBody(body: BodyCapture): { text: string; encoding?: 'base64'; comment?: string } {
+    const { size, truncated, encoding, data } = body.toJSON();
+    const comment = truncated ? `Only the first ${MAX_CAPTURED_BODY} of ${size} bytes were recorded` : undefined;
+    return encoding === 'base64' ? { text: data, encoding, comment } : { text: data, comment };
+}
+
+/**
+ * Recording of a request or WebSocket through the tunnel, written out once it's over
+ */
+abstract class HarRecording {
+    protected readonly arrivedAt = Date.now();  // When the client got the request
+    protected status = 0;  // Left at 0 if no response came
+    protected responseHeaders: HeaderList = [];
+    protected respondedAt?: number;
+    private done = false;
+
+    constructor(
+        private readonly recorder: HarRecorder,
+        protected readonly request: { method: string; url: string; headers: HeaderList; queued?: number }
+    ) {}
+
+    /**
+     * The response head, as sent back through the tunnel
+     */
+    public response(status: number, headers: HeaderList): void {
+        this.status = status;
+        this.responseHeaders = headers;
+        this.respondedAt = Date.now();
+    }
+
+    /**
+     * Write the entry, with the error that cut it short if any
+     */
+    public finish(error?: unknown): void {
+        if (this.done) return;
+        this.done = true;
+        this.recorder.write(this, this.toEntry(error));
+    }
+
+    protected abstract toEntry(error?: unknown): HarEntry;
+
+    protected entry(error: unknown, request: Partial<HarEntry['request']>, content: HarEntry['response']['content']): HarEntry {
+        const now = Date.now();
+        const queued = this.request.queued ?? 0;
+        const wait = (this.respondedAt ?? now) - this.arrivedAt;
+        const receive = this.respondedAt ? now - this.respondedAt : 0;
+        return {
+            startedDateTime: new Date(this.arrivedAt - queued).toISOString(),
+            time: queued + wait + receive,
+            request: {
+                method: this.request.method,
+                url: this.request.url,
+                httpVersion: 'HTTP/1.1',
+                cookies: [],
+                headers: harHeaders(this.request.headers),
+                queryString: [...new URL(this.request.url).searchParams].map(([name, value]) => ({ name, value })),
+                headersSize: -1,
+                bodySize: 0,
+                ...request
+            },
+            response: {
+                status: this.status,
+                statusText: STATUS_CODES[this.status] ?? '',
+                httpVersion: 'HTTP/1.1',
+                cookies: [],
+                headers: harHeaders(this.responseHeaders),
+                content,
+                redirectURL: headerValue(this.responseHeaders, 'location'),
+                headersSize: -1,
+                bodySize: content.size
+            },
+            cache: {},
+            timings: { blocked: this.request.queued ?? -1, dns: -1, connect: -1, ssl: -1, send: 0, wait, receive },
+            _error: error === undefined ? undefined : error instanceof Error ? error.message : String(error)
+        };
+    }
+}
+
+/**
+ * Recording of an HTTP request through the tunnel
+ */
+export class HarExchange extends HarRecording {
+    private readonly requestBody: BodyCapture | null;
+    private readonly responseBody = new BodyCapture();
+
+    constructor(recorder: HarRecorder, request: { method: string; url: string; headers: HeaderList; hasBody: boolean; queued?: number }) {
+        super(recorder, request);
+        this.requestBody = request.hasBody ? new BodyCapture() : null;
+    }
+
+    /**
+     * Pass the request body through, recording what goes by
+     */
+    public captureRequestBody(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+        return tapStream(body, (chunk) => this.requestBody?.add(chunk));
+    }
+
+    public responseChunk(chunk: Uint8Array): void {
+        this.responseBody.add(chunk);
+    }
+
+    protected toEntry(error?: unknown): HarEntry {
+        const content = { size: this.responseBody.size, mimeType: headerValue(this.responseHeaders, 'content-type'), ...harBody(this.responseBody) };
+        if (!this.requestBody) {
+            return this.entry(error, {}, content);
+        }
+        // HAR has no encoding for request bodies, so a base64 one says so in its comment
+        const { text, encoding, comment } = harBody(this.requestBody);
+        const notes = [encoding === 'base64' ? 'Base64 encoded' : undefined, comment].filter(Boolean).join('. ');
+        return this.entry(error, {
+            postData: { mimeType: headerValue(this.request.headers, 'content-type'), text, comment: notes || undefined },
+            bodySize: this.requestBody.size
+        }, content);
+    }
+}
+
+/**
+ * Recording of a WebSocket through the tunnel and the messages it carried
+ */
+export class HarWebSocket extends HarRecording {
+    private messages: HarWebSocketMessage[] = [];
+    private recordedBytes = 0;
+    private dropped = 0;  // Messages past the limits
+
+    constructor(recorder: HarRecorder, request: { url: string; headers: HeaderList }) {
+        super(recorder, { method: 'GET', ...request });
+    }
+
+    /**
+     * @param type 'send' for a message from the visitor, 'receive' for one from the local server
+     */
+    public message(type: HarWebSocketMessage['type'], data: Uint8Array, binary: boolean): void {
+        const kept = Buffer.from(data.subarray(0, MAX_CAPTURED_BODY));
+        if (this.dropped > 0 || this.messages.length >= MAX_WEBSOCKET_MESSAGES || this.recordedBytes + kept.length > MAX_WEBSOCKET_BYTES) {
+            this.dropped++;
+            return;
+        }
+        this.recordedBytes += kept.length;
+        this.messages.push({
+            type,
+            time: Date.now() / 1000,
+            opcode: binary ? 2 : 1,
+            data: kept.toString(binary ? 'base64' : 'utf8')
+        });
+    }
+
+    protected toEntry(error?: unknown): HarEntry {
+        // The handshake is the response, the socket's lifetime is in the messages
+        const entry = this.entry(error, {}, { size: 0, mimeType: '' });
+        entry.timings.receive = 0;
+        entry.time = entry.timings.wait;
+        const comment = this.dropped > 0
+            ? `Only the first ${this.messages.length} of ${this.messages.length + this.dropped} messages were recorded`
+            : undefined;
+        return { ...entry, comment, _resourceType: 'websocket', _webSocketMessages: this.messages };
+    }
+}
+
+/**
+ * Writes a HAR file entry by entry as requests and WebSockets end. The file
+ * is rewritten synchronously after each one, so it holds a complete HAR at
+ * every point and nothing is left buffered if the process exits.
+ */
+export class HarRecorder {
+    private fd: number | null;
+    private end: number;  // Offset of HAR_END, where the next entry goes
+    private entries = 0;
+    private unfinished: Set<HarRecording> = new Set();
+
+    constructor(public readonly path: string) {
+        this.fd = openSync(path, 'w');
+        const head = `{"log":{"version":"1.2","creator":${JSON.stringify(harCreator())},"pages":[],"entries":[`;
+        writeSync(this.fd, head + HAR_END, 0);
+        this.end = Buffer.byteLength(head);
+    }
+
+    /**
+     * Start recording an HTTP request
+     * @param request.url Tunnel URL the visitor requested
+     * @param request.queued Milliseconds the tunnel server held the request
+     */
+    public exchange(request: { method: string; url: string; headers: HeaderList; hasBody: boolean; queued?: number }): HarExchange {
+        const exchange = new HarExchange(this, request);
+        this.unfinished.add(exchange);
+        return exchange;
+    }
+
+    /**
+     * Start recording a WebSocket
+     */
+    public webSocket(request: { url: string; headers: HeaderList }): HarWebSocket {
+        const socket = new HarWebSocket(this, request);
+        this.unfinished.add(socket);
+        return socket;
+    }
+
+    public write(recording: HarRecording, entry: HarEntry): void {
+        this.unfinished.delete(recording);
+        if (this.fd === null) return;
+        const text = `${this.entries > 0 ? ',' : ''}\n${JSON.stringify(entry)}`;
+        writeSync(this.fd, text + HAR_END, this.end);
+        this.end += Buffer.byteLength(text);
+        this.entries++;
+    }
+
+    /**
+     * Write whatever is still in progress, marked unfinished, and close the file
+     */
+    public close(): void {
+        if (this.fd === null) return;
+        for (const recording of this.unfinished) {
+            recording.finish('Still in progress when the recording stopped');
+        }
+        closeSync(this.fd);
+        this.fd = null;
+    }
+}
@@ -1,6 +1,65 @@
-import type { TunnelRequest, TunnelResponse, ConnectedMessage } from './types';
+import type { TunnelRequest, TunnelResponse, ConnectedMessage, ControlErrorBody, ExpiringMessage, TunnelCloseReason, TunnelExpiryReason } from './types';
 import logger from './logger';
+import { TunnelError } from './errors';
+import { pinnedConnection } from './tls';
+import { Multiplexer, ReceiveWindow, SendWindow } from './mux';
+import { TcpPipe } from './tcp';
+import { Inspector } from './inspector';
+import type { Capture } from './inspector';
+import { HarRecorder } from './har';
+import type { HarWebSocket } from './har';
+import { localUrlFor, rewriteRequestHeaders, rewriteResponseHeaders } from './rewrite';
+import type { HostHeaderMode } from './rewrite';
+import { ControlCloseCode, FrameType, STREAM_WINDOW, WEBSOCKET_HANDSHAKE_HEADERS, decodeFrame, decodeJsonPayload, decodeTextPayload, decodeWindowUpdate, encodeFrame, encodeJsonFrame, encodeWindowUpdate, isSendableCloseCode, stripHopByHopHeaders } from './protocol';
+import type { Frame, HeaderList, TcpOpen, WebSocketClose, WebSocketOpen, WebSocketOpened } from './protocol';
+import http from 'node:http';
+import https from 'node:https';
+import net from 'node:net';
+import { once } from 'node:events';
+import type { IncomingMessage } from 'node:http';
 import WebSocket from 'ws';
+import type { ClientOptions } from 'ws';
+
+/**
+ * Another local server reachable through the same tunnel, either on a subdomain
+ * of its own or under a path of the main tunnel URL
+ */
+export interface LocalTarget {
+    url: string;  // Local server URL
+    name?: string;  // Served at `<name>-<subdomain>`, e.g. `api-abc123.example.com`
+    pathPrefix?: string;  // Serves requests under this path of the main tunnel URL, e.g. `/api`
+}
+
+/**
+ * A port on the tunnel server whose connections are relayed to a local TCP
+ * service, e.g. a database
+ */
+export interface TcpForward {
+    name: string;  // Identifies the forward, e.g. `postgres`
+    host: string;  // Local host to connect to
+    port: number;  // Local port to connect to
+    remotePort?: number;  // Port to ask the server for, any free one it offers by default
+}
+
+/**
+ * Request timeout for paths matching a pattern, enforced by the tunnel server
+ */
+export interface RouteTimeout {
+    path: string;  // Path pattern, where `*` matches anything, e.g. `/reports/*`
+    timeout: number;  // Time in ms to wait for the local server to start responding
+}
+
+/**
+ * Who may use the tunnel, enforced by the tunnel server before requests
+ * reach the client. Visitors have to come from an allowed address, if any
+ * are listed, and present the basic auth credentials or the bearer token, if
+ * either is set.
+ */
+export interface VisitorAccess {
+    allow?: string[];  // IP addresses and CIDR ranges, e.g. `203.0.113.7` or `10.0.0.0/8`
+    basicAuth?: { username: string; password: string };
+    token?: string;  // Sent by visitors as `Authorization: Bearer <token>`
+}
 
 export interface TunnelClientOptions {
     /**
@@ -8,39 +67,279 @@ export interface TunnelClientOptions {
      */
     localServerUrl: string;
 
+    /**
+     * Additional local servers, each with either a name or a path prefix.
+     * Requests are forwarded with their path unchanged, prefix included.
+     */
+    targets?: LocalTarget[];
+
+    /**
+     * Raw TCP services to expose on ports of the tunnel server. The server
+     * has to allow TCP forwarding, or connect() fails with a TunnelError.
+     */
+    tcp?: TcpForward[];
+
     /**
      * The URL of the tunnel server (remote)
      */
     tunnelServerUrl: string;
 
     /**
-     * Called when the tunnel is closed
+     * Token presented to the tunnel server, either one of its shared secrets
+     * or a token signed with its auth secret
+     */
+    authToken?: string;
+
+    /**
+     * CA certificates (PEM) to verify a wss:// tunnel server against, instead
+     * of the system's trusted CAs, e.g. a self-signed server certificate
+     */
+    ca?: string | Buffer | (string | Buffer)[];
+
+    /**
+     * SHA-256 fingerprint of the tunnel server's certificate, as printed by
+     * `openssl x509 -noout -fingerprint -sha256`. When set, that certificate is
+     * trusted on its own and no other, without validating its chain or hostname.
+     */
+    fingerprint?: string;
+
+    /**
+     * Subdomain to ask the tunnel server for, so the tunnel URL stays the same
+     * across runs. connect() fails with a TunnelError if it's invalid or taken.
+     * Default: a random subdomain picked by the server
+     */
+    subdomain?: string;
+
+    /**
+     * Host header sent to the local server: 'rewrite' to the local server's own
+     * host, 'preserve' to keep the tunnel host the visitor used, or a fixed value.
+     * Origin and Referer headers pointing at the tunnel are rewritten to match.
+     * Default: 'rewrite'
+     */
+    hostHeader?: HostHeaderMode;
+
+    /**
+     * Rewrite redirects and cookie domains that point at the local server back
+     * to the tunnel URL
+     * Default: false
+     */
+    rewriteRedirects?: boolean;
+
+    /**
+     * Called when the tunnel is closed, with the reason it was closed for
      * This is kept as a callback since it's an event that happens after setup
      */
-    onClosed?: () => void;
+    onClosed?: (reason: TunnelCloseReason) => void;
+
+    /**
+     * Called when the tunnel server is about to close the tunnel for being
+     * idle or reaching its maximum lifetime. Traffic through the tunnel
+     * postpones an idle timeout.
+     */
+    onExpiring?: (reason: TunnelExpiryReason, expiresAt: Date) => void;
     
     /**
      * Timeout in milliseconds for local server availability check
      * Default: 5000 (5 seconds)
      */
     serverCheckTimeout?: number;
+
+    /**
+     * Time in milliseconds to wait for the local server to start responding
+     * before aborting the request and answering 504, 0 to wait indefinitely.
+     * Requests the tunnel server gives up on are aborted regardless.
+     * Default: 30000 (30 seconds)
+     */
+    requestTimeout?: number;
+
+    /**
+     * Request timeouts for particular paths, sent to the tunnel server when
+     * connecting. The first pattern matching a request's path wins. The server
+     * enforces them, lowered to its maximum, and requestTimeout doesn't apply.
+     */
+    timeouts?: RouteTimeout[];
+
+    /**
+     * Restrict who may use the tunnel. The IP allowlist also applies to TCP
+     * forwards. connect() fails if the tunnel server can't enforce it, rather
+     * than leave the tunnel open to everyone.
+     * Default: anyone who has the tunnel URL
+     */
+    access?: VisitorAccess;
+
+    /**
+     * Port to serve the request inspector on, a web UI and JSON API on
+     * 127.0.0.1 showing recent requests through the tunnel and replaying them
+     * against the local server. It runs from connect() until disconnect().
+     * Default: off
+     */
+    inspectorPort?: number;
+
+    /**
+     * Requests the inspector keeps, the oldest are dropped first
+     * Default: 100
+     */
+    inspectorHistory?: number;
+
+    /**
+     * Path of a HAR file to record every request and WebSocket through the
+     * tunnel to, with the first 128KB of each body. Timings break down into
+     * the wait on the tunnel server (`blocked`), on the local server (`wait`)
+     * and sending the response back (`receive`). Entries are written as they
+     * end, and anything still in progress when disconnect() is called too.
+     * Default: off
+     */
+    har?: string;
+
+    /**
+     * Reconnect automatically when the connection to the tunnel server drops,
+     * reclaiming the same subdomain if the server still holds it
+     * Default: true
+     */
+    reconnect?: boolean;
+
+    /**
+     * Initial delay in milliseconds before reconnecting, doubled on every failed attempt
+     * Default: 500
+     */
+    reconnectDelay?: number;
+
+    /**
+     * Upper bound in milliseconds for the delay between reconnection attempts
+     * Default: 30000 (30 seconds)
+     */
+    maxReconnectDelay?: number;
+
+    /**
+     * Number of consecutive failed attempts before giving up and calling onClosed
+     * Default: Infinity
+     */
+    maxReconnectAttempts?: number;
+
+    /**
+     * Interval in milliseconds between pings to the tunnel server, 0 disables them
+     * Default: 15000 (15 seconds)
+     */
+    heartbeatInterval?: number;
+
+    /**
+     * Unanswered pings before the connection is considered dead and dropped,
+     * which triggers a reconnection
+     * Default: 3
+     */
+    heartbeatMisses?: number;
+
+    /**
+     * Called with the round trip time in milliseconds whenever the tunnel server answers a ping
+     */
+    onHeartbeat?: (latency: number) => void;
+
+    /**
+     * Called before each reconnection attempt
+     */
+    onReconnecting?: (attempt: number, delay: number) => void;
+
+    /**
+     * Called when the tunnel is back up after a reconnection
+     * The subdomain only differs from the original one if the server no longer held it
+     */
+    onReconnected?: (info: ConnectionInfo) => void;
 }
 
 const DEFAULT_OPTIONS = {
-    serverCheckTimeout: 5000
+    serverCheckTimeout: 5000,
+    requestTimeout: 30000,
+    hostHeader: 'rewrite',
+    rewriteRedirects: false,
+    reconnect: true,
+    reconnectDelay: 500,
+    maxReconnectDelay: 30000,
+    maxReconnectAttempts: Infinity,
+    heartbeatInterval: 15000,
+    heartbeatMisses: 3,
+    inspectorHistory: 100
 };
 
+// Reasons behind the codes the server closes the control connection with on purpose
+const CLOSE_REASONS: Record<number, TunnelCloseReason> = {
+    [ControlCloseCode.ServerShutdown]: 'server_shutdown',
+    [ControlCloseCode.IdleTimeout]: 'idle_timeout',
+    [ControlCloseCode.Expired]: 'expired',
+    [ControlCloseCode.Closed]: 'closed_by_server'
+};
+
+/**
+ * Repeated headers become arrays, which Node sends as separate lines
+ */
+function headerListToObject(headers: HeaderList): Record<string, string | string[]> {
+    const object: Record<string, string | string[]> = {};
+    for (const [name, value] of headers) {
+        const existing = object[name];
+        object[name] = existing === undefined ? value : [...[existing].flat(), value];
+    }
+    return object;
+}
+
+/**
+ * Matcher for a path pattern, where `*` matches anything
+ */
+function pathPattern(pattern: string): RegExp {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`);
+}
+
+/**
+ * Pair up Node's flat `[name, value, name, value, ...]` header array
+ */
+function rawHeadersToList(rawHeaders: string[]): HeaderList {
+    const list: HeaderList = [];
+    for (let i = 0; i < rawHeaders.length; i += 2) {
+        list.push([rawHeaders[i].toLowerCase(), rawHeaders[i + 1]]);
+    }
+    return list;
+}
+
+/**
+ * Public URL of a path through the tunnel, under any path prefix of the tunnel URL
+ */
+function tunnelRequestUrl(tunnelUrl: URL, path: string): string {
+    return `${tunnelUrl.href.replace(/\/$/, '')}${path}`;
+}
+
 export interface ConnectionInfo {
     subdomain: string;
     tunnelUrl: string;
+    targets: Record<string, string>;  // Public URL of each named target
+    tcp: Record<string, string>;  // Public `host:port` of each TCP forward
+    expiresAt?: Date;  // When the server closes the tunnel regardless of traffic
 }
 
 export class TunnelClient {
     private ws: WebSocket | null = null;
+    private mux: Multiplexer | null = null;  // Everything bound for the server goes through here
     private localServerUrl: string;
+    private namedTargets: Map<string, string>;  // Name to local server URL
+    private pathTargets: { pathPrefix: string; url: string }[];  // Longest prefix first
     private tunnelServerUrl: string;
     private serverCheckTimeout: number;
     private options: TunnelClientOptions;
+    private requestBodies: Map<string, ReceiveWindow> = new Map();
+    private responseBodies: Map<string, SendWindow> = new Map();  // Response bodies still being sent
+    private localRequests: Map<string, AbortController> = new Map();  // In flight to a local server, keyed by request ID
+    private localSockets: Map<string, WebSocket> = new Map();
+    private tcpForwards: Map<string, TcpForward>;
+    private tcpStreams: Map<string, TcpPipe> = new Map();
+    private routeTimeouts: RegExp[];  // Matchers for the paths the server times out
+    private inspector: Inspector | null = null;
+    private inspectorUrl: string | null = null;
+    private har: HarRecorder | null = null;
+    private harSockets: Map<string, HarWebSocket> = new Map();  // Recordings of open WebSockets, by connection ID
+    private session: { subdomain: string; resumeToken: string; tunnelUrl: URL } | null = null;
+    private closing = false;
+    private reconnectAttempts = 0;
+    private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    private latency: number | null = null;
+    private closeReason: TunnelCloseReason = 'connection_lost';  // Reported if reconnecting gives up
 
     constructor(options: TunnelClientOptions) {
         this.options = {
@@ -48,31 +347,87 @@ export class TunnelClient {
             ...options
         };
         this.localServerUrl = this.options.localServerUrl;
+        this.namedTargets = new Map();
+        this.pathTargets = [];
+        for (const target of this.options.targets ?? []) {
+            if (Boolean(target.name) === Boolean(target.pathPrefix)) {
+                throw new Error(`Local target ${target.url} needs either a name or a path prefix`);
+            }
+            if (target.name) {
+                const name = target.name.toLowerCase();
+                if (this.namedTargets.has(name)) {
+                    throw new Error(`Duplicate local target name: ${target.name}`);
+                }
+                this.namedTargets.set(name, target.url);
+            } else {
+                const pathPrefix = `/${target.pathPrefix!.replace(/^\/+|\/+$/g, '')}`;
+                this.pathTargets.push({ pathPrefix, url: target.url });
+            }
+        }
+        this.pathTargets.sort((a, b) => b.pathPrefix.length - a.pathPrefix.length);
+        this.tcpForwards = new Map();
+        for (const forward of this.options.tcp ?? []) {
+            const name = forward.name.toLowerCase();
+            if (this.tcpForwards.has(name)) {
+                throw new Error(`Duplicate TCP forward name: ${forward.name}`);
+            }
+            this.tcpForwards.set(name, forward);
+        }
+        this.routeTimeouts = (this.options.timeouts ?? []).map(({ path, timeout }) => {
+            if (!/^\/[^\s,=]*$/.test(path) || !Number.isInteger(timeout) || timeout <= 0) {
+                throw new Error(`Invalid request timeout for ${path}: ${timeout}`);
+            }
+            return pathPattern(path);
+        });
+        const { allow = [], basicAuth, token } = this.options.access ?? {};
+        for (const entry of allow) {
+            const [address, prefix, ...rest] = entry.split('/');
+            const bits = net.isIP(address) === 4 ? 32 : 128;
+            if (!net.isIP(address) || rest.length > 0 || (prefix !== undefined && (!/^\d+$/.test(prefix) || Number(prefix) > bits))) {
+                throw new Error(`Invalid address or CIDR range to allow visitors from: ${entry}`);
+            }
+        }
+        if (basicAuth && (!basicAuth.username || basicAuth.username.includes(':'))) {
+            throw new Error(`Invalid basic auth username for visitors: '${basicAuth.username}', it can't be empty or hold a ':'`);
+        }
+        if (token !== undefined && !/^[\x21-\x7e]+$/.test(token)) {
+            throw new Error('Invalid visitor token, use printable characters without spaces');
+        }
         this.tunnelServerUrl = this.options.tunnelServerUrl;
         this.serverCheckTimeout = this.options.serverCheckTimeout!;
     }
 
     /**
-     * Check if the local server is available
-     * @throws Error if the server is unavailable
+     * Check if the local server, and any additional targets, are available
+     * @throws Error if a server is unavailable
      */
     public async checkLocalServerAvailability(): Promise<void> {
+        await this.checkServer(this.localServerUrl, true);
+
+        // APIs often have nothing at their root, so any answer will do for targets
+        const targetUrls = [...this.namedTargets.values(), ...this.pathTargets.map(target => target.url)];
+        for (const url of new Set(targetUrls)) {
+            await this.checkServer(url, false);
+        }
+    }
+
+    private async checkServer(url: string, requireOk: boolean): Promise<void> {
         try {
             const controller = new AbortController();
             const timeoutId = setTimeout(() => controller.abort(), this.serverCheckTimeout);
             
-            const response = await fetch(this.localServerUrl, {
+            const response = await fetch(url, {
                 method: 'HEAD',
                 signal: controller.signal
             });
             
             clearTimeout(timeoutId);
             
-            if (!response.ok) {
+            if (requireOk && !response.ok) {
                 throw new Error(`Local server responded with status: ${response.status}`);
             }
         } catch (error) {
-            throw new Error(`Local server at ${this.localServerUrl} is unavailable: ${error instanceof Error ? error.message : String(error)}`);
+            throw new Error(`Local server at ${url} is unavailable: ${error instanceof Error ? error.message : String(error)}`);
         }
     }
 
@@ -88,15 +443,129 @@ export class TunnelClient {
 
         // Check if local server is available before connecting to tunnel
         await this.checkLocalServerAvailability();
-        
+
+        if (this.options.inspectorPort && !this.inspector) {
+            const inspector = new Inspector(this.options.inspectorHistory!, this.requestLocal.bind(this));
+            try {
+                this.inspectorUrl = await inspector.listen(this.options.inspectorPort);
+            } catch (error) {
+                throw new Error(`Request inspector could not listen on port ${this.options.inspectorPort}: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            this.inspector = inspector;
+        }
+        if (this.options.har && !this.har) {
+            try {
+                this.har = new HarRecorder(this.options.har);
+            } catch (error) {
+                throw new Error(`HAR file ${this.options.har} could not be opened: ${error instanceof Error ? error.message : String(error)}`);
+            }
+        }
+
+        this.closing = false;
+        this.session = null;
+        this.reconnectAttempts = 0;
+        this.closeReason = 'connection_lost';
+        try {
+            return await this.openControlSocket();
+        } catch (error) {
+            // Nothing will come through them without a tunnel, and a retried
+            // connect() starts them afresh
+            this.closeCaptures();
+            throw error;
+        }
+    }
+
+    private openControlSocket(): Promise<ConnectionInfo> {
         return new Promise((resolve, reject) => {
-            this.ws = new WebSocket(this.tunnelServerUrl);
+            // Present the previous session's credentials to reclaim the same subdomain
+            const headers: Record<string, string> = {};
+            if (this.options.authToken) {
+                headers['authorization'] = `Bearer ${this.options.authToken}`;
+            }
+            if (this.options.subdomain) {
+                headers['x-bunnel-subdomain'] = this.options.subdomain;
+            }
+            if (this.namedTargets.size > 0) {
+                headers['x-bunnel-targets'] = [...this.namedTargets.keys()].join(',');
+            }
+            if (this.tcpForwards.size > 0) {
+                headers['x-bunnel-tcp'] = [...this.tcpForwards]
+                    .map(([name, forward]) => `${name}=${forward.remotePort ?? 0}`)
+                    .join(',');
+            }
+            if (this.options.timeouts?.length) {
+                headers['x-bunnel-timeouts'] = this.options.timeouts
+                    .map(({ path, timeout }) => `${path}=${timeout}`)
+                    .join(',');
+            }
+            const access = this.options.access;
+            if (access?.allow?.length) {
+                headers['x-bunnel-allow'] = access.allow.join(',');
+            }
+            if (access?.basicAuth) {
+                headers['x-bunnel-basic-auth'] = Buffer.from(`${access.basicAuth.username}:${access.basicAuth.password}`).toString('base64');
+            }
+            if (access?.token) {
+                headers['x-bunnel-visitor-token'] = access.token;
+            }
+            if (this.session) {
+                headers['x-bunnel-resume'] = `${this.session.subdomain}.${this.session.resumeToken}`;
+            }
+
+            const ws = new WebSocket(this.tunnelServerUrl, {
+                headers,
+                ca: this.options.ca,
+                // ws's typings only know the synchronous form of createConnection
+                createConnection: this.options.fingerprint
+                    ? pinnedConnection(this.options.fingerprint) as unknown as ClientOptions['createConnection']
+                    : undefined
+            });
+            this.ws = ws;
+            const mux = new Multiplexer({
+                // Each completed write may have made room for more
+                write: (frame) => ws.send(frame, () => mux.flush()),
+                bufferedAmount: () => ws.bufferedAmount,
+                // A local WebSocket held back below is read from again once its messages are out
+                drained: (streamId) => this.localSockets.get(streamId)?.resume()
+            });
+            this.mux = mux;
+            let refused = false;
+            let opened = false;
+
+            // The server refuses the handshake with an HTTP error explaining why
+            ws.on('unexpected-response', (_req, res) => {
+                refused = true;
+                const chunks: Buffer[] = [];
+                res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                res.on('end', () => {
+                    const status = res.statusCode ?? 0;
+                    try {
+                        const body = JSON.parse(Buffer.concat(chunks).toString()) as ControlErrorBody;
+                        reject(new TunnelError(body.error, body.message, status));
+                    } catch {
+                        reject(new Error(`Unexpected server response: ${status}`));
+                    }
+                    ws.terminate();
+                });
+            });
 
-            this.ws.on('open', () => {
+            ws.on('open', () => {
                 logger.debug("Connected to tunnel server");
+                opened = true;
+                this.startHeartbeat(ws);
             });
 
-            this.ws.on('message', async (rawData) => {
+            ws.on('message', (rawData, isBinary) => {
+                // Request traffic arrives as binary frames
+                if (isBinary) {
+                    try {
+                        this.handleFrame(decodeFrame(rawData as Buffer));
+                    } catch (error) {
+                        logger.warn("Error handling tunnel frame:", error);
+                    }
+                    return;
+                }
+
                 try {
                     const data = JSON.parse(rawData.toString());
 
@@ -105,143 +574,654 @@ export class TunnelClient {
 
                     if (data.type === "connected") {
                         const message = data as ConnectedMessage;
-                        const tunnelPort = new URL(this.tunnelServerUrl).port || "4444";
+
+                        // Servers that predate access control would let everyone in
+                        if (!message.access && (access?.allow?.length || access?.basicAuth || access?.token)) {
+                            refused = true;
+                            ws.close();
+                            reject(new Error('Tunnel server does not support visitor access control, not opening the tunnel to everyone'));
+                            return;
+                        }
+
+                        this.session = {
+                            subdomain: message.subdomain,
+                            resumeToken: message.resumeToken,
+                            tunnelUrl: new URL(message.url)
+                        };
+                        this.reconnectAttempts = 0;
+
+                        // Servers that predate named targets ignore them
+                        const targets = message.targets ?? {};
+                        for (const name of this.namedTargets.keys()) {
+                            if (!targets[name]) {
+                                logger.warn(`Tunnel server did not set up target '${name}'`);
+                            }
+                        }
+                        const tcp = message.tcp ?? {};
+                        for (const name of this.tcpForwards.keys()) {
+                            if (!tcp[name]) {
+                                logger.warn(`Tunnel server did not set up TCP forward '${name}'`);
+                            }
+                        }
+                        for (const { path, timeout } of this.options.timeouts ?? []) {
+                            const enforced = message.timeouts?.[path];
+                            if (enforced === undefined) {
+                                logger.warn(`Tunnel server does not enforce the request timeout for ${path}`);
+                            } else if (enforced < timeout) {
+                                logger.warn(`Tunnel server lowered the request timeout for ${path} to its maximum of ${enforced}ms`);
+                            }
+                        }
                         
                         resolve({
                             subdomain: message.subdomain,
-                            tunnelUrl: `http://${message.subdomain}.localhost:${tunnelPort}`
+                            tunnelUrl: message.url,
+                            targets,
+                            tcp,
+                            expiresAt: message.expiresAt ? new Date(message.expiresAt) : undefined
                         });
-                        return;
+                    } else if (data.type === "expiring") {
+                        const message = data as ExpiringMessage;
+                        this.options.onExpiring?.(message.reason, new Date(message.expiresAt));
                     }
-
-                    const request = data as TunnelRequest;
-
-                    // Log the request being sent to local server
-                    logger.debug(`Forwarding request to local server: ${this.localServerUrl}${request.path}`);
-                    logger.debug(`Request method: ${request.method}`);
-                    logger.debug(`Original request headers:`, request.headers);
-                    
-                    // Create a copy of the headers and replace the Host header with the local server host
-                    // const modifiedHeaders = { ...request.headers };
-                    // modifiedHeaders['host'] = new URL(this.localServerUrl).host; // Replace with localhost:3000
-                    
-                    // logger.debug(`Modified request headers:`, modifiedHeaders);
-                    // logger.debug(`Modified Host header to: ${modifiedHeaders['host']}`);
-                    
-                    // Forward request to local server with modified headers
-                    const localResponse = await fetch(`${this.localServerUrl}${request.path}`, {
-                        method: request.method,
-                        headers: request.headers,
-                        body: request.body
-                    });
-
-                    // Log the response from local server
-                    logger.debug(`Response from local server: Status ${localResponse.status}`);
-                    logger.debug(`Response headers from local server:`);
-                    localResponse.headers.forEach((value, key) => {
-                        logger.debug(`  ${key}: ${value}`);
-                    });
-
-                    // Convert headers to plain object
-                    const headers: Record<string, string> = {};
-                    localResponse.headers.forEach((value, key) => {
-                        headers[key] = value;
-                    });
-
-                    // Handle redirects by rewriting the Location header
-                    // if (localResponse.status >= 300 && localResponse.status < 400 && headers['location']) {
-                    //     try {
-                    //         const location = headers['location'];
-                    //         const tunnelHost = request.headers['host'];
-                            
-                    //         // Determine if we need to rewrite the URL
-                    //         if (location.startsWith('/')) {
-                    //             // Absolute path - rewrite with tunnel host
-                    //             // Preserve protocol (http/https) from the original request
-                    //             const protocol = tunnelHost.includes('localhost') ? 'http' : 'https';
-                    //             headers['location'] = `${protocol}://${tunnelHost}${location}`;
-                    //             logger.debug(`Rewrote redirect URL from ${location} to ${headers['location']}`);
-                    //         } else if (!location.includes('://')) {
-                    //             // Relative path without leading slash - combine with current path
-                    //             const currentPath = request.path.split('?')[0]; // Remove query string
-                    //             const basePath = currentPath.substring(0, currentPath.lastIndexOf('/') + 1);
-                    //             // Preserve protocol (http/https) from the original request
-                    //             const protocol = tunnelHost.includes('localhost') ? 'http' : 'https';
-                    //             headers['location'] = `${protocol}://${tunnelHost}${basePath}${location}`;
-                    //             logger.debug(`Rewrote redirect URL from ${location} to ${headers['location']}`);
-                    //         }
-                    //         // If it's already an absolute URL with protocol, leave it unchanged
-                    //     } catch (error) {
-                    //         logger.warn('Error rewriting redirect URL:', error);
-                    //         // If URL rewriting fails, continue with the original URL
-                    //     }
-                    // }
-
-                    // Get response body
-                    const responseBody = await localResponse.text();
-                    
-                    // Send response back through tunnel
-                    const tunnelResponse: TunnelResponse = {
-                        id: request.id,
-                        status: localResponse.status,
-                        headers,
-                        body: responseBody
-                    };
-
-                    // Log the final response being sent back through tunnel
-                    logger.debug(`Sending response back through tunnel: Status ${tunnelResponse.status}`);
-                    logger.debug(`Response headers being sent back:`);
-                    Object.entries(tunnelResponse.headers).forEach(([key, value]) => {
-                        logger.debug(`  ${key}: ${value}`);
-                    });
-                    logger.debug(`Response body length: ${responseBody.length} characters`);
-                    
-                    this.ws?.send(JSON.stringify(tunnelResponse));
                 } catch (error) {
                     logger.warn("Error handling tunnel message:", error);
 
                     // If we're still in the connection phase, reject the promise
                     if (!this.isConnected()) {
                         reject(error);
-                        return;
-                    }
-
-                    // For established connections, try to handle the error
-                    try {
-                        const reqData = JSON.parse(rawData.toString()) as TunnelRequest;
-                        const errorResponse: TunnelResponse = {
-                            id: reqData.id,
-                            status: 502,
-                            headers: {},
-                            body: "Bad Gateway"
-                        };
-                        this.ws?.send(JSON.stringify(errorResponse));
-                    } catch {
-                        // If we can't even parse the request ID, we can't respond
-                        logger.warn("Failed to send tunnel error response");
                     }
                 }
             });
 
-            this.ws.on('close', () => {
-                logger.debug("Disconnected from tunnel server");
-                this.ws = null;
-                this.options.onClosed?.();
+            ws.on('close', (code) => {
+                logger.debug(`Disconnected from tunnel server: ${code}`);
+                reject(new Error("Connection to tunnel server closed"));
+
+                for (const window of this.requestBodies.values()) {
+                    window.error(new Error('Tunnel connection lost'));
+                }
+                this.requestBodies.clear();
+                for (const window of this.responseBodies.values()) {
+                    window.close();
+                }
+                this.responseBodies.clear();
+                for (const abort of this.localRequests.values()) {
+                    abort.abort('Tunnel connection lost');
+                }
+                this.localRequests.clear();
+                for (const socket of this.localSockets.values()) {
+                    socket.terminate();
+                }
+                this.localSockets.clear();
+                for (const stream of this.tcpStreams.values()) {
+                    stream.abort();
+                }
+                this.tcpStreams.clear();
+                mux.clear();
+                if (this.ws === ws) {
+                    this.ws = null;
+                    this.mux = null;
+                }
+
+                // A reconnection attempt that never got through says nothing new
+                // about why the tunnel went away
+                if (opened) {
+                    this.closeReason = CLOSE_REASONS[code] ?? 'connection_lost';
+                }
+                const reason = this.closing ? 'disconnected' : this.closeReason;
+
+                // Once a tunnel has been established, losing the connection is
+                // treated as a blip unless we were asked to disconnect or the
+                // server ended the tunnel. A restarting server may be back soon.
+                const ended = reason === 'idle_timeout' || reason === 'expired' || reason === 'closed_by_server';
+                if (this.session && !this.closing && !ended && !refused && this.options.reconnect) {
+                    this.scheduleReconnect();
+                    return;
+                }
+
+                // A tunnel that never came up is reported through connect() instead
+                if (this.session) {
+                    this.options.onClosed?.(reason);
+                }
             });
 
-            this.ws.on('error', (error) => {
+            ws.on('error', (error) => {
                 logger.warn("WebSocket error:", error);
                 reject(new Error(`WebSocket connection error: ${error}`));
             });
         });
     }
 
+    /**
+     * Ping the tunnel server periodically, so a half-open connection (laptop
+     * sleep, NAT timeout) is noticed and goes through the reconnect path
+     */
+    private startHeartbeat(ws: WebSocket): void {
+        if (!this.options.heartbeatInterval) return;
+
+        let missed = 0;
+        let sentAt = 0;
+
+        ws.on('pong', () => {
+            missed = 0;
+            this.latency = Date.now() - sentAt;
+            this.options.onHeartbeat?.(this.latency);
+        });
+        // Anything the server sends proves the connection is alive
+        ws.on('message', () => {
+            missed = 0;
+        });
+        ws.on('ping', () => {
+            missed = 0;
+        });
+
+        const timer = setInterval(() => {
+            if (missed >= this.options.heartbeatMisses!) {
+                logger.warn(`Tunnel server missed ${missed} heartbeats, dropping connection`);
+                clearInterval(timer);
+                ws.terminate();
+                return;
+            }
+
+            missed++;
+            sentAt = Date.now();
+            ws.ping();
+        }, this.options.heartbeatInterval);
+
+        ws.on('close', () => clearInterval(timer));
+    }
+
+    private scheduleReconnect(): void {
+        if (this.reconnectAttempts >= this.options.maxReconnectAttempts!) {
+            logger.warn(`Giving up after ${this.reconnectAttempts} reconnection attempts`);
+            this.options.onClosed?.(this.closeReason);
+            return;
+        }
+
+        // Exponential backoff with jitter, so a restarted server isn't hit by every client at once
+        const backoff = Math.min(
+            this.options.reconnectDelay! * 2 ** this.reconnectAttempts,
+            this.options.maxReconnectDelay!
+        );
+        const delay = Math.round(backoff / 2 + Math.random() * backoff / 2);
+        this.reconnectAttempts++;
+
+        logger.debug(`Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`);
+        this.options.onReconnecting?.(this.reconnectAttempts, delay);
+
+        this.reconnectTimer = setTimeout(() => {
+            this.reconnectTimer = null;
+            const previousSubdomain = this.session?.subdomain;
+
+            this.openControlSocket().then((info) => {
+                if (info.subdomain !== previousSubdomain) {
+                    logger.warn(`Tunnel could not be resumed, new subdomain: ${info.subdomain}`);
+                }
+                this.options.onReconnected?.(info);
+            }).catch((error) => {
+                if (error instanceof TunnelError) {
+                    // Refusals are final, the close handler won't try again
+                    logger.warn(`Tunnel server refused reconnection: ${error.message}`);
+                    return;
+                }
+                // The close handler has already scheduled the next attempt
+                logger.debug(`Reconnection attempt failed: ${error instanceof Error ? error.message : String(error)}`);
+            });
+        }, delay);
+    }
+
+    private handleFrame(frame: Frame): void {
+        switch (frame.type) {
+            case FrameType.RequestStart: {
+                const request = decodeJsonPayload<TunnelRequest>(frame.payload);
+
+                // Bytes are reported consumed as they're written to the local server
+                let body: ReadableStream<Uint8Array> | null = null;
+                if (request.hasBody) {
+                    const window = new ReceiveWindow((bytes) => {
+                        this.mux?.send(request.id, encodeWindowUpdate(request.id, bytes));
+                    });
+                    this.requestBodies.set(request.id, window);
+                    body = window.stream;
+                }
+
+                this.forwardRequest(request, body);
+                break;
+            }
+            case FrameType.RequestBody:
+                // Copy out of the socket buffer, it may be reused once we return
+                this.requestBodies.get(frame.id)?.push(frame.payload.slice());
+                break;
+            case FrameType.RequestEnd:
+                this.requestBodies.get(frame.id)?.end();
+                this.requestBodies.delete(frame.id);
+                break;
+            case FrameType.RequestCancel:
+                this.cancelRequest(frame.id, decodeTextPayload(frame.payload));
+                break;
+            case FrameType.WindowUpdate: {
+                const window = this.responseBodies.get(frame.id);
+                if (window) {
+                    window.ack(decodeWindowUpdate(frame.payload));
+                } else {
+                    this.tcpStreams.get(frame.id)?.handleFrame(frame);
+                }
+                break;
+            }
+            case FrameType.WsOpen:
+                this.openLocalSocket(frame.id, decodeJsonPayload<WebSocketOpen>(frame.payload));
+                break;
+            case FrameType.WsText:
+            case FrameType.WsBinary: {
+                const socket = this.localSockets.get(frame.id);
+                if (socket?.readyState === WebSocket.OPEN) {
+                    socket.send(frame.payload, { binary: frame.type === FrameType.WsBinary });
+                    this.harSockets.get(frame.id)?.message('send', frame.payload, frame.type === FrameType.WsBinary);
+                }
+                break;
+            }
+            case FrameType.WsClose:
+                this.closeLocalSocket(frame.id, decodeJsonPayload<WebSocketClose>(frame.payload));
+                break;
+            case FrameType.TcpOpen:
+                this.openLocalTcp(frame.id, decodeJsonPayload<TcpOpen>(frame.payload));
+                break;
+            case FrameType.TcpData:
+            case FrameType.TcpEnd:
+            case FrameType.TcpClose:
+                this.tcpStreams.get(frame.id)?.handleFrame(frame);
+                break;
+            default:
+                logger.warn(`Unknown frame type from tunnel server: ${frame.type}`);
+        }
+    }
+
+    private openLocalSocket(connectionId: string, open: WebSocketOpen): void {
+        const tunnelUrl = this.visitorTunnelUrl(open.tunnelUrl);
+        const harSocket = tunnelUrl
+            ? this.har?.webSocket({ url: tunnelRequestUrl(tunnelUrl, open.path).replace(/^http/, 'ws'), headers: open.headers })
+            : undefined;
+
+        const localServerUrl = this.localServerFor(open.target, open.path);
+        if (!localServerUrl) {
+            const close: WebSocketClose = { code: 1011, reason: `Unknown local target '${open.target}'` };
+            this.mux?.send(connectionId, encodeJsonFrame(FrameType.WsClose, connectionId, close));
+            harSocket?.finish(close.reason);
+            return;
+        }
+        const localUrl = new URL(localServerUrl);
+        localUrl.protocol = localUrl.protocol === 'https:' ? 'wss:' : 'ws:';
+
+        const headers = headerListToObject(this.rewriteRequestHeaders(
+            // Older servers pass the visitor's handshake on
+            stripHopByHopHeaders(open.headers, WEBSOCKET_HANDSHAKE_HEADERS),
+            localServerUrl,
+            open.tunnelUrl
+        ));
+
+        const socketUrl = `${localUrl.origin}${open.path}`;
+        logger.debug(`Opening local WebSocket ${connectionId}: ${socketUrl}`);
+
+        const socket = new WebSocket(socketUrl, open.protocols, { headers });
+        this.localSockets.set(connectionId, socket);
+        if (harSocket) {
+            this.harSockets.set(connectionId, harSocket);
+            socket.on('upgrade', (response) => harSocket.response(101, rawHeadersToList(response.rawHeaders)));
+        }
+
+        socket.on('open', () => {
+            logger.debug(`Local WebSocket ${connectionId} open`);
+            const opened: WebSocketOpened = { protocol: socket.protocol };
+            this.mux?.send(connectionId, encodeJsonFrame(FrameType.WsOpened, connectionId, opened));
+        });
+
+        socket.on('message', (data, isBinary) => {
+            const type = isBinary ? FrameType.WsBinary : FrameType.WsText;
+            this.mux?.send(connectionId, encodeFrame(type, connectionId, data as Buffer));
+            harSocket?.message('receive', data as Buffer, isBinary);
+            // Stop reading while a window's worth waits for the tunnel connection
+            if (this.mux && this.mux.queued(connectionId) >= STREAM_WINDOW) {
+                socket.pause();
+            }
+        });
+
+        socket.on('close', (code, reason) => {
+            logger.debug(`Local WebSocket ${connectionId} closed: ${code}`);
+            harSocket?.finish();
+            this.harSockets.delete(connectionId);
+
+            // Only report closes that the local server initiated
+            if (this.localSockets.get(connectionId) !== socket) return;
+            this.localSockets.delete(connectionId);
+
+            const close: WebSocketClose = { code, reason: reason.toString() };
+            this.mux?.send(connectionId, encodeJsonFrame(FrameType.WsClose, connectionId, close));
+        });
+
+        socket.on('error', (error) => {
+            // A 'close' event always follows, which reports the failure to the server
+            logger.warn(`Local WebSocket ${connectionId} error: ${error.message}`);
+            harSocket?.finish(error);
+        });
+    }
+
+    private openLocalTcp(streamId: string, open: TcpOpen): void {
+        const forward = this.tcpForwards.get(open.forward);
+        if (!forward) {
+            this.mux?.send(streamId, encodeFrame(FrameType.TcpClose, streamId, `Unknown TCP forward '${open.forward}'`));
+            return;
+        }
+
+        logger.debug(`Opening local TCP stream ${streamId} to ${forward.host}:${forward.port} for ${open.remoteAddress}`);
+        const socket = net.connect({ host: forward.host, port: forward.port, allowHalfOpen: true });
+        const stream = new TcpPipe(streamId, socket, (frame) => this.mux?.send(streamId, frame), () => {
+            this.tcpStreams.delete(streamId);
+            logger.debug(`Local TCP stream ${streamId} closed`);
+        });
+        this.tcpStreams.set(streamId, stream);
+
+        socket.on('connect', () => {
+            this.mux?.send(streamId, encodeFrame(FrameType.TcpOpened, streamId));
+        });
+    }
+
+    private closeLocalSocket(connectionId: string, close: WebSocketClose): void {
+        const socket = this.localSockets.get(connectionId);
+        if (!socket) return;
+
+        // Remove first so the close handler doesn't echo the close back to the server
+        this.localSockets.delete(connectionId);
+        if (socket.readyState !== WebSocket.OPEN) {
+            socket.terminate();
+        } else if (isSendableCloseCode(close.code)) {
+            socket.close(close.code, close.reason);
+        } else {
+            socket.close();
+        }
+    }
+
+    private async forwardRequest(request: TunnelRequest, body: ReadableStream<Uint8Array> | null): Promise<void> {
+        let responded = false;
+        let timedOut = false;
+        let capture: Capture | undefined;
+        const tunnelUrl = this.visitorTunnelUrl(request.tunnelUrl);
+        const harEntry = tunnelUrl ? this.har?.exchange({
+            method: request.method,
+            url: tunnelRequestUrl(tunnelUrl, request.path),
+            headers: request.headers,
+            hasBody: body !== null,
+            queued: request.queued
+        }) : undefined;
+
+        // Aborted when the tunnel server cancels the request, or the local server is too slow
+        const abort = new AbortController();
+        this.localRequests.set(request.id, abort);
+        // The server times out paths with timeouts of their own, and cancels the request
+        const pathname = request.path.split('?')[0];
+        const timeout = this.options.requestTimeout && !this.routeTimeouts.some(matcher => matcher.test(pathname))
+            ? setTimeout(() => {
+                timedOut = true;
+                abort.abort(`Local server did not respond within ${this.options.requestTimeout}ms`);
+            }, this.options.requestTimeout)
+            : undefined;
+
+        try {
+            const localServerUrl = this.localServerFor(request.target, request.path);
+            if (!localServerUrl) {
+                throw new Error(`Unknown local target '${request.target}'`);
+            }
+
+            // Log the request being sent to local server
+            logger.debug(`Forwarding request to local server: ${localServerUrl}${request.path}`);
+            logger.debug(`Request method: ${request.method}`);
+            logger.debug(`Original request headers:`, request.headers);
+
+            // The tunnel server has already answered any `expect: 100-continue`
+            const requestHeaders = this.rewriteRequestHeaders(stripHopByHopHeaders(request.headers, ['expect']), localServerUrl, request.tunnelUrl);
+            logger.debug(`Modified request headers:`, requestHeaders);
+
+            capture = this.inspector?.capture({
+                method: request.method,
+                path: request.path,
+                target: request.target,
+                localServerUrl,
+                headers: requestHeaders,
+                hasBody: body !== null
+            });
+            let localBody = capture && body ? capture.captureRequestBody(body) : body;
+            if (harEntry && localBody) {
+                localBody = harEntry.captureRequestBody(localBody);
+            }
+            const localResponse = await this.requestLocal(request.method, `${localServerUrl}${request.path}`, requestHeaders, localBody, abort.signal);
+            clearTimeout(timeout);
+            capture?.response(localResponse.statusCode ?? 502, rawHeadersToList(localResponse.rawHeaders));
+
+            // Log the response from local server
+            logger.debug(`Response from local server: Status ${localResponse.statusCode}`);
+
+            // The body is streamed back in chunks, so the original length no longer frames it
+            let headers = stripHopByHopHeaders(rawHeadersToList(localResponse.rawHeaders), ['content-length']);
+            if (this.options.rewriteRedirects && tunnelUrl) {
+                headers = rewriteResponseHeaders(headers, tunnelUrl, this.localUrls(localServerUrl));
+            }
+
+            // Send response head back through tunnel
+            const tunnelResponse: TunnelResponse = {
+                id: request.id,
+                status: localResponse.statusCode ?? 502,
+                headers
+            };
+
+            // Log the final response being sent back through tunnel
+            logger.debug(`Sending response back through tunnel: Status ${tunnelResponse.status}`);
+            logger.debug(`Response headers being sent back:`);
+            tunnelResponse.headers.forEach(([key, value]) => {
+                logger.debug(`  ${key}: ${value}`);
+            });
+
+            this.mux?.send(request.id, encodeJsonFrame(FrameType.ResponseStart, request.id, tunnelResponse));
+            responded = true;
+            harEntry?.response(tunnelResponse.status, tunnelResponse.headers);
+
+            // Stream the response body back chunk by chunk, exactly as the local
+            // server sent it, compressed or not. The local server isn't read from
+            // while the visitor has a window's worth yet to take.
+            const window = new SendWindow();
+            this.responseBodies.set(request.id, window);
+            let bodyLength = 0;
+            try {
+                for await (const chunk of localResponse as AsyncIterable<Buffer>) {
+                    bodyLength += chunk.length;
+                    capture?.responseChunk(chunk);
+                    harEntry?.responseChunk(chunk);
+                    window.consume(chunk.length);
+                    this.mux?.sendData(FrameType.ResponseBody, request.id, chunk);
+                    await window.wait();
+                    abort.signal.throwIfAborted();
+                    if (window.closed) {
+                        throw new Error('Tunnel connection lost');
+                    }
+                }
+            } finally {
+                this.responseBodies.delete(request.id);
+            }
+            logger.debug(`Response body length: ${bodyLength} bytes`);
+
+            this.mux?.send(request.id, encodeFrame(FrameType.ResponseEnd, request.id));
+            capture?.finish();
+            harEntry?.finish();
+        } catch (error) {
+            capture?.fail(abort.signal.aborted ? abort.signal.reason : error);
+            // Nobody is waiting for the response any more
+            if (abort.signal.aborted && !timedOut) {
+                logger.debug(`Request ${request.id} cancelled: ${abort.signal.reason}`);
+                harEntry?.finish(abort.signal.reason);
+                return;
+            }
+            logger.warn("Error forwarding tunnel request:", timedOut ? abort.signal.reason : error);
+
+            try {
+                if (responded) {
+                    // Headers are already on their way, all we can do is abort the body
+                    const reason = error instanceof Error ? error.message : String(error);
+                    this.mux?.send(request.id, encodeFrame(FrameType.ResponseError, request.id, reason));
+                } else {
+                    const errorResponse: TunnelResponse = {
+                        id: request.id,
+                        status: timedOut ? 504 : 502,
+                        headers: []
+                    };
+                    const errorBody = timedOut ? "Gateway Timeout" : "Bad Gateway";
+                    this.mux?.send(request.id, encodeJsonFrame(FrameType.ResponseStart, request.id, errorResponse));
+                    this.mux?.send(request.id, encodeFrame(FrameType.ResponseBody, request.id, errorBody));
+                    this.mux?.send(request.id, encodeFrame(FrameType.ResponseEnd, request.id));
+                    harEntry?.response(errorResponse.status, errorResponse.headers);
+                    harEntry?.responseChunk(Buffer.from(errorBody));
+                }
+            } catch {
+                logger.warn("Failed to send tunnel error response");
+            }
+            harEntry?.finish(timedOut ? abort.signal.reason : error);
+        } finally {
+            clearTimeout(timeout);
+            this.localRequests.delete(request.id);
+            // The local server is done with the request, whether or not it read the
+            // whole body, so stop the server waiting to send the rest
+            this.requestBodies.get(request.id)?.discard();
+        }
+    }
+
+    /**
+     * Abort a request on the local server, the tunnel server no longer wants the response
+     */
+    private cancelRequest(requestId: string, reason: string): void {
+        logger.debug(`Tunnel server cancelled request ${requestId}: ${reason}`);
+        this.localRequests.get(requestId)?.abort(reason);
+        this.responseBodies.get(requestId)?.close();
+        // The server stops sending the body, so it won't be ended either
+        this.requestBodies.get(requestId)?.discard();
+        this.requestBodies.delete(requestId);
+    }
+
+    /**
+     * Send a request to the local server. Node's http is used rather than fetch,
+     * which neither lets the Host header through nor hands back the body undecoded.
+     * @param signal Aborts the request, whether or not the response has started
+     * @returns the response once its head has arrived
+     */
+    private requestLocal(method: string, url: string, headers: HeaderList, body: ReadableStream<Uint8Array> | null, signal: AbortSignal): Promise<IncomingMessage> {
+        return new Promise((resolve, reject) => {
+            const transport = url.startsWith('https:') ? https : http;
+            const req = transport.request(url, { method, headers: headerListToObject(headers), signal }, resolve);
+            req.on('error', reject);
+            // Bun's http client only closes an aborted request, without an error
+            req.on('close', () => {
+                if (signal.aborted) reject(signal.reason);
+            });
+
+            (async () => {
+                if (body) {
+                    const reader = body.getReader();
+                    while (true) {
+                        const { done, value } = await reader.read();
+                        if (done) break;
+                        if (!req.write(value)) {
+                            await once(req, 'drain');
+                        }
+                    }
+                }
+                req.end();
+            })().catch((error) => req.destroy(error));
+        });
+    }
+
+    /**
+     * Tunnel URL a visitor used, which differs from the one reported on connect
+     * when the server routes more than one way
+     * @param tunnelUrl URL the server sent along with the request, if any
+     */
+    private visitorTunnelUrl(tunnelUrl?: string): URL | null {
+        return tunnelUrl ? new URL(tunnelUrl) : this.session?.tunnelUrl ?? null;
+    }
+
+    /**
+     * Pick the local server a request goes to, by its named target or, on the
+     * main tunnel URL, the longest matching path prefix
+     * @returns null for a named target this client doesn't have
+     */
+    private localServerFor(target: string | undefined, path: string): string | null {
+        if (target !== undefined) {
+            return this.namedTargets.get(target) ?? null;
+        }
+        const pathname = path.replace(/[?#].*$/, '');
+        const match = this.pathTargets.find(({ pathPrefix }) => {
+            return pathname === pathPrefix || pathname.startsWith(`${pathPrefix}/`);
+        });
+        return match?.url ?? this.localServerUrl;
+    }
+
+    /**
+     * Apply the hostHeader option to headers bound for the local server
+     */
+    private rewriteRequestHeaders(headers: HeaderList, localServerUrl: string, tunnelUrl?: string): HeaderList {
+        const local = localUrlFor(this.options.hostHeader!, localServerUrl);
+        const tunnel = this.visitorTunnelUrl(tunnelUrl);
+        if (!local || !tunnel) return headers;
+        return rewriteRequestHeaders(headers, { tunnel, local });
+    }
+
+    /**
+     * URLs the local app may use for itself in redirects and cookies
+     */
+    private localUrls(localServerUrl: string): URL[] {
+        const local = localUrlFor(this.options.hostHeader!, localServerUrl);
+        return local ? [local, new URL(localServerUrl)] : [new URL(localServerUrl)];
+    }
+
     /**
      * Disconnect from the tunnel server
      */
     public disconnect(): void {
+        this.closing = true;
+
+        // Between reconnection attempts there is no socket to close
+        if (this.reconnectTimer) {
+            clearTimeout(this.reconnectTimer);
+            this.reconnectTimer = null;
+            this.options.onClosed?.('disconnected');
+        }
+
         this.ws?.close();
         this.ws = null;
+        this.closeCaptures();
+    }
+
+    /**
+     * Stop the request inspector and finish the HAR file
+     */
+    private closeCaptures(): void {
+        this.inspector?.close();
+        this.inspector = null;
+        this.inspectorUrl = null;
+        this.har?.close();
+        this.har = null;
+        this.harSockets.clear();
+    }
+
+    /**
+     * URL of the request inspector
+     * @returns null unless inspectorPort is set and the client is connected
+     */
+    public getInspectorUrl(): string | null {
+        return this.inspectorUrl;
+    }
+
+    /**
+     * Round trip time in milliseconds of the last answered ping to the tunnel server
+     * @returns null until the first ping has been answered
+     */
+    public getLatency(): number | null {
+        return this.latency;
     }
 
     /**
@@ -253,4 +1233,8 @@ export class TunnelClient {
 }
 
 // Export types
-export type { TunnelRequest, TunnelResponse, ConnectedMessage } from './types';
\ No newline at end of file
+export type { TunnelRequest, TunnelResponse, ConnectedMessage, TunnelCloseReason, TunnelExpiryReason } from './types';
+export type { HostHeaderMode } from './rewrite';
+export type { CapturedBody, CapturedExchange, ReplayEdits } from './inspector';
+export { TunnelError } from './errors';
+export type { TunnelErrorCode } from './errors';
\ No newline at end of file
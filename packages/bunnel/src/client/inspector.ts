@@ -0,0 +1,500 @@
+import http from 'node:http';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { HeaderList } from './protocol';
+
+// Bytes kept of each request and response body, the rest is only counted
+export const MAX_CAPTURED_BODY = 128 * 1024;
+
+// How long a replay may take before it's aborted
+const REPLAY_TIMEOUT = 60000;
+
+// Only answer requests addressed to the loopback interface, so a web page
+// can't reach the inspector through a DNS name rebound to 127.0.0.1
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', 'localhost', '[::1]']);
+
+/**
+ * Sends a request to a local server, as the tunnel client does
+ */
+export type LocalRequester = (method: string, url: string, headers: HeaderList, body: ReadableStream<Uint8Array> | null, signal: AbortSignal) => Promise<IncomingMessage>;
+
+/**
+ * A request or response body as the inspector shows it, text if it decodes
+ * as UTF-8 and base64 otherwise
+ */
+export interface CapturedBody {
+    size: number;  // Bytes seen, including any beyond what was kept
+    truncated: boolean;
+    encoding: 'utf8' | 'base64';
+    data: string;
+}
+
+/**
+ * A request through the tunnel, or a replay of one, and the local server's response
+ */
+export interface CapturedExchange {
+    id: string;
+    replayOf?: string;  // ID of the exchange this one replays
+    state: 'pending' | 'responding' | 'complete' | 'failed';
+    startedAt: string;
+    method: string;
+    path: string;
+    target?: string;  // Named local target, unset for the default one
+    localServerUrl: string;
+    requestHeaders: HeaderList;  // As sent to the local server
+    requestBody: CapturedBody | null;
+    status?: number;
+    responseHeaders?: HeaderList;  // As the local server sent them
+    responseBody?: CapturedBody | null;
+    respondedIn?: number;  // Time in ms until the response head arrived
+    duration?: number;  // Time in ms until the response body ended
+    error?: string;
+}
+
+/**
+ * Changes to a captured request before replaying it, anything left out is
+ * replayed as captured
+ */
+export interface ReplayEdits {
+    method?: string;
+    path?: string;
+    headers?: HeaderList;
+    body?: string;  // UTF-8 text
+    bodyBase64?: string;
+}
+
+/**
+ * Pass a stream through untouched, handing each chunk to onChunk as it's read
+ */
+export function tapStream(body: ReadableStream<Uint8Array>, onChunk: (chunk: Uint8Array) => void): ReadableStream<Uint8Array> {
+    const reader = body.getReader();
+    return new ReadableStream<Uint8Array>({
+        pull: async (controller) => {
+            const { done, value } = await reader.read();
+            if (done) {
+                controller.close();
+                return;
+            }
+            onChunk(value);
+            controller.enqueue(value);
+        },
+        cancel: (reason) => reader.cancel(reason)
+    }, { highWaterMark: 0 });
+}
+
+export class BodyCapture {
+    private chunks: Buffer[] = [];
+    private kept = 0;
+    public size = 0;
+
+    public add(chunk: Uint8Array): void {
+        this.size += chunk.length;
+        if (this.kept < MAX_CAPTURED_BODY) {
+            const part = Buffer.from(chunk.subarray(0, MAX_CAPTURED_BODY - this.kept));
+            this.chunks.push(part);
+            this.kept += part.length;
+        }
+    }
+
+    public get truncated(): boolean {
+        return this.size > this.kept;
+    }
+
+    public bytes(): Buffer {
+        return Buffer.concat(this.chunks);
+    }
+
+    public toJSON(): CapturedBody {
+        const bytes = this.bytes();
+        try {
+            // A truncated body may end partway through a character, which streaming leaves undecoded
+            const text = new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: this.truncated });
+            return { size: this.size, truncated: this.truncated, encoding: 'utf8', data: text };
+        } catch {
+            return { size: this.size, truncated: this.truncated, encoding: 'base64', data: bytes.toString('base64') };
+        }
+    }
+}
+
+/**
+ * Recording of a single exchange, fed by whoever forwards the request
+ */
+export class Capture {
+    private state: CapturedExchange['state'] = 'pending';
+    private readonly startedAt = Date.now();
+    private readonly requestBody: BodyCapture | null;
+    private responseBody?: BodyCapture;
+    private status?: number;
+    private responseHeaders?: HeaderList;
+    private respondedIn?: number;
+    private duration?: number;
+    private error?: string;
+
+    constructor(
+        public readonly id: string,
+        public readonly request: { method: string; path: string; target?: string; localServerUrl: string; headers: HeaderList; hasBody: boolean },
+        private readonly replayOf?: string
+    ) {
+        this.requestBody = request.hasBody ? new BodyCapture() : null;
+    }
+
+    /**
+     * Pass a request body through, keeping a copy of what goes by
+     */
+    public captureRequestBody(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+        return tapStream(body, (chunk) => this.requestBody?.add(chunk));
+    }
+
+    public response(status: number, headers: HeaderList): void {
+        this.state = 'responding';
+        this.status = status;
+        this.responseHeaders = headers;
+        this.respondedIn = Date.now() - this.startedAt;
+        this.responseBody = new BodyCapture();
+    }
+
+    public responseChunk(chunk: Uint8Array): void {
+        this.responseBody?.add(chunk);
+    }
+
+    public finish(): void {
+        this.state = 'complete';
+        this.duration = Date.now() - this.startedAt;
+    }
+
+    public fail(error: unknown): void {
+        if (this.state === 'complete' || this.state === 'failed') return;
+        this.state = 'failed';
+        this.duration = Date.now() - this.startedAt;
+        this.error = error instanceof Error ? error.message : String(error);
+    }
+
+    /**
+     * The captured request body, or null if only part of it was kept
+     */
+    public requestBytes(): Buffer | null {
+        if (this.requestBody?.truncated) return null;
+        return this.requestBody?.bytes() ?? Buffer.alloc(0);
+    }
+
+    public toJSON(): CapturedExchange {
+        return {
+            id: this.id,
+            replayOf: this.replayOf,
+            state: this.state,
+            startedAt: new Date(this.startedAt).toISOString(),
+            method: this.request.method,
+            path: this.request.path,
+            target: this.request.target,
+            localServerUrl: this.request.localServerUrl,
+            requestHeaders: this.request.headers,
+            requestBody: this.requestBody?.toJSON() ?? null,
+            status: this.status,
+            responseHeaders: this.responseHeaders,
+            responseBody: this.responseBody?.toJSON(),
+            respondedIn: this.respondedIn,
+            duration: this.duration,
+            error: this.error
+        };
+    }
+}
+
+class InspectorError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Keeps the most recent requests through the tunnel and serves them on a local
+ * port, as a web UI and a JSON API:
+ * - `GET /api/requests`: captured exchanges, newest first
+ * - `GET /api/requests/<id>`: a single exchange
+ * - `POST /api/requests/<id>/replay`: send the request to the local server
+ *   again, with any ReplayEdits in the JSON body, answering once the response
+ *   head is in
+ * - `DELETE /api/requests`: forget every exchange
+ */
+export class Inspector {
+    private captures: Capture[] = [];  // Oldest first
+    private nextId = 1;
+    private server: http.Server | null = null;
+
+    constructor(private readonly history: number, private readonly requestLocal: LocalRequester) {}
+
+    /**
+     * Start recording an exchange, dropping the oldest one if the history is full
+     */
+    public capture(request: Capture['request'], replayOf?: string): Capture {
+        const capture = new Capture(String(this.nextId++), request, replayOf);
+        this.captures.push(capture);
+        if (this.captures.length > this.history) {
+            this.captures.shift();
+        }
+        return capture;
+    }
+
+    /**
+     * Serve the UI and API on 127.0.0.1
+     * @returns the inspector's URL
+     */
+    public async listen(port: number): Promise<string> {
+        const server = http.createServer((req, res) => {
+            this.handleRequest(req, res).catch((error) => {
+                const status = error instanceof InspectorError ? error.status : 500;
+                this.sendJson(res, status, { error: error instanceof Error ? error.message : String(error) });
+            });
+        });
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(port, '127.0.0.1', () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+        return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    }
+
+    public close(): void {
+        this.server?.close();
+        this.server = null;
+    }
+
+    private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://127.0.0.1');
+        const host = (req.headers.host ?? '').replace(/:\d+$/, '');
+        if (!LOOPBACK_HOSTS.has(host)) {
+            throw new InspectorError(403, 'The inspector only answers requests to 127.0.0.1 or localhost');
+        }
+
+        if (url.pathname === '/' && req.method === 'GET') {
+            res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+            res.end(INSPECTOR_PAGE);
+            return;
+        }
+        if (url.pathname === '/api/requests') {
+            if (req.method === 'GET') {
+                this.sendJson(res, 200, [...this.captures].reverse());
+                return;
+            }
+            if (req.method === 'DELETE') {
+                this.captures = [];
+                res.writeHead(204).end();
+                return;
+            }
+        }
+
+        const match = /^\/api\/requests\/([^/]+)(\/replay)?$/.exec(url.pathname);
+        const capture = match ? this.captures.find(({ id }) => id === match[1]) : undefined;
+        if (match && !capture) {
+            throw new InspectorError(404, `No captured request ${match[1]}, it may have been dropped from the history`);
+        }
+        if (capture && !match![2] && req.method === 'GET') {
+            this.sendJson(res, 200, capture);
+            return;
+        }
+        if (capture && match![2] && req.method === 'POST') {
+            // Pages elsewhere can't send JSON here without a preflight, which goes unanswered
+            if (!req.headers['content-type']?.startsWith('application/json')) {
+                throw new InspectorError(415, 'Replays take a JSON body, {} to replay the request as captured');
+            }
+            const edits = await this.readJson(req) as ReplayEdits;
+            this.sendJson(res, 201, await this.replay(capture, edits));
+            return;
+        }
+
+        throw new InspectorError(404, `Nothing at ${req.method} ${url.pathname}`);
+    }
+
+    /**
+     * Send a captured request to its local server again, recorded as a new exchange
+     */
+    private async replay(original: Capture, edits: ReplayEdits): Promise<Capture> {
+        let body: Buffer | null;
+        if (edits.bodyBase64 !== undefined) {
+            body = Buffer.from(edits.bodyBase64, 'base64');
+        } else if (edits.body !== undefined) {
+            body = Buffer.from(edits.body);
+        } else {
+            body = original.requestBytes();
+            if (!body) {
+                throw new InspectorError(422, 'Only part of the request body was captured, replay it with an edited body');
+            }
+        }
+
+        let headers = edits.headers ?? original.request.headers;
+        if (edits.body !== undefined || edits.bodyBase64 !== undefined) {
+            // The body is sent in one piece, framed by its new length
+            headers = headers.filter(([name]) => !['content-length', 'transfer-encoding'].includes(name.toLowerCase()));
+            headers = [...headers, ['content-length', String(body.length)]];
+        }
+
+        const path = edits.path ?? original.request.path;
+        if (!path.startsWith('/')) {
+            throw new InspectorError(400, `Invalid path '${path}', expected it to start with /`);
+        }
+        const request = {
+            method: (edits.method ?? original.request.method).toUpperCase(),
+            path,
+            target: original.request.target,
+            localServerUrl: original.request.localServerUrl,
+            headers,
+            hasBody: body.length > 0 || original.request.hasBody
+        };
+        const capture = this.capture(request, original.id);
+        const stream = request.hasBody ? capture.captureRequestBody(new Blob([body]).stream()) : null;
+
+        let response: IncomingMessage;
+        try {
+            response = await this.requestLocal(request.method, `${request.localServerUrl}${path}`, headers, stream, AbortSignal.timeout(REPLAY_TIMEOUT));
+        } catch (error) {
+            capture.fail(error);
+            return capture;
+        }
+        const responseHeaders: HeaderList = [];
+        for (let i = 0; i < response.rawHeaders.length; i += 2) {
+            responseHeaders.push([response.rawHeaders[i].toLowerCase(), response.rawHeaders[i + 1]]);
+        }
+        capture.response(response.statusCode ?? 502, responseHeaders);
+
+        // Nobody reads the replayed response but the inspector, so there's no
+        // need to wait for the rest of it
+        (async () => {
+            for await (const chunk of response as AsyncIterable<Buffer>) {
+                capture.responseChunk(chunk);
+            }
+            capture.finish();
+        })().catch((error) => capture.fail(error));
+        return capture;
+    }
+
+    private async readJson(req: IncomingMessage): Promise<unknown> {
+        const chunks: Buffer[] = [];
+        for await (const chunk of req as AsyncIterable<Buffer>) {
+            chunks.push(chunk);
+        }
+        const text = Buffer.concat(chunks).toString();
+        try {
+            const value: unknown = JSON.parse(text || '{}');
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                throw new Error('expected an object');
+            }
+            return value;
+        } catch (error) {
+            throw new InspectorError(400, `Invalid JSON body: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    private sendJson(res: ServerResponse, status: number, body: unknown): void {
+        if (res.headersSent) {
+            res.destroy();
+            return;
+        }
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(body, null, 2));
+    }
+}
+
+const INSPECTOR_PAGE = `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>bunnel inspector</title>
+<style>
+  body { font: 13px system-ui, sans-serif; margin: 0; display: flex; height: 100vh; }
+  #list { width: 40%; overflow: auto; border-right: 1px solid #ddd; }
+  #detail { flex: 1; overflow: auto; padding: 12px; }
+  header { display: flex; justify-content: space-between; align-items: center; padding: 8px 12px; border-bottom: 1px solid #ddd; }
+  .row { display: flex; gap: 8px; padding: 6px 12px; cursor: pointer; border-bottom: 1px solid #f0f0f0; }
+  .row:hover, .row.selected { background: #f3f6ff; }
+  .method { width: 56px; font-weight: 600; }
+  .path { flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; font-family: monospace; }
+  .status.err { color: #c00; }
+  pre { background: #f7f7f7; padding: 8px; white-space: pre-wrap; word-break: break-all; }
+  textarea { width: 100%; height: 240px; font-family: monospace; }
+  h3 { margin: 16px 0 4px; }
+  .muted { color: #888; }
+</style>
+</head>
+<body>
+<div id="list"><header><strong>Requests</strong><button id="clear">Clear</button></header><div id="rows"></div></div>
+<div id="detail"><p class="muted">Select a request</p></div>
+<script>
+let selected = null;
+let shownState = null;
+const $ = (id) => document.getElementById(id);
+const esc = (s) => String(s).replace(/[&<>"]/g, (c) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[c]);
+const headers = (list) => (list || []).map(([n, v]) => n + ': ' + v).join('\\n');
+const body = (b) => !b ? '<p class="muted">No body</p>'
+  : '<pre>' + esc(b.data) + '</pre><p class="muted">' + b.size + ' bytes' + (b.encoding === 'base64' ? ', base64' : '') + (b.truncated ? ', truncated' : '') + '</p>';
+
+async function api(path, options) {
+  const res = await fetch(path, options);
+  const data = res.status === 204 ? null : await res.json();
+  if (!res.ok) throw new Error(data.error);
+  return data;
+}
+
+async function refresh() {
+  const exchanges = await api('/api/requests');
+  $('rows').innerHTML = exchanges.map((e) => '<div class="row' + (e.id === selected ? ' selected' : '') + '" data-id="' + e.id + '">'
+    + '<span class="method">' + esc(e.method) + '</span><span class="path">' + esc(e.path) + '</span>'
+    + '<span class="status' + (e.state === 'failed' || e.status >= 500 ? ' err' : '') + '">' + (e.status ?? e.state) + '</span>'
+    + '<span class="muted">' + (e.duration ?? '…') + ' ms</span></div>').join('');
+  // Only redraw the selected request while it's still changing, so an open editor isn't disturbed
+  const current = exchanges.find((e) => e.id === selected);
+  if (current && current.state !== shownState) show(selected, false);
+}
+
+async function show(id, resetEditor = true) {
+  selected = id;
+  let e;
+  try { e = await api('/api/requests/' + id); } catch (err) { $('detail').innerHTML = '<p class="muted">' + esc(err.message) + '</p>'; return; }
+  shownState = e.state;
+  const editor = $('editor');
+  const editing = !resetEditor && editor ? editor.value : null;
+  $('detail').innerHTML = '<h2>' + esc(e.method + ' ' + e.path) + '</h2>'
+    + '<p class="muted">' + esc(e.localServerUrl) + (e.replayOf ? ' · replay of #' + esc(e.replayOf) : '') + ' · ' + esc(e.startedAt)
+    + ' · ' + e.state + (e.respondedIn !== undefined ? ' · head in ' + e.respondedIn + ' ms' : '') + (e.duration !== undefined ? ' · done in ' + e.duration + ' ms' : '') + '</p>'
+    + (e.error ? '<p class="status err">' + esc(e.error) + '</p>' : '')
+    + '<button id="replay">Replay</button> <button id="edit">Edit and replay</button><div id="edit-box"></div>'
+    + '<h3>Request headers</h3><pre>' + esc(headers(e.requestHeaders)) + '</pre><h3>Request body</h3>' + body(e.requestBody)
+    + '<h3>Response ' + (e.status ?? '') + '</h3><pre>' + esc(headers(e.responseHeaders)) + '</pre><h3>Response body</h3>' + body(e.responseBody);
+  $('replay').onclick = () => replay(id, {});
+  $('edit').onclick = () => openEditor(e);
+  if (editing !== null) openEditor(e, editing);
+  document.querySelectorAll('.row').forEach((row) => row.classList.toggle('selected', row.dataset.id === id));
+}
+
+function openEditor(e, text) {
+  const draft = { method: e.method, path: e.path, headers: e.requestHeaders };
+  if (e.requestBody && e.requestBody.encoding === 'utf8' && !e.requestBody.truncated) draft.body = e.requestBody.data;
+  $('edit-box').innerHTML = '<h3>Edit request</h3><textarea id="editor"></textarea><button id="send">Send</button>';
+  $('editor').value = text ?? JSON.stringify(draft, null, 2);
+  $('send').onclick = () => {
+    let edits;
+    try { edits = JSON.parse($('editor').value); } catch (err) { alert('Invalid JSON: ' + err.message); return; }
+    replay(e.id, edits);
+  };
+}
+
+async function replay(id, edits) {
+  try {
+    const e = await api('/api/requests/' + id + '/replay', { method: 'POST', headers: { 'content-type': 'application/json' }, body: JSON.stringify(edits) });
+    selected = e.id;
+    await refresh();
+    show(e.id);
+  } catch (err) {
+    alert(err.message);
+  }
+}
+
+$('rows').onclick = (event) => { const row = event.target.closest('.row'); if (row) show(row.dataset.id); };
+$('clear').onclick = async () => { await api('/api/requests', { method: 'DELETE' }); selected = null; $('detail').innerHTML = '<p class="muted">Select a request</p>'; refresh(); };
+refresh();
+setInterval(refresh, 2000);
+</script>
+</body>
+</html>
+`;
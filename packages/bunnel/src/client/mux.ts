@@ -0,0 +1,259 @@
+/**
+ * Flow control for the streams sharing a control connection.
+ *
+ * Each HTTP body and TCP connection is a stream with a window: the sender may
+ * have at most STREAM_WINDOW bytes in flight before the receiver reports them
+ * consumed with a WindowUpdate frame. The receiver only does so once the bytes
+ * have been handed on (to the visitor, the local server, or a socket), so a
+ * slow reader holds back its own stream rather than filling memory.
+ * WebSocket messages have no window, their source is held back by how much
+ * of the stream is still queued here instead.
+ *
+ * Frames from different streams are interleaved round-robin and held back
+ * while the control connection has more than CONNECTION_HIGH_WATER bytes
+ * buffered, so one large download can't starve the other streams.
+ */
+import { FrameType, STREAM_WINDOW, encodeFrame } from './protocol';
+
+// Bytes the control connection may have buffered before frames are held back
+const CONNECTION_HIGH_WATER = 256 * 1024;
+
+// Largest body chunk sent in one frame, so streams take turns at a fine grain
+const MAX_CHUNK = 64 * 1024;
+
+export interface MuxTransport {
+    write(frame: Uint8Array): void;
+    bufferedAmount(): number;  // Bytes written but not yet sent on the connection
+    drained?(streamId: string): void;  // A stream's queued frames have all been written
+}
+
+/**
+ * Queues frames per stream and writes them to the control connection in turn,
+ * as fast as it drains. `flush()` must be called whenever the connection does.
+ */
+export class Multiplexer {
+    private queues: Map<string, Uint8Array[]> = new Map();  // Streams with frames waiting, in turn order
+    private queuedBytes: Map<string, number> = new Map();  // Size of each stream's queue
+    private flushing = false;
+
+    constructor(private readonly transport: MuxTransport) {}
+
+    /**
+     * Queue a frame behind any earlier ones of the same stream. Window updates
+     * skip the queue, they only ever free up the other side.
+     */
+    public send(streamId: string, frame: Uint8Array): void {
+        if (frame[0] === FrameType.WindowUpdate) {
+            this.transport.write(frame);
+            return;
+        }
+
+        this.queuedBytes.set(streamId, this.queued(streamId) + frame.length);
+        const queue = this.queues.get(streamId);
+        if (queue) {
+            queue.push(frame);
+        } else {
+            this.queues.set(streamId, [frame]);
+        }
+        this.flush();
+    }
+
+    /**
+     * Queue body bytes, split into chunks small enough to interleave
+     */
+    public sendData(type: FrameType, streamId: string, data: Uint8Array): void {
+        for (let offset = 0; offset < data.length; offset += MAX_CHUNK) {
+            this.send(streamId, encodeFrame(type, streamId, data.subarray(offset, offset + MAX_CHUNK)));
+        }
+    }
+
+    /**
+     * Write queued frames, one stream at a time, until the connection is busy
+     */
+    public flush(): void {
+        // Writing can call back into flush, e.g. from a send callback
+        if (this.flushing) return;
+        this.flushing = true;
+        try {
+            while (this.queues.size > 0 && this.transport.bufferedAmount() < CONNECTION_HIGH_WATER) {
+                const [streamId, queue] = this.queues.entries().next().value!;
+                const frame = queue.shift()!;
+                // Move the stream to the back of the line
+                this.queues.delete(streamId);
+                if (queue.length > 0) {
+                    this.queues.set(streamId, queue);
+                    this.queuedBytes.set(streamId, this.queued(streamId) - frame.length);
+                } else {
+                    this.queuedBytes.delete(streamId);
+                }
+                this.transport.write(frame);
+                if (queue.length === 0) {
+                    this.transport.drained?.(streamId);
+                }
+            }
+        } finally {
+            this.flushing = false;
+        }
+    }
+
+    /**
+     * Forget the frames a stream still has queued, nobody wants them any more
+     */
+    public drop(streamId: string): void {
+        this.queues.delete(streamId);
+        this.queuedBytes.delete(streamId);
+    }
+
+    /**
+     * Forget all queued frames, the connection they were meant for is gone
+     */
+    public clear(): void {
+        this.queues.clear();
+        this.queuedBytes.clear();
+    }
+
+    /**
+     * Bytes a stream has queued, for streams without a window of their own
+     * such as WebSockets to hold back their source by
+     */
+    public queued(streamId: string): number {
+        return this.queuedBytes.get(streamId) ?? 0;
+    }
+}
+
+/**
+ * Sending side of a stream's window
+ */
+export class SendWindow {
+    private unacked = 0;  // Bytes sent that the receiver hasn't reported consumed
+    private waiters: (() => void)[] = [];
+    public closed = false;
+
+    public get open(): boolean {
+        return this.unacked < STREAM_WINDOW || this.closed;
+    }
+
+    public consume(bytes: number): void {
+        this.unacked += bytes;
+    }
+
+    public ack(bytes: number): void {
+        this.unacked -= bytes;
+        if (this.open) {
+            this.wake();
+        }
+    }
+
+    /**
+     * Resolves once there's room to send more, or the stream is closed
+     */
+    public async wait(): Promise<void> {
+        if (this.open) return;
+        await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+
+    /**
+     * Stop waiting for the receiver, which has gone away
+     */
+    public close(): void {
+        this.closed = true;
+        this.wake();
+    }
+
+    private wake(): void {
+        const waiters = this.waiters;
+        this.waiters = [];
+        for (const resolve of waiters) {
+            resolve();
+        }
+    }
+}
+
+/**
+ * Receiving side of a stream's window, buffering the bytes that arrive until
+ * they're read from `stream`, and reporting them consumed as they are
+ */
+export class ReceiveWindow {
+    public readonly stream: ReadableStream<Uint8Array>;
+    private chunks: Uint8Array[] = [];
+    private ended = false;
+    private failure?: Error;
+    private discarding = false;  // Nobody will read the rest, consume whatever else arrives
+    private cancelled = false;
+    private wakeReader?: () => void;
+
+    /**
+     * @param onConsumed Called with the number of bytes read or discarded
+     * @param onCancel Called when the reader cancels the stream
+     */
+    constructor(private readonly onConsumed: (bytes: number) => void, onCancel?: () => void) {
+        this.stream = new ReadableStream<Uint8Array>({
+            pull: async (controller) => {
+                while (this.chunks.length === 0 && !this.ended && !this.failure && !this.discarding) {
+                    await new Promise<void>(resolve => this.wakeReader = resolve);
+                }
+                if (this.cancelled) {
+                    return;
+                } else if (this.discarding) {
+                    controller.error(new Error('Body discarded'));
+                } else if (this.failure) {
+                    controller.error(this.failure);
+                } else if (this.chunks.length > 0) {
+                    const chunk = this.chunks.shift()!;
+                    controller.enqueue(chunk);
+                    this.onConsumed(chunk.length);
+                } else {
+                    controller.close();
+                }
+            },
+            cancel: () => {
+                this.cancelled = true;
+                this.discard();
+                onCancel?.();
+            }
+        }, { highWaterMark: 0 });
+    }
+
+    /**
+     * Bytes from the sender, which must not be reused by the caller
+     */
+    public push(chunk: Uint8Array): void {
+        if (this.discarding) {
+            this.onConsumed(chunk.length);
+            return;
+        }
+        this.chunks.push(chunk);
+        this.wake();
+    }
+
+    public end(): void {
+        this.ended = true;
+        this.wake();
+    }
+
+    public error(error: Error): void {
+        this.failure = error;
+        this.wake();
+    }
+
+    /**
+     * Consume everything buffered or still to come without reading it, so the
+     * sender isn't left waiting on a reader that has given up. A reader still
+     * at it gets an error rather than the end, the body is incomplete.
+     */
+    public discard(): void {
+        if (this.discarding) return;
+        this.discarding = true;
+        const bytes = this.chunks.reduce((total, chunk) => total + chunk.length, 0);
+        this.chunks = [];
+        if (bytes > 0) {
+            this.onConsumed(bytes);
+        }
+        this.wake();
+    }
+
+    private wake(): void {
+        this.wakeReader?.();
+        this.wakeReader = undefined;
+    }
+}
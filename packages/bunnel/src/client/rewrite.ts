@@ -0,0 +1,106 @@
+import type { HeaderList } from './protocol';
+
+/**
+ * Host header sent to the local server:
+ * - `rewrite`: the local server's own host, e.g. `localhost:3000`
+ * - `preserve`: the host the visitor used, i.e. the tunnel's
+ * - anything else is sent as the host verbatim, e.g. `myapp.test`
+ */
+export type HostHeaderMode = 'preserve' | 'rewrite' | (string & {});
+
+/**
+ * The two ends of a tunnel, for translating URLs between them
+ */
+export interface UrlMapping {
+    tunnel: URL;  // Public tunnel URL, including the path prefix for path routing
+    local: URL;   // Local server URL as the app sees it, i.e. with the Host it's sent
+}
+
+/**
+ * Work out what the app behind the tunnel believes its own URL to be
+ * @returns null when the visitor's host is preserved, so the app sees the tunnel URL
+ */
+export function localUrlFor(mode: HostHeaderMode, localServerUrl: string): URL | null {
+    if (mode === 'preserve') return null;
+
+    const local = new URL(localServerUrl);
+    if (mode === 'rewrite') return local;
+
+    // Assigning to `host` would keep the local port when the value has none
+    const custom = new URL(`${local.protocol}//${mode}`);
+    custom.pathname = local.pathname;
+    return custom;
+}
+
+/**
+ * Move a URL from under one base onto another, e.g. `https://abc.tunnel.dev/t/x?y`
+ * to `http://localhost:3000/t/x?y`
+ * @returns null if the URL isn't under the base
+ */
+function rebase(value: string, from: URL, to: URL): string | null {
+    let url: URL;
+    try {
+        url = new URL(value);
+    } catch {
+        return null;
+    }
+
+    const fromPath = from.pathname.replace(/\/$/, '');
+    if (url.origin !== from.origin || !(url.pathname === fromPath || url.pathname.startsWith(`${fromPath}/`))) {
+        return null;
+    }
+    const rest = url.pathname.slice(fromPath.length) || '/';
+    const result = new URL(to.origin);
+    result.pathname = to.pathname.replace(/\/$/, '') + rest;
+    result.search = url.search;
+    result.hash = url.hash;
+    return result.href;
+}
+
+/**
+ * Point Host, Origin and Referer at the local server, so apps that check
+ * them against their own address accept tunneled requests
+ */
+export function rewriteRequestHeaders(headers: HeaderList, mapping: UrlMapping): HeaderList {
+    return headers.map(([name, value]) => {
+        switch (name) {
+            case 'host':
+                return [name, mapping.local.host];
+            case 'origin':
+                // Just scheme and host, even when the tunnel URL has a path
+                return [name, value === mapping.tunnel.origin ? mapping.local.origin : value];
+            case 'referer':
+                return [name, rebase(value, mapping.tunnel, mapping.local) ?? value];
+            default:
+                return [name, value];
+        }
+    });
+}
+
+/**
+ * Point redirects and cookie domains the app sets for itself back at the tunnel
+ * @param locals Every URL the app might consider its own
+ */
+export function rewriteResponseHeaders(headers: HeaderList, tunnel: URL, locals: URL[]): HeaderList {
+    const tunnelPath = tunnel.pathname.replace(/\/$/, '');
+    const localHostnames = new Set(locals.map(local => local.hostname));
+
+    return headers.map(([name, value]) => {
+        if (name === 'location') {
+            for (const local of locals) {
+                const rewritten = rebase(value, local, tunnel);
+                if (rewritten) return [name, rewritten];
+            }
+            // Root-relative redirects need the tunnel's path prefix under path routing
+            if (tunnelPath && value.startsWith('/') && !value.startsWith('//')) {
+                return [name, tunnelPath + value];
+            }
+        }
+        if (name === 'set-cookie') {
+            return [name, value.replace(/(;\s*domain=)\.?([^;]*)/i, (match, attribute: string, domain: string) => {
+                return localHostnames.has(domain.trim().toLowerCase()) ? `${attribute}${tunnel.hostname}` : match;
+            })];
+        }
+        return [name, value];
+    });
+}
@@ -0,0 +1,94 @@
+import type { Socket } from 'node:net';
+import { FrameType, STREAM_WINDOW, decodeTextPayload, decodeWindowUpdate, encodeFrame, encodeWindowUpdate } from './protocol';
+import type { Frame } from './protocol';
+
+/**
+ * Client end of a tunneled TCP connection, relaying between the local service
+ * and the visitor on the tunnel server. Reading from the local service pauses
+ * while a window's worth of bytes hasn't been written out to the visitor.
+ */
+export class TcpPipe {
+    private unacked = 0;  // Bytes sent to the server that it hasn't written out yet
+    private closed = false;
+
+    constructor(
+        public readonly id: string,
+        private readonly socket: Socket,
+        private readonly send: (frame: Uint8Array) => void,
+        private readonly onClose: () => void
+    ) {
+        socket.on('data', (chunk: Buffer) => {
+            this.unacked += chunk.length;
+            this.send(encodeFrame(FrameType.TcpData, this.id, chunk));
+            if (this.unacked >= STREAM_WINDOW) {
+                socket.pause();
+            }
+        });
+        // Needs allowHalfOpen, so the local service can still be written to
+        socket.on('end', () => {
+            if (!this.closed) {
+                this.send(encodeFrame(FrameType.TcpEnd, this.id));
+            }
+        });
+        socket.on('error', (error) => this.close(error.message));
+        socket.on('close', () => this.close());
+    }
+
+    public handleFrame(frame: Frame): void {
+        if (this.closed) return;
+
+        switch (frame.type) {
+            case FrameType.TcpData: {
+                const length = frame.payload.length;
+                // Acknowledged once handed to the OS, so the server sends at most a window ahead
+                this.socket.write(frame.payload.slice(), () => {
+                    if (!this.closed) {
+                        this.send(encodeWindowUpdate(this.id, length));
+                    }
+                });
+                break;
+            }
+            case FrameType.WindowUpdate:
+                this.unacked -= decodeWindowUpdate(frame.payload);
+                if (this.unacked < STREAM_WINDOW && this.socket.isPaused()) {
+                    this.socket.resume();
+                }
+                break;
+            case FrameType.TcpEnd:
+                this.socket.end();
+                break;
+            case FrameType.TcpClose: {
+                const reason = decodeTextPayload(frame.payload);
+                this.closed = true;
+                this.onClose();
+                if (reason) {
+                    this.socket.destroy();
+                } else {
+                    // Let whatever is still buffered reach the local service first
+                    this.socket.end(() => this.socket.destroy());
+                }
+                break;
+            }
+        }
+    }
+
+    /**
+     * Close both ends, telling the server why
+     * @param reason Empty for a clean close
+     */
+    public close(reason = ''): void {
+        if (this.closed) return;
+        this.closed = true;
+        this.onClose();
+        this.send(encodeFrame(FrameType.TcpClose, this.id, reason));
+        this.socket.destroy();
+    }
+
+    /**
+     * Drop the local connection, the server has forgotten the stream
+     */
+    public abort(): void {
+        this.closed = true;
+        this.socket.destroy();
+    }
+}
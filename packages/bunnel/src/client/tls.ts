@@ -0,0 +1,47 @@
+import net from 'node:net';
+import tls from 'node:tls';
+import type { Socket } from 'node:net';
+
+/**
+ * Normalize a SHA-256 fingerprint to the `AB:CD:...` form Node reports
+ */
+export function normalizeFingerprint(fingerprint: string): string {
+    const hex = fingerprint.replace(/^sha256[:=]?/i, '').replace(/[^0-9a-f]/gi, '').toUpperCase();
+    if (hex.length !== 64) {
+        throw new Error(`Invalid SHA-256 certificate fingerprint: ${fingerprint}`);
+    }
+    return hex.match(/../g)!.join(':');
+}
+
+/**
+ * Connection factory for ws that trusts exactly one certificate, identified by
+ * its SHA-256 fingerprint, instead of validating the chain. Meant for tunnel
+ * servers with self-signed certificates.
+ *
+ * The socket is only handed over once the fingerprint has been checked, so
+ * nothing (the auth token included) is sent to a server that doesn't match.
+ */
+export function pinnedConnection(fingerprint: string) {
+    const expected = normalizeFingerprint(fingerprint);
+
+    return (options: tls.ConnectionOptions, oncreate: (error: Error | null, socket?: Socket) => void): undefined => {
+        const socket = tls.connect({
+            ...options,
+            // Same as ws does for its own connections
+            servername: options.servername ?? (net.isIP(options.host ?? '') ? '' : options.host),
+            rejectUnauthorized: false
+        });
+
+        socket.once('secureConnect', () => {
+            const actual = socket.getPeerCertificate().fingerprint256;
+            if (actual !== expected) {
+                socket.destroy();
+                oncreate(new Error(`Tunnel server certificate fingerprint ${actual} does not match the pinned ${expected}`));
+                return;
+            }
+            oncreate(null, socket);
+        });
+        socket.once('error', (error) => oncreate(error));
+        return undefined;
+    };
+}
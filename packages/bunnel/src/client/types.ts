@@ -1,19 +1,57 @@
+import type { TunnelErrorCode } from './errors';
+import type { HeaderList } from './protocol';
+
 export interface TunnelRequest {
     id: string;
     method: string;
     path: string;
-    headers: Record<string, string>;
-    body: string | null;
+    headers: HeaderList;
+    hasBody: boolean;
+    tunnelUrl?: string;  // Public tunnel URL the visitor addressed
+    target?: string;  // Named local target, unset for the default one
+    queued?: number;  // Milliseconds the server held the request before forwarding it, unset by older servers
 }
 
 export interface TunnelResponse {
     id: string;
     status: number;
-    headers: Record<string, string>;
-    body: string;
+    headers: HeaderList;
 }
 
 export interface ConnectedMessage {
     type: 'connected';
     subdomain: string;
+    resumeToken: string;
+    url: string;
+    targets?: Record<string, string>;
+    tcp?: Record<string, string>;
+    timeouts?: Record<string, number>;  // Request timeout in ms the server enforces for each path pattern
+    access?: { allow: string[]; basicAuth: boolean; token: boolean };  // Who may use the tunnel, as the server enforces it
+    expiresAt?: number;
+}
+
+/**
+ * Why the tunnel server is about to close the tunnel
+ */
+export type TunnelExpiryReason = 'idle_timeout' | 'expired';
+
+/**
+ * Why a tunnel was closed, as passed to onClosed
+ * - `disconnected`: disconnect() was called
+ * - `connection_lost`: the connection dropped and couldn't be re-established
+ * - `server_shutdown`: the tunnel server stopped, and reconnecting didn't bring the tunnel back
+ * - `closed_by_server`: the tunnel server's operator closed the tunnel
+ * - `idle_timeout`, `expired`: the tunnel server ended the tunnel, see TunnelExpiryReason
+ */
+export type TunnelCloseReason = 'disconnected' | 'connection_lost' | 'server_shutdown' | 'closed_by_server' | TunnelExpiryReason;
+
+export interface ExpiringMessage {
+    type: 'expiring';
+    reason: TunnelExpiryReason;
+    expiresAt: number;
+}
+
+export interface ControlErrorBody {
+    error: TunnelErrorCode;
+    message: string;
 }
@@ -0,0 +1,150 @@
+/**
+ * Tests for the visitor policies clients set on their tunnels.
+ * Run with: bun test test/access.test.ts
+ */
+import { describe, expect, test } from "bun:test";
+import { checkVisitor, describeVisitorPolicy, isAddressAllowed, parseVisitorPolicy, stripVisitorCredentials } from "../packages/bunnel-server/src/server/access";
+import type { VisitorPolicy } from "../packages/bunnel-server/src/server/access";
+
+function policy(headers: Record<string, string>): VisitorPolicy {
+    const parsed = parseVisitorPolicy(new Headers(headers));
+    if (typeof parsed === "string") throw new Error(parsed);
+    return parsed;
+}
+
+function allowing(...ranges: string[]): VisitorPolicy {
+    return policy({ "x-bunnel-allow": ranges.join(",") });
+}
+
+function visit(headers: Record<string, string> = {}): Request {
+    return new Request("http://demo.localhost/", { headers });
+}
+
+const basic = (credentials: string) => `Basic ${Buffer.from(credentials).toString("base64")}`;
+
+describe("address ranges", () => {
+    test("/0 allows every address of its family", () => {
+        const everyone = allowing("0.0.0.0/0");
+        expect(isAddressAllowed(everyone, "203.0.113.7")).toBe(true);
+        expect(isAddressAllowed(everyone, "255.255.255.255")).toBe(true);
+        expect(isAddressAllowed(everyone, "2001:db8::1")).toBe(false);
+        expect(isAddressAllowed(allowing("::/0"), "2001:db8::1")).toBe(true);
+        expect(isAddressAllowed(allowing("::/0"), "10.0.0.1")).toBe(false);
+    });
+
+    test("/32 and a bare IPv4 address allow only that address", () => {
+        for (const single of [allowing("192.0.2.10/32"), allowing("192.0.2.10")]) {
+            expect(isAddressAllowed(single, "192.0.2.10")).toBe(true);
+            expect(isAddressAllowed(single, "192.0.2.11")).toBe(false);
+            expect(isAddressAllowed(single, "192.0.2.9")).toBe(false);
+        }
+    });
+
+    test("/128 and a bare IPv6 address allow only that address", () => {
+        for (const single of [allowing("2001:db8::7/128"), allowing("2001:db8::7")]) {
+            expect(isAddressAllowed(single, "2001:db8::7")).toBe(true);
+            expect(isAddressAllowed(single, "2001:db8:0:0:0:0:0:7")).toBe(true);
+            expect(isAddressAllowed(single, "2001:db8::8")).toBe(false);
+        }
+    });
+
+    test("range boundaries", () => {
+        const v4 = allowing("10.20.0.0/14");
+        expect(isAddressAllowed(v4, "10.20.0.0")).toBe(true);
+        expect(isAddressAllowed(v4, "10.23.255.255")).toBe(true);
+        expect(isAddressAllowed(v4, "10.24.0.0")).toBe(false);
+        expect(isAddressAllowed(v4, "10.19.255.255")).toBe(false);
+
+        const v6 = allowing("2001:db8:abcd::/48");
+        expect(isAddressAllowed(v6, "2001:db8:abcd:ffff:ffff:ffff:ffff:ffff")).toBe(true);
+        expect(isAddressAllowed(v6, "2001:db8:abce::")).toBe(false);
+    });
+
+    test("host bits in a range are ignored", () => {
+        expect(isAddressAllowed(allowing("10.1.2.3/8"), "10.200.0.1")).toBe(true);
+    });
+
+    test("IPv4-mapped IPv6 addresses match IPv4 ranges", () => {
+        const v4 = allowing("10.0.0.0/8");
+        expect(isAddressAllowed(v4, "::ffff:10.1.2.3")).toBe(true);
+        expect(isAddressAllowed(v4, "::FFFF:10.1.2.3")).toBe(true);
+        expect(isAddressAllowed(v4, "::ffff:11.1.2.3")).toBe(false);
+        expect(isAddressAllowed(allowing("::ffff:10.1.2.3"), "10.1.2.3")).toBe(true);
+    });
+
+    test("IPv6 addresses ending in an IPv4 part and zone IDs", () => {
+        expect(isAddressAllowed(allowing("64:ff9b::/96"), "64:ff9b::192.0.2.1")).toBe(true);
+        expect(isAddressAllowed(allowing("64:ff9b::c000:201"), "64:ff9b::192.0.2.1")).toBe(true);
+        expect(isAddressAllowed(allowing("fe80::/10"), "fe80::1%eth0")).toBe(true);
+    });
+
+    test("any of several ranges lets a visitor in", () => {
+        const ranges = allowing("10.0.0.0/8", "2001:db8::/32");
+        expect(isAddressAllowed(ranges, "10.9.9.9")).toBe(true);
+        expect(isAddressAllowed(ranges, "2001:db8::9")).toBe(true);
+        expect(isAddressAllowed(ranges, "192.168.0.1")).toBe(false);
+    });
+
+    test("an unknown address is only allowed without an allowlist", () => {
+        expect(isAddressAllowed(allowing("0.0.0.0/0"), undefined)).toBe(false);
+        expect(isAddressAllowed(allowing("0.0.0.0/0"), "not-an-address")).toBe(false);
+        expect(isAddressAllowed(policy({}), undefined)).toBe(true);
+    });
+
+    test("invalid entries are rejected", () => {
+        for (const entry of ["10.0.0.0/", "10.0.0.0/33", "::/129", "10.0.0.0/-1", "10.0.0.0/8/8", "10.0.0.256", "example.com", "10.0.0.0/ 8x"]) {
+            expect(parseVisitorPolicy(new Headers({ "x-bunnel-allow": entry }))).toBeTypeOf("string");
+        }
+    });
+});
+
+describe("credentials", () => {
+    const both = policy({
+        "x-bunnel-basic-auth": Buffer.from("alice:s3cret:with-colon").toString("base64"),
+        "x-bunnel-visitor-token": "t0ken"
+    });
+
+    test("basic auth and bearer tokens let visitors in", () => {
+        expect(checkVisitor(both, visit({ authorization: basic("alice:s3cret:with-colon") }), "192.0.2.1")).toBeNull();
+        expect(checkVisitor(both, visit({ authorization: "Bearer t0ken" }), "192.0.2.1")).toBeNull();
+        expect(checkVisitor(both, visit({ authorization: "bearer   t0ken" }), "192.0.2.1")).toBeNull();
+    });
+
+    test("missing or wrong credentials are answered 401 with both challenges", () => {
+        for (const authorization of [undefined, basic("alice:wrong"), basic("alice:s3cret"), "Bearer t0ke", "Bearer t0ken2", "Basic !!!", "t0ken"]) {
+            const response = checkVisitor(both, visit(authorization ? { authorization } : {}), "192.0.2.1");
+            expect(response?.status).toBe(401);
+            expect(response?.headers.get("www-authenticate")).toContain("Basic");
+            expect(response?.headers.get("www-authenticate")).toContain("Bearer");
+        }
+    });
+
+    test("a token isn't accepted as basic auth or the other way round", () => {
+        const tokenOnly = policy({ "x-bunnel-visitor-token": "alice:s3cret" });
+        expect(checkVisitor(tokenOnly, visit({ authorization: basic("alice:s3cret") }), undefined)?.status).toBe(401);
+        expect(checkVisitor(tokenOnly, visit({ authorization: basic("alice:s3cret") }), undefined)?.headers.get("www-authenticate")).not.toContain("Basic");
+    });
+
+    test("the address is checked before credentials", () => {
+        const restricted = policy({ "x-bunnel-allow": "10.0.0.0/8", "x-bunnel-visitor-token": "t0ken" });
+        expect(checkVisitor(restricted, visit({ authorization: "Bearer t0ken" }), "192.0.2.1")?.status).toBe(403);
+        expect(checkVisitor(restricted, visit({ authorization: "Bearer t0ken" }), "10.0.0.1")).toBeNull();
+    });
+
+    test("basic auth credentials need a username and a colon", () => {
+        for (const credentials of ["no-colon", ":password-only"]) {
+            expect(parseVisitorPolicy(new Headers({ "x-bunnel-basic-auth": Buffer.from(credentials).toString("base64") }))).toBeTypeOf("string");
+        }
+    });
+
+    test("credentials are stripped before reaching the local server, and only when the tunnel set some", () => {
+        const headers: [string, string][] = [["authorization", "Bearer t0ken"], ["accept", "*/*"]];
+        expect(stripVisitorCredentials(both, headers)).toEqual([["accept", "*/*"]]);
+        expect(stripVisitorCredentials(allowing("10.0.0.0/8"), headers)).toEqual(headers);
+    });
+
+    test("descriptions leave the secrets out", () => {
+        expect(describeVisitorPolicy(both)).toEqual({ allow: [], basicAuth: true, token: true });
+        expect(JSON.stringify(describeVisitorPolicy(both))).not.toContain("s3cret");
+    });
+});
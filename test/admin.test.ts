@@ -0,0 +1,229 @@
+/**
+ * Tests for the admin API listing and closing tunnels and draining the server.
+ * Run with: bun test test/admin.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { connect } from "node:net";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import type { TunnelSummary } from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+import type { TunnelCloseReason } from "../packages/bunnel/src/client/types";
+
+const ADMIN_TOKEN = "admin-secret";
+
+let local: Server;
+let release: (() => void) | undefined;  // Answers the request the local server is holding
+
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error("Timed out waiting");
+        await Bun.sleep(10);
+    }
+}
+
+function startClient(port: number, subdomain: string, closed: TunnelCloseReason[] = []): TunnelClient {
+    return new TunnelClient({
+        localServerUrl: `http://localhost:${local.port}`,
+        tunnelServerUrl: `ws://localhost:${port}`,
+        subdomain,
+        reconnectDelay: 50,
+        onClosed: reason => closed.push(reason)
+    });
+}
+
+beforeAll(() => {
+    local = Bun.serve({
+        port: 0,
+        fetch(req) {
+            if (new URL(req.url).pathname === "/hold") {
+                return new Promise<Response>(resolve => {
+                    release = () => resolve(new Response("released"));
+                });
+            }
+            return new Response("ok");
+        }
+    });
+});
+
+afterAll(() => {
+    local.stop(true);
+});
+
+describe("on the tunnel port", () => {
+    const TUNNEL_PORT = 4828;
+
+    const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"], adminToken: ADMIN_TOKEN });
+    const clients: TunnelClient[] = [];
+
+    function admin(path: string, init: RequestInit = {}, token = ADMIN_TOKEN): Promise<Response> {
+        return fetch(`http://localhost:${TUNNEL_PORT}/admin${path}`, { ...init, headers: { authorization: `Bearer ${token}` } });
+    }
+
+    function tunnelFetch(subdomain: string, path = "/"): Promise<Response> {
+        return fetch(`http://localhost:${TUNNEL_PORT}${path}`, { headers: { "x-bunnel-tunnel": subdomain } });
+    }
+
+    /**
+     * Raw control upgrade, as the ws shim under Bun doesn't report the
+     * response to a refused one
+     * @returns The status and the error body the server refused it with
+     */
+    function refusal(subdomain: string): Promise<{ status: number; error: string }> {
+        return new Promise((resolve, reject) => {
+            const socket = connect(TUNNEL_PORT, "localhost", () => {
+                socket.write([
+                    "GET / HTTP/1.1",
+                    `Host: localhost:${TUNNEL_PORT}`,
+                    "Upgrade: websocket",
+                    "Connection: Upgrade",
+                    "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                    "Sec-WebSocket-Version: 13",
+                    `X-Bunnel-Subdomain: ${subdomain}`,
+                    "", ""
+                ].join("\r\n"));
+            });
+            let received = "";
+            socket.on("data", data => {
+                received += data.toString();
+                const [head, body] = received.split("\r\n\r\n");
+                try {
+                    resolve({ status: Number(head.split(" ")[1]), error: JSON.parse(body).error });
+                    socket.destroy();
+                } catch {
+                    // Wait for the rest of the body
+                }
+            });
+            socket.once("error", reject);
+        });
+    }
+
+    beforeAll(async () => {
+        tunnelServer.start();
+        for (const subdomain of ["first", "second"]) {
+            const client = startClient(TUNNEL_PORT, subdomain);
+            await client.connect();
+            clients.push(client);
+        }
+    });
+
+    afterAll(() => {
+        for (const client of clients) {
+            client.disconnect();
+        }
+        tunnelServer.stop();
+    });
+
+    test("needs the admin token", async () => {
+        for (const response of [
+            await fetch(`http://localhost:${TUNNEL_PORT}/admin/tunnels`),
+            await admin("/tunnels", {}, "wrong"),
+            await admin("/drain", { method: "POST" }, "")
+        ]) {
+            expect(response.status).toBe(401);
+            expect(response.headers.get("www-authenticate")).toBe("Bearer");
+            expect((await response.json()).error).toBe("unauthorized");
+        }
+        expect(tunnelServer.isDraining()).toBe(false);
+    });
+
+    test("lists every tunnel, with what's going through it", async () => {
+        const held = tunnelFetch("second", "/hold");
+        await waitFor(() => release !== undefined);
+
+        const response = await admin("/tunnels");
+        expect(response.status).toBe(200);
+        const { draining, tunnels } = await response.json() as { draining: boolean; tunnels: TunnelSummary[] };
+        expect(draining).toBe(false);
+        expect(tunnels.map(tunnel => tunnel.subdomain).sort()).toEqual(["first", "second"]);
+
+        const second = tunnels.find(tunnel => tunnel.subdomain === "second")!;
+        expect(second).toMatchObject({ state: "online", clientSockets: 0, inFlightRequests: 1, tcpStreams: 0, targets: {}, tcp: {} });
+        expect(Date.parse(second.connectedAt)).toBeGreaterThanOrEqual(Date.parse(second.createdAt));
+        expect(Date.parse(second.lastActive)).toBeLessThanOrEqual(Date.now());
+
+        release!();
+        expect(await (await held).text()).toBe("released");
+        const after = await (await admin("/tunnels/second")).json() as TunnelSummary;
+        expect(after.inFlightRequests).toBe(0);
+    });
+
+    test("answers unknown tunnels, endpoints and methods with errors", async () => {
+        const missing = await admin("/tunnels/nobody");
+        expect(missing.status).toBe(404);
+        expect((await missing.json()).error).toBe("not_found");
+
+        expect((await admin("/nothing")).status).toBe(404);
+
+        const wrongMethod = await admin("/tunnels", { method: "POST" });
+        expect(wrongMethod.status).toBe(405);
+        expect(wrongMethod.headers.get("allow")).toBe("GET");
+        expect((await admin("/drain")).status).toBe(405);
+    });
+
+    test("closing a tunnel ends it for good", async () => {
+        const closed: TunnelCloseReason[] = [];
+        const client = startClient(TUNNEL_PORT, "doomed", closed);
+        await client.connect();
+        clients.push(client);
+
+        const response = await admin("/tunnels/DOOMED", { method: "DELETE" });
+        expect(response.status).toBe(204);
+        await waitFor(() => closed.length > 0);
+        expect(closed).toEqual(["closed_by_server"]);
+
+        // It isn't held for a reconnection either
+        expect((await tunnelFetch("doomed")).status).toBe(404);
+        expect((await admin("/tunnels/doomed")).status).toBe(404);
+    });
+
+    test("draining turns away new tunnels but keeps the open ones", async () => {
+        const response = await admin("/drain", { method: "POST" });
+        expect(await response.json()).toEqual({ draining: true, tunnels: 2 });
+        expect((await admin("/tunnels")).status).toBe(200);
+
+        const health = await fetch(`http://localhost:${TUNNEL_PORT}/`);
+        expect(health.status).toBe(503);
+        expect(await refusal("latecomer")).toEqual({ status: 503, error: "draining" });
+        expect(await (await tunnelFetch("first")).text()).toBe("ok");
+    });
+});
+
+describe("on a port of its own", () => {
+    const TUNNEL_PORT = 4843;
+    const ADMIN_PORT = 4844;
+
+    const tunnelServer = new TunnelServer({
+        tunnelPort: TUNNEL_PORT,
+        routing: ["header"],
+        adminToken: ADMIN_TOKEN,
+        adminPort: ADMIN_PORT
+    });
+
+    beforeAll(() => {
+        tunnelServer.start();
+    });
+
+    afterAll(() => {
+        tunnelServer.stop();
+    });
+
+    test("isn't served on the tunnel port", async () => {
+        const headers = { authorization: `Bearer ${ADMIN_TOKEN}` };
+        expect((await fetch(`http://localhost:${TUNNEL_PORT}/admin/tunnels`, { headers })).status).toBe(404);
+
+        const response = await fetch(`http://localhost:${ADMIN_PORT}/admin/tunnels`, { headers });
+        expect(await response.json()).toEqual({ draining: false, tunnels: [] });
+        expect((await fetch(`http://localhost:${ADMIN_PORT}/admin/tunnels`)).status).toBe(401);
+    });
+});
+
+test("the admin API is off without a token", async () => {
+    const TUNNEL_PORT = 4845;
+    const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"] });
+    tunnelServer.start();
+    const response = await fetch(`http://localhost:${TUNNEL_PORT}/admin/tunnels`, { headers: { authorization: "Bearer " } });
+    tunnelServer.stop();
+    expect(response.status).toBe(404);
+});
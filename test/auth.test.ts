@@ -0,0 +1,61 @@
+/**
+ * Tests for the signed tokens clients authenticate with.
+ * Run with: bun test test/auth.test.ts
+ */
+import { expect, test } from "bun:test";
+import { createHmac } from "node:crypto";
+import { safeEqual, signAuthToken, verifyAuthToken } from "../packages/bunnel-server/src/server/auth";
+
+const SECRET = "server-secret";
+
+const now = () => Math.floor(Date.now() / 1000);
+
+test("a signed token verifies with its claims", () => {
+    const exp = now() + 60;
+    expect(verifyAuthToken(SECRET, signAuthToken(SECRET, { sub: "alice", exp }))).toEqual({ sub: "alice", exp });
+    expect(verifyAuthToken(SECRET, signAuthToken(SECRET))).toEqual({});
+});
+
+test("expired tokens are refused", () => {
+    expect(verifyAuthToken(SECRET, signAuthToken(SECRET, { sub: "alice", exp: now() - 1 }))).toBeNull();
+    expect(verifyAuthToken(SECRET, signAuthToken(SECRET, { exp: 0 }))).toBeNull();
+});
+
+test("tokens signed with another secret are refused", () => {
+    expect(verifyAuthToken(SECRET, signAuthToken("other-secret", { sub: "alice" }))).toBeNull();
+});
+
+test("tampered claims are refused", () => {
+    const [, signature] = signAuthToken(SECRET, { sub: "alice", exp: now() - 1 }).split(".");
+    const extended = Buffer.from(JSON.stringify({ sub: "alice", exp: now() + 3600 })).toString("base64url");
+    expect(verifyAuthToken(SECRET, `${extended}.${signature}`)).toBeNull();
+
+    const unlimited = Buffer.from(JSON.stringify({ sub: "alice" })).toString("base64url");
+    expect(verifyAuthToken(SECRET, `${unlimited}.${signature}`)).toBeNull();
+});
+
+test("tampered or missing signatures are refused", () => {
+    const token = signAuthToken(SECRET, { sub: "alice" });
+    const [payload, signature] = token.split(".");
+    const flipped = signature.slice(0, -1) + (signature.endsWith("A") ? "B" : "A");
+    expect(verifyAuthToken(SECRET, `${payload}.${flipped}`)).toBeNull();
+    expect(verifyAuthToken(SECRET, `${payload}.`)).toBeNull();
+    expect(verifyAuthToken(SECRET, payload)).toBeNull();
+    expect(verifyAuthToken(SECRET, `${payload}.${signature.slice(1)}`)).toBeNull();
+    expect(verifyAuthToken(SECRET, `${token}.extra`)).toBeNull();
+    expect(verifyAuthToken(SECRET, "")).toBeNull();
+});
+
+test("a validly signed payload that isn't JSON is refused", () => {
+    const payload = Buffer.from("not json").toString("base64url");
+    const signature = createHmac("sha256", SECRET).update(payload).digest("base64url");
+    expect(verifyAuthToken(SECRET, `${payload}.${signature}`)).toBeNull();
+});
+
+test("safeEqual compares whole strings", () => {
+    expect(safeEqual("secret", "secret")).toBe(true);
+    expect(safeEqual("secret", "secreT")).toBe(false);
+    expect(safeEqual("secret", "secret2")).toBe(false);
+    expect(safeEqual("secret", "")).toBe(false);
+    expect(safeEqual("", "")).toBe(true);
+});
@@ -0,0 +1,155 @@
+/**
+ * Tests for the binary frames request and response bodies travel in.
+ * Run with: bun test test/bodies.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { createHash } from "node:crypto";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { FrameType, decodeFrame, decodeJsonPayload, decodeTextPayload, decodeWindowUpdate, encodeFrame, encodeJsonFrame, encodeWindowUpdate } from "../packages/bunnel-server/src/server/protocol";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+describe("frames", () => {
+    test("carry their type, id and payload byte for byte", () => {
+        const payload = Uint8Array.from({ length: 256 }, (_, i) => i);
+        const frame = decodeFrame(encodeFrame(FrameType.ResponseBody, "req-1", payload));
+        expect(frame.type).toBe(FrameType.ResponseBody);
+        expect(frame.id).toBe("req-1");
+        expect(frame.payload).toEqual(payload);
+    });
+
+    test("may have no payload", () => {
+        const frame = decodeFrame(encodeFrame(FrameType.RequestEnd, "req-1"));
+        expect(frame.type).toBe(FrameType.RequestEnd);
+        expect(frame.payload.length).toBe(0);
+    });
+
+    test("text and JSON payloads are UTF-8", () => {
+        expect(decodeTextPayload(decodeFrame(encodeFrame(FrameType.ResponseError, "é", "connexion refusée ✗")).payload)).toBe("connexion refusée ✗");
+        const head = { status: 200, headers: [["set-cookie", "a=1"], ["set-cookie", "b=2"]] };
+        expect(decodeJsonPayload(decodeFrame(encodeJsonFrame(FrameType.ResponseStart, "req-1", head)).payload)).toEqual(head);
+    });
+
+    test("window updates count up to 4GB", () => {
+        for (const bytes of [0, 1, 256 * 1024, 2 ** 32 - 1]) {
+            const frame = decodeFrame(encodeWindowUpdate("req-1", bytes));
+            expect(frame.type).toBe(FrameType.WindowUpdate);
+            expect(decodeWindowUpdate(frame.payload)).toBe(bytes);
+        }
+    });
+
+    test("decode from a view into a larger buffer", () => {
+        const frame = encodeWindowUpdate("req-1", 1234);
+        const buffer = new Uint8Array(frame.length + 10);
+        buffer.set(frame, 5);
+        expect(decodeWindowUpdate(decodeFrame(buffer.subarray(5, 5 + frame.length)).payload)).toBe(1234);
+    });
+
+    test("ids are limited to 255 bytes, and truncated frames are refused", () => {
+        expect(() => encodeFrame(FrameType.RequestEnd, "x".repeat(256))).toThrow("Frame id too long");
+        expect(decodeFrame(encodeFrame(FrameType.RequestEnd, "x".repeat(255))).id.length).toBe(255);
+        expect(() => decodeFrame(new Uint8Array([FrameType.RequestEnd]))).toThrow("Malformed tunnel frame");
+        expect(() => decodeFrame(new Uint8Array([FrameType.RequestEnd, 5, 97]))).toThrow("Malformed tunnel frame");
+    });
+});
+
+describe("bodies through a tunnel", () => {
+    const TUNNEL_PORT = 4814;
+
+    const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"] });
+    let local: Server;
+    let client: TunnelClient;
+
+    function tunnelFetch(path: string, init: RequestInit = {}): Promise<Response> {
+        return fetch(`http://localhost:${TUNNEL_PORT}${path}`, {
+            ...init,
+            headers: { ...init.headers, "x-bunnel-tunnel": "bodies" }
+        });
+    }
+
+    const sha256 = (data: Uint8Array) => createHash("sha256").update(data).digest("hex");
+
+    beforeAll(async () => {
+        tunnelServer.start();
+        local = Bun.serve({
+            port: 0,
+            async fetch(req) {
+                const url = new URL(req.url);
+                switch (url.pathname) {
+                    case "/echo":
+                        return new Response(await req.arrayBuffer(), { headers: { "content-type": "application/octet-stream" } });
+                    case "/hash":
+                        return new Response(sha256(new Uint8Array(await req.arrayBuffer())));
+                    case "/bytes": {
+                        const size = Number(url.searchParams.get("size"));
+                        return new Response(Uint8Array.from({ length: size }, (_, i) => (i * 7) % 256));
+                    }
+                    case "/empty":
+                        return new Response(null, { status: 204 });
+                    default:
+                        return new Response("ok");
+                }
+            }
+        });
+        client = new TunnelClient({
+            localServerUrl: `http://localhost:${local.port}`,
+            tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+            subdomain: "bodies",
+            reconnect: false
+        });
+        await client.connect();
+    });
+
+    afterAll(() => {
+        client.disconnect();
+        local.stop(true);
+        tunnelServer.stop();
+    });
+
+    test("every byte value survives the round trip", async () => {
+        const payload = Uint8Array.from({ length: 1024 }, (_, i) => 255 - (i % 256));
+        const response = await tunnelFetch("/echo", { method: "POST", body: payload });
+        expect(response.status).toBe(200);
+        expect(new Uint8Array(await response.arrayBuffer())).toEqual(payload);
+    });
+
+    test("bodies larger than a stream window arrive intact", async () => {
+        const upload = Uint8Array.from({ length: 3 * 1024 * 1024 }, (_, i) => (i * 31) % 251);
+        const response = await tunnelFetch("/hash", { method: "POST", body: upload });
+        expect(await response.text()).toBe(sha256(upload));
+
+        const size = 2 * 1024 * 1024 + 17;
+        const download = new Uint8Array(await (await tunnelFetch(`/bytes?size=${size}`)).arrayBuffer());
+        expect(download.length).toBe(size);
+        expect(sha256(download)).toBe(sha256(Uint8Array.from({ length: size }, (_, i) => (i * 7) % 256)));
+    });
+
+    test("a streamed upload without a length is passed on whole", async () => {
+        const chunks = [new Uint8Array([0, 1, 2]), new Uint8Array(100_000).fill(9), new Uint8Array([255])];
+        const body = new ReadableStream<Uint8Array>({
+            start(controller) {
+                for (const chunk of chunks) controller.enqueue(chunk);
+                controller.close();
+            }
+        });
+        const response = await tunnelFetch("/echo", { method: "POST", body });
+        const echoed = new Uint8Array(await response.arrayBuffer());
+        expect(echoed.length).toBe(100_004);
+        expect([...echoed.subarray(0, 3)]).toEqual([0, 1, 2]);
+        expect(echoed[echoed.length - 1]).toBe(255);
+    });
+
+    test("empty bodies and statuses without one", async () => {
+        const empty = await tunnelFetch("/echo", { method: "POST", body: new Uint8Array(0) });
+        expect(empty.status).toBe(200);
+        expect((await empty.arrayBuffer()).byteLength).toBe(0);
+
+        const noContent = await tunnelFetch("/empty");
+        expect(noContent.status).toBe(204);
+        expect(await noContent.text()).toBe("");
+
+        const head = await tunnelFetch("/bytes?size=10", { method: "HEAD" });
+        expect(head.status).toBe(200);
+        expect(await head.text()).toBe("");
+    });
+});
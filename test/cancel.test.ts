@@ -0,0 +1,125 @@
+/**
+ * Tests for local requests being cancelled once nobody wants their response.
+ * Run with: bun test test/cancel.test.ts
+ */
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import type { Server } from "bun";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+const TUNNEL_PORT = 4825;
+const SERVER_TIMEOUT = 1000;
+const CLIENT_TIMEOUT = 300;
+
+const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"], maxRequestTimeout: SERVER_TIMEOUT });
+let local: Server;
+let client: TunnelClient;
+const aborted = new Set<string>();  // Paths whose request the local server saw aborted
+const started = new Set<string>();
+
+function tunnelFetch(path: string, signal?: AbortSignal): Promise<Response> {
+    return fetch(`http://localhost:${TUNNEL_PORT}${path}`, { headers: { "x-bunnel-tunnel": "cancel" }, signal });
+}
+
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error("Timed out waiting");
+        await Bun.sleep(10);
+    }
+}
+
+beforeAll(async () => {
+    tunnelServer.start();
+    local = Bun.serve({
+        port: 0,
+        idleTimeout: 0,
+        fetch(req) {
+            const path = new URL(req.url).pathname;
+            if (path === "/") return new Response("ok");
+            started.add(path);
+            req.signal.addEventListener("abort", () => aborted.add(path));
+
+            // Starts answering right away, then never finishes
+            if (path.startsWith("/stream")) {
+                return new Response(new ReadableStream({
+                    start(controller) {
+                        controller.enqueue(new TextEncoder().encode("first chunk"));
+                    },
+                    cancel() {
+                        aborted.add(path);
+                    }
+                }));
+            }
+            // Never answers
+            return new Promise<Response>(() => {});
+        }
+    });
+    client = new TunnelClient({
+        localServerUrl: `http://localhost:${local.port}`,
+        tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+        subdomain: "cancel",
+        requestTimeout: CLIENT_TIMEOUT,
+        timeouts: [{ path: "/slow/*", timeout: 60_000 }],
+        reconnect: false
+    });
+    await client.connect();
+});
+
+afterAll(() => {
+    client.disconnect();
+    local.stop(true);
+    tunnelServer.stop();
+});
+
+test("a visitor going away before the response aborts the local request", async () => {
+    const controller = new AbortController();
+    const response = tunnelFetch("/slow/visitor", controller.signal);
+    await waitFor(() => started.has("/slow/visitor"));
+    controller.abort();
+    await expect(response).rejects.toThrow();
+
+    await waitFor(() => aborted.has("/slow/visitor"));
+    expect(client["localRequests"].size).toBe(0);
+});
+
+// A raw visitor, as Bun's fetch holds back streamed bodies for a while after an aborted request
+test("a visitor going away during the response aborts the local one", async () => {
+    let received = "";
+    const socket = await Bun.connect({
+        hostname: "localhost",
+        port: TUNNEL_PORT,
+        socket: {
+            data: (_socket, data) => { received += Buffer.from(data).toString(); }
+        }
+    });
+    socket.write(`GET /stream/visitor HTTP/1.1\r\nHost: localhost:${TUNNEL_PORT}\r\nX-Bunnel-Tunnel: cancel\r\n\r\n`);
+    await waitFor(() => received.includes("first chunk"));
+    expect(received).toStartWith("HTTP/1.1 200");
+    socket.end();
+
+    await waitFor(() => aborted.has("/stream/visitor"));
+    expect(client["localRequests"].size).toBe(0);
+});
+
+test("the server's timeout aborts the local request", async () => {
+    const response = await tunnelFetch("/slow/server-timeout");
+    expect(response.status).toBe(504);
+    expect(response.headers.get("x-bunnel-timeout")).toBe("max");
+    await waitFor(() => aborted.has("/slow/server-timeout"));
+});
+
+test("the client's own timeout aborts the local request and answers 504", async () => {
+    const startedAt = Date.now();
+    const response = await tunnelFetch("/client-timeout");
+    expect(response.status).toBe(504);
+    expect(await response.text()).toBe("Gateway Timeout");
+    expect(response.headers.get("x-bunnel-timeout")).toBeNull();
+    expect(Date.now() - startedAt).toBeLessThan(SERVER_TIMEOUT);
+    await waitFor(() => aborted.has("/client-timeout"));
+});
+
+test("the tunnel carries on after its requests are cancelled", async () => {
+    expect(await (await tunnelFetch("/")).text()).toBe("ok");
+    expect(tunnelServer["tunnels"].get("cancel")!.pendingRequests.size).toBe(0);
+});
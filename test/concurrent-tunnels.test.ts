@@ -0,0 +1,98 @@
+/**
+ * Regression tests for several tunnels sharing one server.
+ * Run with: bun test test/concurrent-tunnels.test.ts
+ */
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import type { Server } from "bun";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+const TUNNEL_PORT = 4811;
+const NAMES = ["alpha", "bravo", "charlie"];
+
+const tunnelServer = new TunnelServer({
+    tunnelPort: TUNNEL_PORT,
+    routing: ["host", "header"]
+});
+const localServers: Server[] = [];
+const clients = new Map<string, TunnelClient>();
+
+function startLocalServer(name: string): Server {
+    return Bun.serve({
+        port: 0,
+        async fetch(req) {
+            const url = new URL(req.url);
+            const delay = url.pathname === "/slow" ? 500 : Math.random() * 50;
+            await Bun.sleep(delay);
+            return new Response(`${name}:${url.pathname}`);
+        }
+    });
+}
+
+function tunnelFetch(subdomain: string, path: string): Promise<Response> {
+    return fetch(`http://localhost:${TUNNEL_PORT}${path}`, {
+        headers: { "x-bunnel-tunnel": subdomain }
+    });
+}
+
+beforeAll(async () => {
+    tunnelServer.start();
+
+    for (const name of NAMES) {
+        const local = startLocalServer(name);
+        localServers.push(local);
+
+        const client = new TunnelClient({
+            localServerUrl: `http://localhost:${local.port}`,
+            tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+            subdomain: name,
+            reconnect: false
+        });
+        await client.connect();
+        clients.set(name, client);
+    }
+});
+
+afterAll(() => {
+    for (const client of clients.values()) {
+        client.disconnect();
+    }
+    for (const local of localServers) {
+        local.stop(true);
+    }
+    tunnelServer.stop();
+});
+
+test("concurrent requests are answered by their own tunnel", async () => {
+    const requests = Array.from({ length: 60 }, (_, i) => {
+        const name = NAMES[i % NAMES.length];
+        return { name, path: `/request-${i}` };
+    });
+
+    const bodies = await Promise.all(requests.map(async ({ name, path }) => {
+        const response = await tunnelFetch(name, path);
+        expect(response.status).toBe(200);
+        return response.text();
+    }));
+
+    bodies.forEach((body, i) => {
+        expect(body).toBe(`${requests[i].name}:${requests[i].path}`);
+    });
+});
+
+test("a disconnecting tunnel only fails its own in-flight requests", async () => {
+    const doomed = tunnelFetch("alpha", "/slow");
+    const survivors = [tunnelFetch("bravo", "/slow"), tunnelFetch("charlie", "/slow")];
+
+    // Let the requests reach the clients before pulling alpha's plug
+    await Bun.sleep(100);
+    clients.get("alpha")!.disconnect();
+    clients.delete("alpha");
+
+    expect((await doomed).status).toBe(502);
+    for (const [i, survivor] of survivors.entries()) {
+        const response = await survivor;
+        expect(response.status).toBe(200);
+        expect(await response.text()).toBe(`${NAMES[i + 1]}:/slow`);
+    }
+});
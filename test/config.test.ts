@@ -0,0 +1,182 @@
+/**
+ * Tests for resolving server settings from config files, the environment and flags.
+ * Run with: bun test test/config.test.ts
+ */
+import { afterAll, describe, expect, test } from "bun:test";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { SETTINGS, envName, flagName, formatConfig, formatDuration, loadConfigFile, parseDuration, resolveConfig, toServerOptions } from "../packages/bunnel-server/src/cli/config";
+import { DEFAULT_OPTIONS } from "../packages/bunnel-server/src/server/server";
+
+describe("durations", () => {
+    test("plain numbers are seconds", () => {
+        expect(parseDuration("90")).toBe(90000);
+        expect(parseDuration(90)).toBe(90000);
+        expect(parseDuration("0")).toBe(0);
+    });
+
+    test("units from milliseconds to days", () => {
+        expect(parseDuration("500ms")).toBe(500);
+        expect(parseDuration("30s")).toBe(30000);
+        expect(parseDuration("15m")).toBe(15 * 60000);
+        expect(parseDuration("1.5h")).toBe(90 * 60000);
+        expect(parseDuration(" 30d ")).toBe(30 * 86400000);
+    });
+
+    test("anything else is refused", () => {
+        for (const invalid of ["", "m", "5 m", "5M", "-5s", "5w", "5s5"]) {
+            expect(() => parseDuration(invalid)).toThrow(`Invalid duration: ${invalid}`);
+        }
+    });
+
+    test("format in the largest exact unit and parse back", () => {
+        expect(formatDuration(0)).toBe("0");
+        expect(formatDuration(300000)).toBe("5m");
+        expect(formatDuration(90000)).toBe("90s");
+        expect(formatDuration(1500)).toBe("1500ms");
+        expect(formatDuration(86400000)).toBe("1d");
+        for (const ms of [0, 250, 30000, 5400000, 172800000]) {
+            expect(parseDuration(formatDuration(ms))).toBe(ms);
+        }
+    });
+});
+
+describe("setting names", () => {
+    const setting = (name: string) => SETTINGS.find(candidate => candidate.name === name)!;
+
+    test("environment variables and flags are derived from the name", () => {
+        expect(envName(setting("idleTimeout"))).toBe("BUNNEL_IDLE_TIMEOUT");
+        expect(flagName(setting("idleTimeout"))).toBe("--idle-timeout <duration>");
+        expect(flagName(setting("metrics"))).toBe("--metrics");
+        expect(flagName(setting("maxRequestBody"))).toBe("--max-request-body <size>");
+        expect(flagName(setting("port"))).toBe("-p, --port <number>");
+    });
+
+    test("every setting names a distinct option", () => {
+        expect(new Set(SETTINGS.map(({ option }) => option)).size).toBe(SETTINGS.length);
+        expect(new Set(SETTINGS.map(({ name }) => name)).size).toBe(SETTINGS.length);
+    });
+});
+
+describe("resolving", () => {
+    test("flags beat the environment, which beats the config file", () => {
+        const file = { idleTimeout: "1m", requestTimeout: "10s", maxLifetime: "1h" };
+        const env = { BUNNEL_IDLE_TIMEOUT: "2m", BUNNEL_REQUEST_TIMEOUT: "20s" };
+        const flags = { idleTimeout: "3m" };
+        expect(resolveConfig(file, env, flags)).toEqual({
+            idleTimeout: 180000,
+            requestTimeout: 20000,
+            maxLifetime: 3600000
+        });
+    });
+
+    test("empty values don't override", () => {
+        expect(resolveConfig({ baseDomain: "tunnels.example" }, { BUNNEL_BASE_DOMAIN: "" }, { baseDomain: undefined }))
+            .toEqual({ baseDomain: "tunnels.example" });
+    });
+
+    test("unset settings are left to the server's defaults", () => {
+        expect(resolveConfig(null, {}, {})).toEqual({});
+        expect(resolveConfig(null, { HOME: "/root", BUNNEL_UNKNOWN: "x" }, { printConfig: true })).toEqual({});
+    });
+
+    test("values are parsed by kind", () => {
+        expect(resolveConfig({
+            port: 8080,
+            tcpPorts: "20000 - 20100",
+            routing: ["path", "host"],
+            authTokens: "a, b,,c",
+            metrics: "true",
+            maxResponseBody: "100mb",
+            publicUrl: "https://tunnels.example"
+        }, { BUNNEL_ADMIN_PORT: "9000", BUNNEL_HEARTBEAT_MISSES: "5" }, {})).toEqual({
+            tunnelPort: 8080,
+            tcpPorts: { from: 20000, to: 20100 },
+            routing: ["path", "host"],
+            authTokens: ["a", "b", "c"],
+            metrics: true,
+            maxResponseBody: 100 * 1024 * 1024,
+            publicUrl: "https://tunnels.example",
+            adminPort: 9000,
+            heartbeatMisses: 5
+        });
+    });
+
+    test("repeatable flags keep every value", () => {
+        expect(resolveConfig(null, {}, { authToken: ["one", "two"], ca: ["a.pem"] }))
+            .toEqual({ authTokens: ["one", "two"], ca: ["a.pem"] });
+    });
+
+    test("unknown keys in a config file are refused", () => {
+        expect(() => resolveConfig({ idleTimout: "5m" }, {}, {})).toThrow("Unknown setting 'idleTimout' in config file");
+    });
+
+    test("invalid values name the setting and where they came from", () => {
+        expect(() => resolveConfig({ port: 70000 }, {}, {})).toThrow("Invalid port from config file");
+        expect(() => resolveConfig(null, { BUNNEL_IDLE_TIMEOUT: "soon" }, {})).toThrow("Invalid idleTimeout from BUNNEL_IDLE_TIMEOUT");
+        expect(() => resolveConfig(null, {}, { routing: "host,dns" })).toThrow("Invalid routing from --routing: unknown routing strategy 'dns'");
+        expect(() => resolveConfig(null, {}, { heartbeatMisses: "0" })).toThrow("Invalid heartbeatMisses from --heartbeat-misses");
+        expect(() => resolveConfig(null, {}, { tcpPorts: "30000-20000" })).toThrow("Invalid tcpPorts");
+        expect(() => resolveConfig(null, {}, { publicUrl: "ftp://tunnels.example" })).toThrow("Invalid publicUrl");
+        expect(() => resolveConfig({ metrics: "yes" }, {}, {})).toThrow("Invalid metrics from config file");
+        expect(() => resolveConfig({ baseDomain: { nested: true } }, {}, {})).toThrow("Invalid baseDomain from config file");
+    });
+
+    test("a certificate needs its key and the other way round, wherever they come from", () => {
+        expect(() => resolveConfig({ cert: "cert.pem" }, {}, {})).toThrow("TLS needs both cert and key");
+        expect(() => resolveConfig(null, { BUNNEL_KEY: "key.pem" }, {})).toThrow("TLS needs both cert and key");
+        const config = resolveConfig({ cert: "cert.pem" }, { BUNNEL_KEY: "key.pem" }, { ca: ["ca.pem"] });
+        expect(toServerOptions(config).tls).toEqual({ cert: "cert.pem", key: "key.pem", ca: ["ca.pem"] });
+        expect(toServerOptions(resolveConfig(null, {}, {})).tls).toBeUndefined();
+    });
+});
+
+describe("config files", () => {
+    const dir = mkdtempSync(join(tmpdir(), "bunnel-config-"));
+
+    afterAll(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    function write(name: string, text: string): string {
+        const path = join(dir, name);
+        writeFileSync(path, text);
+        return path;
+    }
+
+    test("JSON and TOML are read by their extension", () => {
+        expect(loadConfigFile(write("server.json", '{ "idleTimeout": "10m" }'))).toEqual({ idleTimeout: "10m" });
+        expect(loadConfigFile(write("server.toml", 'idleTimeout = "10m"\nrouting = ["host", "path"]\n')))
+            .toEqual({ idleTimeout: "10m", routing: ["host", "path"] });
+    });
+
+    test("other files, and files that aren't an object of settings, are refused", () => {
+        expect(() => loadConfigFile(write("server.yaml", "idleTimeout: 10m"))).toThrow("unsupported config file type '.yaml'");
+        expect(() => loadConfigFile(write("list.json", "[]"))).toThrow("expected an object of settings");
+        expect(() => loadConfigFile(write("broken.json", "{"))).toThrow(`Invalid config file ${join(dir, "broken.json")}`);
+    });
+});
+
+describe("printing", () => {
+    test("secrets are redacted, and only when set", () => {
+        const printed = JSON.parse(formatConfig(resolveConfig({ authTokens: ["one", "two"], adminToken: "admin" }, {}, {}), DEFAULT_OPTIONS));
+        expect(printed.authTokens).toEqual(["<redacted>", "<redacted>"]);
+        expect(printed.adminToken).toBe("<redacted>");
+        expect(printed.authSecret).toBe("");
+
+        const text = formatConfig(resolveConfig({ authSecret: "hmac-secret" }, {}, {}), DEFAULT_OPTIONS);
+        expect(text).not.toContain("hmac-secret");
+        expect(JSON.parse(text).authTokens).toEqual([]);
+    });
+
+    test("every setting is listed, defaults included, in units the config file accepts", () => {
+        const printed = JSON.parse(formatConfig(resolveConfig({ maxRequestBody: "10mb", tcpPorts: "20000" }, {}, {}), DEFAULT_OPTIONS));
+        // The TLS files have no defaults to list
+        expect(Object.keys(printed)).toEqual(SETTINGS.map(({ name }) => name).filter(name => !["cert", "key", "ca"].includes(name)));
+        expect(printed.idleTimeout).toBe("5m");
+        expect(printed.maxRequestBody).toBe("10mb");
+        expect(printed.tcpPorts).toBe("20000");
+        expect(resolveConfig({ ...printed, authTokens: [], adminToken: "", authSecret: "" }, {}, {}).idleTimeout).toBe(300000);
+    });
+});
@@ -0,0 +1,150 @@
+/**
+ * Tests for headers keeping their order and repeats through a tunnel, less the hop-by-hop ones.
+ * Run with: bun test test/headers.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { createServer } from "node:http";
+import type { IncomingMessage, Server as HttpServer } from "node:http";
+import { connect } from "node:net";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { headersToList, stripHopByHopHeaders } from "../packages/bunnel-server/src/server/protocol";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+describe("header lists", () => {
+    test("keep each Set-Cookie as its own entry", () => {
+        const headers = new Headers();
+        headers.append("set-cookie", "a=1; Path=/");
+        headers.append("content-type", "text/plain");
+        headers.append("set-cookie", "b=2, with a comma; Expires=Wed, 21 Oct 2015 07:28:00 GMT");
+        expect(headersToList(headers)).toEqual([
+            ["content-type", "text/plain"],
+            ["set-cookie", "a=1; Path=/"],
+            ["set-cookie", "b=2, with a comma; Expires=Wed, 21 Oct 2015 07:28:00 GMT"]
+        ]);
+    });
+
+    test("lose the hop-by-hop headers and nothing else", () => {
+        expect(stripHopByHopHeaders([
+            ["host", "example.com"],
+            ["connection", "keep-alive"],
+            ["keep-alive", "timeout=5"],
+            ["transfer-encoding", "chunked"],
+            ["te", "trailers"],
+            ["upgrade", "h2c"],
+            ["proxy-authorization", "Basic abc"],
+            ["x-kept", "1"],
+            ["x-kept", "2"]
+        ])).toEqual([["host", "example.com"], ["x-kept", "1"], ["x-kept", "2"]]);
+    });
+
+    test("lose the headers the Connection header names, in any case and however many", () => {
+        expect(stripHopByHopHeaders([
+            ["connection", "X-Private, close"],
+            ["x-private", "secret"],
+            ["connection", " x-other "],
+            ["x-other", "secret"],
+            ["close", "not really a header"],
+            ["x-public", "1"]
+        ])).toEqual([["x-public", "1"]]);
+    });
+
+    test("lose any extra headers asked for", () => {
+        expect(stripHopByHopHeaders([["content-length", "10"], ["expect", "100-continue"], ["etag", "x"]], ["content-length", "expect"]))
+            .toEqual([["etag", "x"]]);
+    });
+});
+
+describe("through a tunnel", () => {
+    const TUNNEL_PORT = 4822;
+
+    const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"] });
+    let local: HttpServer;
+    let client: TunnelClient;
+    let lastRequest: IncomingMessage | undefined;
+
+    /**
+     * Raw request, to send the hop-by-hop headers fetch would refuse
+     * @returns The status line
+     */
+    function rawRequest(headers: string[]): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const socket = connect(TUNNEL_PORT, "localhost", () => {
+                socket.write([
+                    "GET /echo HTTP/1.1",
+                    `Host: localhost:${TUNNEL_PORT}`,
+                    "X-Bunnel-Tunnel: headers",
+                    ...headers,
+                    "", ""
+                ].join("\r\n"));
+            });
+            socket.once("data", data => {
+                resolve(data.toString().split("\r\n")[0]);
+                socket.destroy();
+            });
+            socket.once("error", reject);
+        });
+    }
+
+    beforeAll(async () => {
+        tunnelServer.start();
+        local = createServer((req, res) => {
+            lastRequest = req;
+            if (req.url === "/login") {
+                res.setHeader("Set-Cookie", ["session=abc; HttpOnly", "theme=dark", "expires=1; Expires=Wed, 21 Oct 2015 07:28:00 GMT"]);
+                res.setHeader("Vary", ["Accept", "Cookie"]);
+                res.setHeader("Connection", "X-Local-Only");
+                res.setHeader("X-Local-Only", "secret");
+                res.setHeader("Keep-Alive", "timeout=5");
+            }
+            res.end("ok");
+        });
+        await new Promise<void>(resolve => local.listen(0, resolve));
+        client = new TunnelClient({
+            localServerUrl: `http://localhost:${(local.address() as { port: number }).port}`,
+            tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+            subdomain: "headers",
+            reconnect: false
+        });
+        await client.connect();
+    });
+
+    afterAll(() => {
+        client.disconnect();
+        local.close();
+        local.closeAllConnections();
+        tunnelServer.stop();
+    });
+
+    test("every cookie a login sets reaches the visitor", async () => {
+        const response = await fetch(`http://localhost:${TUNNEL_PORT}/login`, { headers: { "x-bunnel-tunnel": "headers" } });
+        expect(response.headers.getSetCookie()).toEqual([
+            "session=abc; HttpOnly",
+            "theme=dark",
+            "expires=1; Expires=Wed, 21 Oct 2015 07:28:00 GMT"
+        ]);
+        expect(response.headers.get("vary")).toBe("Accept, Cookie");
+        expect(response.headers.get("x-local-only")).toBeNull();
+        expect(response.headers.get("keep-alive")).toBeNull();
+        expect(await response.text()).toBe("ok");
+    });
+
+    // Bun.serve keeps only the last of a repeated request header, so they can't be sent here
+    test("request headers reach the local server, hop-by-hop ones don't", async () => {
+        expect(await rawRequest([
+            "X-List: first, second",
+            "Cookie: a=1; b=2",
+            "Connection: keep-alive, X-Visitor-Only",
+            "X-Visitor-Only: secret",
+            "TE: trailers"
+        ])).toBe("HTTP/1.1 200 OK");
+
+        const raw = lastRequest!.rawHeaders;
+        const names = raw.filter((_, i) => i % 2 === 0).map(name => name.toLowerCase());
+        const valuesOf = (name: string) => raw.filter((_, i) => i % 2 === 1 && raw[i - 1].toLowerCase() === name);
+        expect(valuesOf("x-list")).toEqual(["first, second"]);
+        expect(valuesOf("cookie")).toEqual(["a=1; b=2"]);
+        expect(names).not.toContain("x-visitor-only");
+        expect(names).not.toContain("te");
+        expect(names).not.toContain("x-bunnel-tunnel");
+    });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for the heartbeats that find dead control connections on both sides.
+ * Run with: bun test test/heartbeat.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { createHash } from "node:crypto";
+import { connect, createServer } from "node:net";
+import type { Server as NetServer, Socket } from "node:net";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+const HEARTBEAT_INTERVAL = 50;
+const HEARTBEAT_MISSES = 2;
+
+let local: Server;
+
+/**
+ * Unmasked text frame, as a server sends them
+ */
+function textFrame(text: string): Buffer {
+    const payload = Buffer.from(text);
+    return Buffer.concat([Buffer.from([0x81, 126, payload.length >> 8, payload.length & 0xff]), payload]);
+}
+
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error("Timed out waiting");
+        await Bun.sleep(10);
+    }
+}
+
+beforeAll(() => {
+    local = Bun.serve({ port: 0, fetch: () => new Response("ok") });
+});
+
+afterAll(() => {
+    local.stop(true);
+});
+
+describe("server", () => {
+    const TUNNEL_PORT = 4819;
+
+    const tunnelServer = new TunnelServer({
+        tunnelPort: TUNNEL_PORT,
+        routing: ["header"],
+        heartbeatInterval: HEARTBEAT_INTERVAL,
+        heartbeatMisses: HEARTBEAT_MISSES
+    });
+
+    /**
+     * Control connection that completes the handshake and then goes quiet,
+     * as one left half-open by a sleeping laptop would
+     * @returns The socket, and a count of the pings it's had
+     */
+    function silentControlConnection(subdomain: string): Promise<{ socket: Socket; pings: () => number }> {
+        return new Promise((resolve, reject) => {
+            let received = Buffer.alloc(0);
+            const socket = connect(TUNNEL_PORT, "localhost", () => {
+                socket.write([
+                    "GET / HTTP/1.1",
+                    `Host: localhost:${TUNNEL_PORT}`,
+                    "Upgrade: websocket",
+                    "Connection: Upgrade",
+                    "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                    "Sec-WebSocket-Version: 13",
+                    `X-Bunnel-Subdomain: ${subdomain}`,
+                    "", ""
+                ].join("\r\n"));
+            });
+            socket.on("data", data => {
+                received = Buffer.concat([received, data]);
+                if (received.toString("latin1").startsWith("HTTP/1.1 101")) {
+                    // Ping frames are empty, so count their two byte headers
+                    resolve({ socket, pings: () => received.toString("hex").split("8900").length - 1 });
+                }
+            });
+            socket.once("error", reject);
+        });
+    }
+
+    beforeAll(() => {
+        tunnelServer.start();
+    });
+
+    afterAll(() => {
+        tunnelServer.stop();
+    });
+
+    test("a control connection that stops answering pings is dropped and its tunnel goes offline", async () => {
+        const { socket, pings } = await silentControlConnection("half-open");
+        let closed = false;
+        socket.on("close", () => { closed = true; });
+
+        await waitFor(() => closed);
+        expect(pings()).toBe(HEARTBEAT_MISSES);
+        expect(tunnelServer["tunnels"].get("half-open")?.state).toBe("offline");
+    });
+
+    test("a client that answers pings stays online", async () => {
+        const client = new TunnelClient({
+            localServerUrl: `http://localhost:${local.port}`,
+            tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+            subdomain: "lively",
+            heartbeatInterval: 0,
+            reconnect: false
+        });
+        await client.connect();
+        await Bun.sleep(HEARTBEAT_INTERVAL * (HEARTBEAT_MISSES + 3));
+
+        expect(client.isConnected()).toBe(true);
+        expect(tunnelServer["tunnels"].get("lively")?.state).toBe("online");
+        const response = await fetch(`http://localhost:${TUNNEL_PORT}/`, { headers: { "x-bunnel-tunnel": "lively" } });
+        expect(await response.text()).toBe("ok");
+        client.disconnect();
+    });
+});
+
+describe("client", () => {
+    const TUNNEL_PORT = 4820;
+
+    const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"], heartbeatInterval: 0 });
+    let silentServer: NetServer;
+
+    beforeAll(() => {
+        tunnelServer.start();
+
+        // Accepts the control connection and says it's connected, then never answers a ping
+        silentServer = createServer(socket => {
+            socket.once("data", data => {
+                const key = /sec-websocket-key: (.*)\r\n/i.exec(data.toString())![1];
+                const accept = createHash("sha1").update(`${key}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest("base64");
+                socket.write([
+                    "HTTP/1.1 101 Switching Protocols",
+                    "Upgrade: websocket",
+                    "Connection: Upgrade",
+                    `Sec-WebSocket-Accept: ${accept}`,
+                    "", ""
+                ].join("\r\n"));
+                socket.write(textFrame(JSON.stringify({
+                    type: "connected",
+                    subdomain: "silent",
+                    resumeToken: "token",
+                    url: "http://silent.localhost"
+                })));
+            });
+            socket.on("error", () => {});
+        }).listen(0);
+    });
+
+    afterAll(() => {
+        silentServer.close();
+        tunnelServer.stop();
+    });
+
+    test("reports the round trip time of its pings", async () => {
+        const latencies: number[] = [];
+        const client = new TunnelClient({
+            localServerUrl: `http://localhost:${local.port}`,
+            tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+            heartbeatInterval: HEARTBEAT_INTERVAL,
+            onHeartbeat: latency => latencies.push(latency),
+            reconnect: false
+        });
+        expect(client.getLatency()).toBeNull();
+        await client.connect();
+
+        await waitFor(() => latencies.length >= 2);
+        expect(latencies.every(latency => latency >= 0 && latency < HEARTBEAT_INTERVAL)).toBe(true);
+        expect(client.getLatency()).toBe(latencies[latencies.length - 1]);
+        client.disconnect();
+    });
+
+    test("drops a tunnel server that stops answering pings and tries to reconnect", async () => {
+        const events: string[] = [];
+        const client = new TunnelClient({
+            localServerUrl: `http://localhost:${local.port}`,
+            tunnelServerUrl: `ws://localhost:${(silentServer.address() as { port: number }).port}`,
+            heartbeatInterval: HEARTBEAT_INTERVAL,
+            heartbeatMisses: HEARTBEAT_MISSES,
+            reconnectDelay: 10_000,
+            onReconnecting: attempt => events.push(`reconnecting ${attempt}`)
+        });
+        const connectedAt = Date.now();
+        expect((await client.connect()).subdomain).toBe("silent");
+
+        await waitFor(() => events.length > 0);
+        expect(events).toEqual(["reconnecting 1"]);
+        expect(client.isConnected()).toBe(false);
+        expect(Date.now() - connectedAt).toBeGreaterThanOrEqual(HEARTBEAT_INTERVAL * (HEARTBEAT_MISSES + 1) - 10);
+        client.disconnect();
+    });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for the server's rate and body size limits.
+ * Run with: bun test test/limits.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, spyOn, test } from "bun:test";
+import type { Server } from "bun";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { RateLimiter, formatBytes } from "../packages/bunnel-server/src/server/limits";
+import { formatSize, parseSize } from "../packages/bunnel-server/src/cli/config";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+describe("rate limiter", () => {
+    test("allows a second's worth of requests at once, then refills at the rate", () => {
+        const limiter = new RateLimiter(5);
+        for (let i = 0; i < 5; i++) {
+            expect(limiter.take("a", 0).allowed).toBe(true);
+        }
+        expect(limiter.take("a", 0)).toEqual({ allowed: false, retryAfter: 1, first: true });
+
+        // One request's worth comes back every 200ms
+        expect(limiter.take("a", 199).allowed).toBe(false);
+        expect(limiter.take("a", 200).allowed).toBe(true);
+        expect(limiter.take("a", 200).allowed).toBe(false);
+
+        // Never more than the burst, however long it's been
+        for (let i = 0; i < 5; i++) {
+            expect(limiter.take("a", 60000).allowed).toBe(true);
+        }
+        expect(limiter.take("a", 60000).allowed).toBe(false);
+    });
+
+    test("reports only the first request turned away in a row", () => {
+        const limiter = new RateLimiter(1);
+        expect(limiter.take("a", 0).allowed).toBe(true);
+        expect(limiter.take("a", 0).first).toBe(true);
+        expect(limiter.take("a", 10).first).toBe(false);
+        expect(limiter.take("a", 1010).allowed).toBe(true);
+        expect(limiter.take("a", 1010).first).toBe(true);
+    });
+
+    test("says how long until the next request would be allowed", () => {
+        const slow = new RateLimiter(1);
+        slow.take("a", 0);
+        expect(slow.take("a", 0).retryAfter).toBe(1);
+        expect(slow.take("a", 900).retryAfter).toBe(1);
+
+        const fast = new RateLimiter(100);
+        for (let i = 0; i < 100; i++) fast.take("a", 0);
+        expect(fast.take("a", 0).retryAfter).toBe(1);
+    });
+
+    test("keeps a bucket per key", () => {
+        const limiter = new RateLimiter(1);
+        expect(limiter.take("a", 0).allowed).toBe(true);
+        expect(limiter.take("a", 0).allowed).toBe(false);
+        expect(limiter.take("b", 0).allowed).toBe(true);
+    });
+
+    test("sweeping keeps buckets that are still refilling", () => {
+        const limiter = new RateLimiter(2);
+        limiter.take("a", 0);
+        limiter.take("a", 0);
+        limiter.sweep(100);
+        expect(limiter.take("a", 100).allowed).toBe(false);
+        limiter.sweep(5000);
+        expect(limiter.take("a", 5000).allowed).toBe(true);
+        expect(limiter.take("a", 5000).allowed).toBe(true);
+        expect(limiter.take("a", 5000).allowed).toBe(false);
+    });
+
+    test("forgetting a key starts it afresh", () => {
+        const limiter = new RateLimiter(1);
+        limiter.take("a", 0);
+        limiter.forget("a");
+        expect(limiter.take("a", 0).allowed).toBe(true);
+    });
+});
+
+describe("sizes", () => {
+    test("parse with or without a unit", () => {
+        expect(parseSize("512")).toBe(512);
+        expect(parseSize(512)).toBe(512);
+        expect(parseSize("64kb")).toBe(64 * 1024);
+        expect(parseSize("10MB")).toBe(10 * 1024 * 1024);
+        expect(parseSize("1.5 gb")).toBe(1.5 * 1024 ** 3);
+        expect(parseSize("0")).toBe(0);
+        for (const invalid of ["", "ten", "10xb", "-1", "1e6"]) {
+            expect(() => parseSize(invalid)).toThrow();
+        }
+    });
+
+    test("format in the largest exact unit", () => {
+        expect(formatSize(10 * 1024 * 1024)).toBe("10mb");
+        expect(formatSize(1536)).toBe("1536");
+        expect(formatSize(0)).toBe("0");
+        expect(parseSize(formatSize(3 * 1024 ** 3))).toBe(3 * 1024 ** 3);
+        expect(formatBytes(64 * 1024)).toBe("64KB");
+        expect(formatBytes(1000)).toBe("1000 bytes");
+    });
+});
+
+describe("body size limits", () => {
+    const TUNNEL_PORT = 4812;
+    const MAX_REQUEST_BODY = 1024;
+    const MAX_RESPONSE_BODY = 64 * 1024;
+
+    const tunnelServer = new TunnelServer({
+        tunnelPort: TUNNEL_PORT,
+        routing: ["header"],
+        maxRequestBody: MAX_REQUEST_BODY,
+        maxResponseBody: MAX_RESPONSE_BODY
+    });
+    const seen: string[] = [];  // Requests that reached the local server
+    let local: Server;
+    let client: TunnelClient;
+
+    function tunnelFetch(path: string, init: RequestInit = {}): Promise<Response> {
+        return fetch(`http://localhost:${TUNNEL_PORT}${path}`, {
+            ...init,
+            headers: { ...init.headers, "x-bunnel-tunnel": "limits" }
+        });
+    }
+
+    function chunkedBody(chunks: number, size: number): ReadableStream<Uint8Array> {
+        let sent = 0;
+        return new ReadableStream({
+            pull(controller) {
+                if (sent++ === chunks) {
+                    controller.close();
+                } else {
+                    controller.enqueue(new Uint8Array(size).fill(120));
+                }
+            }
+        });
+    }
+
+    beforeAll(async () => {
+        tunnelServer.start();
+        local = Bun.serve({
+            port: 0,
+            async fetch(req) {
+                const url = new URL(req.url);
+                seen.push(url.pathname);
+                if (url.pathname === "/big") {
+                    return new Response(chunkedBody(8, 16 * 1024));
+                }
+                return new Response(await req.arrayBuffer());
+            }
+        });
+        client = new TunnelClient({
+            localServerUrl: `http://localhost:${local.port}`,
+            tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+            subdomain: "limits",
+            reconnect: false
+        });
+        await client.connect();
+    });
+
+    afterAll(() => {
+        client.disconnect();
+        local.stop(true);
+        tunnelServer.stop();
+    });
+
+    test("bodies within the limit are passed on", async () => {
+        const response = await tunnelFetch("/echo", { method: "POST", body: "x".repeat(MAX_REQUEST_BODY) });
+        expect(response.status).toBe(200);
+        expect((await response.text()).length).toBe(MAX_REQUEST_BODY);
+    });
+
+    test("a Content-Length over the limit is answered 413 without reaching the client", async () => {
+        const response = await tunnelFetch("/declared", { method: "POST", body: "x".repeat(MAX_REQUEST_BODY + 1) });
+        expect(response.status).toBe(413);
+        expect(response.headers.get("x-bunnel-limit")).toBe("request_body");
+        expect(await response.text()).toContain("1KB");
+        expect(seen).not.toContain("/declared");
+    });
+
+    test("a streamed body is answered 413 once it goes over the limit", async () => {
+        const response = await tunnelFetch("/streamed", { method: "POST", body: chunkedBody(4, 512) });
+        expect(response.status).toBe(413);
+        expect(response.headers.get("x-bunnel-limit")).toBe("request_body");
+    });
+
+    test("a response over the limit ends quietly where it was cut off", async () => {
+        const escaped: unknown[] = [];
+        const collect = (error: unknown) => escaped.push(error);
+        process.on("uncaughtException", collect);
+        process.on("unhandledRejection", collect);
+        const consoleError = spyOn(console, "error");
+        try {
+            const response = await tunnelFetch("/big");
+            expect(response.status).toBe(200);
+            const body = await response.arrayBuffer();
+            expect(body.byteLength).toBeGreaterThan(0);
+            expect(body.byteLength).toBeLessThanOrEqual(MAX_RESPONSE_BODY);
+            await Bun.sleep(50);
+            expect(escaped).toEqual([]);
+            expect(consoleError).not.toHaveBeenCalled();
+        } finally {
+            process.off("uncaughtException", collect);
+            process.off("unhandledRejection", collect);
+            consoleError.mockRestore();
+        }
+    });
+
+    test("the tunnel carries on after cutting requests off", async () => {
+        const response = await tunnelFetch("/after", { method: "POST", body: "still here" });
+        expect(await response.text()).toBe("still here");
+    });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests for the Prometheus metrics, how they're rendered and who may read them.
+ * Run with: bun test test/metrics.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { Counter, Gauge, Histogram, TunnelMetrics } from "../packages/bunnel-server/src/server/metrics";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+const ADMIN_TOKEN = "metrics-secret";
+
+let local: Server;
+
+beforeAll(() => {
+    local = Bun.serve({
+        port: 0,
+        fetch(req) {
+            // Never answers
+            if (new URL(req.url).pathname === "/hang") return new Promise<Response>(() => {});
+            return new Response("ok");
+        }
+    });
+});
+
+afterAll(() => {
+    local.stop(true);
+});
+
+describe("rendering", () => {
+    test("counters and gauges come with their help, type and labels", () => {
+        const counter = new Counter("requests_total", "Requests", ["tunnel", "status"]);
+        counter.inc({ tunnel: "app", status: "200" });
+        counter.inc({ tunnel: "app", status: "200" }, 2);
+        counter.inc({ tunnel: "app", status: "404" });
+        expect(counter.render()).toEqual([
+            "# HELP requests_total Requests",
+            "# TYPE requests_total counter",
+            'requests_total{tunnel="app",status="200"} 3',
+            'requests_total{tunnel="app",status="404"} 1'
+        ]);
+
+        const gauge = new Gauge("tunnels", "Tunnels", ["state"]);
+        gauge.set({ state: "online" }, 4);
+        gauge.set({ state: "online" }, 2);
+        expect(gauge.render().slice(1)).toEqual(["# TYPE tunnels gauge", 'tunnels{state="online"} 2']);
+        expect(new Counter("opened_total", "Opened").render()).toEqual(["# HELP opened_total Opened", "# TYPE opened_total counter"]);
+    });
+
+    test("label values are escaped", () => {
+        const counter = new Counter("odd_total", "Odd", ["value"]);
+        counter.inc({ value: 'a "quoted" back\\slash\nnewline' });
+        expect(counter.render()[2]).toBe('odd_total{value="a \\"quoted\\" back\\\\slash\\nnewline"} 1');
+    });
+
+    test("histograms count into cumulative buckets, with a sum and count", () => {
+        const histogram = new Histogram("latency_seconds", "Latency", ["tunnel"], [0.1, 1]);
+        for (const value of [0.05, 0.1, 0.5, 3]) {
+            histogram.observe({ tunnel: "app" }, value);
+        }
+        expect(histogram.render().slice(2)).toEqual([
+            'latency_seconds_bucket{tunnel="app",le="0.1"} 2',
+            'latency_seconds_bucket{tunnel="app",le="1"} 3',
+            'latency_seconds_bucket{tunnel="app",le="+Inf"} 4',
+            'latency_seconds_sum{tunnel="app"} 3.65',
+            'latency_seconds_count{tunnel="app"} 4'
+        ]);
+    });
+
+    test("tunnels past the label limit share one, and closed ones make room", () => {
+        const metrics = new TunnelMetrics(2);
+        expect(["a", "b", "c"].map(subdomain => metrics.labelFor(subdomain))).toEqual(["a", "b", "other"]);
+        metrics.requests.inc({ tunnel: "a", status: "200" });
+        metrics.latency.observe({ tunnel: "a" }, 0.2);
+        metrics.requests.inc({ tunnel: "b", status: "200" });
+
+        metrics.release("a");
+        const rendered = metrics.render();
+        expect(rendered).not.toContain('tunnel="a"');
+        expect(rendered).toContain('bunnel_http_requests_total{tunnel="b",status="200"} 1');
+        expect(metrics.labelFor("d")).toBe("d");
+
+        // Releasing a tunnel that shared the label leaves the others alone
+        metrics.release("c");
+        expect(metrics.labelFor("e")).toBe("other");
+    });
+});
+
+describe("on the tunnel port", () => {
+    const TUNNEL_PORT = 4846;
+
+    const tunnelServer = new TunnelServer({
+        tunnelPort: TUNNEL_PORT,
+        routing: ["header"],
+        adminToken: ADMIN_TOKEN,
+        metrics: true,
+        metricsTunnelLabels: 1,
+        requestTimeout: 100
+    });
+    const clients: TunnelClient[] = [];
+
+    function scrape(token = ADMIN_TOKEN): Promise<Response> {
+        return fetch(`http://localhost:${TUNNEL_PORT}/metrics`, { headers: { authorization: `Bearer ${token}` } });
+    }
+
+    function tunnelFetch(subdomain: string, path = "/"): Promise<Response> {
+        return fetch(`http://localhost:${TUNNEL_PORT}${path}`, { headers: { "x-bunnel-tunnel": subdomain } });
+    }
+
+    beforeAll(async () => {
+        tunnelServer.start();
+        for (const subdomain of ["labelled", "unlabelled"]) {
+            const client = new TunnelClient({
+                localServerUrl: `http://localhost:${local.port}`,
+                tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+                subdomain,
+                reconnect: false
+            });
+            await client.connect();
+            clients.push(client);
+        }
+    });
+
+    afterAll(() => {
+        for (const client of clients) {
+            client.disconnect();
+        }
+        tunnelServer.stop();
+    });
+
+    test("need the admin token", async () => {
+        const response = await scrape("wrong");
+        expect(response.status).toBe(401);
+        expect((await response.json()).error).toBe("unauthorized");
+    });
+
+    test("count tunnels, requests, timeouts and bytes", async () => {
+        for (const path of ["/", "/"]) {
+            expect(await (await tunnelFetch("labelled", path)).text()).toBe("ok");
+        }
+        expect((await tunnelFetch("unlabelled")).status).toBe(200);
+        expect((await tunnelFetch("labelled", "/hang")).status).toBe(504);
+
+        const response = await scrape();
+        expect(response.status).toBe(200);
+        expect(response.headers.get("content-type")).toBe("text/plain; version=0.0.4; charset=utf-8");
+        const lines = (await response.text()).split("\n");
+        expect(lines).toContain('bunnel_tunnels{state="online"} 2');
+        expect(lines).toContain('bunnel_tunnels{state="offline"} 0');
+        expect(lines).toContain("bunnel_tunnels_opened_total 2");
+        expect(lines).toContain('bunnel_http_requests_total{tunnel="labelled",status="200"} 2');
+        expect(lines).toContain('bunnel_http_requests_total{tunnel="other",status="200"} 1');
+        expect(lines).toContain('bunnel_http_request_timeouts_total{tunnel="labelled",limit="default"} 1');
+        expect(lines).toContain('bunnel_http_request_duration_seconds_count{tunnel="labelled"} 3');
+        expect(lines.find(line => line.startsWith('bunnel_sent_bytes_total{tunnel="labelled",protocol="http"}'))).toBeDefined();
+    });
+});
+
+describe("without an admin token", () => {
+    const TUNNEL_PORT = 4847;
+    const ADMIN_PORT = 4848;
+
+    test("are kept off the public tunnel port", async () => {
+        const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"], metrics: true });
+        tunnelServer.start();
+        const response = await fetch(`http://localhost:${TUNNEL_PORT}/metrics`);
+        tunnelServer.stop();
+        expect(response.status).toBe(404);
+    });
+
+    test("are served on an admin port of their own, and nothing else is", async () => {
+        const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"], metrics: true, adminPort: ADMIN_PORT });
+        tunnelServer.start();
+        const metrics = await fetch(`http://localhost:${ADMIN_PORT}/metrics`);
+        const adminApi = await fetch(`http://localhost:${ADMIN_PORT}/admin/tunnels`);
+        const publicMetrics = await fetch(`http://localhost:${TUNNEL_PORT}/metrics`);
+        tunnelServer.stop();
+
+        expect(metrics.status).toBe(200);
+        expect(await metrics.text()).toContain("# TYPE bunnel_tunnels gauge");
+        expect(adminApi.status).toBe(404);
+        expect(publicMetrics.status).toBe(404);
+    });
+});
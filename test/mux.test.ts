@@ -0,0 +1,209 @@
+/**
+ * Tests for the multiplexer and stream windows shared by the server and client.
+ * Run with: bun test test/mux.test.ts
+ */
+import { describe, expect, test } from "bun:test";
+import { Multiplexer, ReceiveWindow, SendWindow } from "../packages/bunnel-server/src/server/mux";
+import { FrameType, STREAM_WINDOW, decodeFrame, encodeFrame, encodeWindowUpdate } from "../packages/bunnel-server/src/server/protocol";
+
+/**
+ * Transport that records what was written, and only "sends" it when told to
+ */
+function fakeTransport() {
+    const written: Uint8Array[] = [];
+    const drained: string[] = [];
+    let buffered = 0;
+    return {
+        written,
+        drained,
+        ids: () => written.map(frame => decodeFrame(frame).id),
+        send: () => { buffered = 0; },
+        transport: {
+            write: (frame: Uint8Array) => {
+                written.push(frame);
+                buffered += frame.length;
+            },
+            bufferedAmount: () => buffered,
+            drained: (streamId: string) => drained.push(streamId)
+        }
+    };
+}
+
+const body = (id: string, size: number) => encodeFrame(FrameType.ResponseBody, id, new Uint8Array(size));
+
+describe("multiplexer", () => {
+    test("writes straight through while the connection keeps up", () => {
+        const fake = fakeTransport();
+        const mux = new Multiplexer(fake.transport);
+        mux.send("a", body("a", 10));
+        expect(fake.ids()).toEqual(["a"]);
+        expect(mux.queued("a")).toBe(0);
+        expect(fake.drained).toEqual(["a"]);
+    });
+
+    test("holds frames back while the connection is backed up, then takes streams in turn", () => {
+        const fake = fakeTransport();
+        const mux = new Multiplexer(fake.transport);
+        mux.send("big", body("big", 300 * 1024));
+        for (let i = 0; i < 3; i++) mux.send("big", body("big", 1024));
+        mux.send("small", body("small", 1024));
+        mux.send("other", body("other", 1024));
+
+        expect(fake.ids()).toEqual(["big"]);
+        expect(mux.queued("big")).toBe(3 * (1024 + 5));
+        expect(mux.queued("small")).toBe(1024 + 7);
+
+        fake.send();
+        mux.flush();
+        expect(fake.ids()).toEqual(["big", "big", "small", "other", "big", "big"]);
+        expect(mux.queued("big")).toBe(0);
+        expect(fake.drained).toEqual(["big", "small", "other", "big"]);
+    });
+
+    test("window updates skip the queue", () => {
+        const fake = fakeTransport();
+        const mux = new Multiplexer(fake.transport);
+        mux.send("a", body("a", 300 * 1024));
+        mux.send("a", body("a", 10));
+        mux.send("b", encodeWindowUpdate("b", 1024));
+        expect(fake.written.map(frame => frame[0])).toEqual([FrameType.ResponseBody, FrameType.WindowUpdate]);
+        expect(mux.queued("b")).toBe(0);
+    });
+
+    test("splits body data into chunks that can interleave", () => {
+        const fake = fakeTransport();
+        const mux = new Multiplexer(fake.transport);
+        mux.sendData(FrameType.RequestBody, "a", new Uint8Array(150 * 1024));
+        const sizes = fake.written.map(frame => decodeFrame(frame).payload.length);
+        expect(sizes).toEqual([64 * 1024, 64 * 1024, 22 * 1024]);
+    });
+
+    test("dropped and cleared streams are forgotten", () => {
+        const fake = fakeTransport();
+        const mux = new Multiplexer(fake.transport);
+        mux.send("a", body("a", 300 * 1024));
+        mux.send("a", body("a", 10));
+        mux.send("b", body("b", 10));
+        mux.drop("a");
+        expect(mux.queued("a")).toBe(0);
+
+        fake.send();
+        mux.flush();
+        expect(fake.ids()).toEqual(["a", "b"]);
+
+        mux.send("c", body("c", 300 * 1024));
+        mux.send("c", body("c", 10));
+        mux.clear();
+        fake.send();
+        mux.flush();
+        expect(fake.ids()).toEqual(["a", "b", "c"]);
+        expect(mux.queued("c")).toBe(0);
+    });
+
+    test("a write that flushes again doesn't reorder frames", () => {
+        const written: string[] = [];
+        const mux: Multiplexer = new Multiplexer({
+            write: (frame) => {
+                written.push(decodeFrame(frame).id);
+                mux.flush();
+            },
+            bufferedAmount: () => 0
+        });
+        mux.send("a", body("a", 10));
+        mux.send("b", body("b", 10));
+        expect(written).toEqual(["a", "b"]);
+    });
+});
+
+describe("send window", () => {
+    test("is open until a window's worth is unacknowledged", async () => {
+        const window = new SendWindow();
+        window.consume(STREAM_WINDOW - 1);
+        expect(window.open).toBe(true);
+        window.consume(1);
+        expect(window.open).toBe(false);
+
+        let resumed = false;
+        const waiting = window.wait().then(() => { resumed = true; });
+        window.ack(0);
+        await Bun.sleep(0);
+        expect(resumed).toBe(false);
+
+        window.ack(1);
+        await waiting;
+        expect(resumed).toBe(true);
+    });
+
+    test("wakes every waiter once there's room", async () => {
+        const window = new SendWindow();
+        window.consume(STREAM_WINDOW);
+        const waiting = [window.wait(), window.wait()];
+        window.ack(STREAM_WINDOW);
+        await Promise.all(waiting);
+        await window.wait();
+    });
+
+    test("closing releases waiters and stays open", async () => {
+        const window = new SendWindow();
+        window.consume(2 * STREAM_WINDOW);
+        const waiting = window.wait();
+        window.close();
+        await waiting;
+        expect(window.closed).toBe(true);
+        expect(window.open).toBe(true);
+    });
+});
+
+describe("receive window", () => {
+    const bytes = (...values: number[]) => new Uint8Array(values);
+
+    test("reports bytes consumed as they're read, not as they arrive", async () => {
+        const consumed: number[] = [];
+        const window = new ReceiveWindow(count => consumed.push(count));
+        window.push(bytes(1, 2, 3));
+        window.push(bytes(4));
+        expect(consumed).toEqual([]);
+
+        const reader = window.stream.getReader();
+        expect((await reader.read()).value).toEqual(bytes(1, 2, 3));
+        expect(consumed).toEqual([3]);
+        expect((await reader.read()).value).toEqual(bytes(4));
+
+        const pending = reader.read();
+        window.push(bytes(5));
+        expect((await pending).value).toEqual(bytes(5));
+        window.end();
+        expect((await reader.read()).done).toBe(true);
+        expect(consumed).toEqual([3, 1, 1]);
+    });
+
+    test("a failure reaches the reader", async () => {
+        const window = new ReceiveWindow(() => {});
+        window.error(new Error("Tunnel connection lost"));
+        await expect(window.stream.getReader().read()).rejects.toThrow("Tunnel connection lost");
+    });
+
+    test("cancelling consumes what's buffered and whatever else arrives", async () => {
+        const consumed: number[] = [];
+        let cancelled = 0;
+        const window = new ReceiveWindow(count => consumed.push(count), () => cancelled++);
+        window.push(bytes(1, 2));
+        window.push(bytes(3));
+        await window.stream.cancel();
+        expect(cancelled).toBe(1);
+        expect(consumed).toEqual([3]);
+
+        window.push(bytes(4, 5));
+        expect(consumed).toEqual([3, 2]);
+    });
+
+    test("a discarded body errors for a reader still at it", async () => {
+        const consumed: number[] = [];
+        const window = new ReceiveWindow(count => consumed.push(count));
+        window.push(bytes(1, 2));
+        const reader = window.stream.getReader();
+        window.discard();
+        expect(consumed).toEqual([2]);
+        await expect(reader.read()).rejects.toThrow("Body discarded");
+    });
+});
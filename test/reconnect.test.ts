@@ -0,0 +1,143 @@
+/**
+ * Tests for clients reconnecting and reclaiming their subdomain.
+ * Run with: bun test test/reconnect.test.ts
+ */
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import type { Server } from "bun";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+import type { ConnectionInfo } from "../packages/bunnel/src/client/index";
+
+const TUNNEL_PORT = 4816;
+const GRACE_PORT = 4817;
+
+const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"] });
+const graceServer = new TunnelServer({ tunnelPort: GRACE_PORT, routing: ["header"], reconnectGrace: 200 });
+let local: Server;
+const clients: TunnelClient[] = [];
+
+function startClient(port: number, reconnectDelay: number, events: string[] = []): TunnelClient {
+    const client = new TunnelClient({
+        localServerUrl: `http://localhost:${local.port}`,
+        tunnelServerUrl: `ws://localhost:${port}`,
+        reconnectDelay,
+        maxReconnectDelay: reconnectDelay,
+        onReconnecting: (attempt) => events.push(`reconnecting ${attempt}`),
+        onReconnected: (info) => events.push(`reconnected ${info.subdomain}`),
+        onClosed: (reason) => events.push(`closed ${reason}`)
+    });
+    clients.push(client);
+    return client;
+}
+
+/**
+ * Cut the control connection as a network failure would
+ */
+function dropConnection(client: TunnelClient): void {
+    client["ws"]!.terminate();
+}
+
+function tunnelFetch(port: number, subdomain: string): Promise<Response> {
+    return fetch(`http://localhost:${port}/`, { headers: { "x-bunnel-tunnel": subdomain } });
+}
+
+/**
+ * Open a control connection by hand, to present chosen resume credentials
+ */
+function rawControlConnection(port: number, headers: Record<string, string>): Promise<{ ws: WebSocket; subdomain: string }> {
+    const ws = new WebSocket(`ws://localhost:${port}`, { headers } as unknown as string[]);
+    return new Promise((resolve, reject) => {
+        ws.onmessage = (event) => {
+            const message = JSON.parse(String(event.data));
+            if (message.type === "connected") resolve({ ws, subdomain: message.subdomain });
+        };
+        ws.onerror = () => reject(new Error("Control connection failed"));
+    });
+}
+
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error("Timed out waiting");
+        await Bun.sleep(20);
+    }
+}
+
+beforeAll(() => {
+    tunnelServer.start();
+    graceServer.start();
+    local = Bun.serve({ port: 0, fetch: () => new Response("ok") });
+});
+
+afterAll(() => {
+    for (const client of clients) {
+        client.disconnect();
+    }
+    local.stop(true);
+    tunnelServer.stop();
+    graceServer.stop();
+});
+
+test("a dropped client reconnects to the same subdomain", async () => {
+    const events: string[] = [];
+    const client = startClient(TUNNEL_PORT, 50, events);
+    const { subdomain } = await client.connect();
+
+    dropConnection(client);
+    await waitFor(() => events.includes(`reconnected ${subdomain}`));
+    expect(events).toEqual(["reconnecting 1", `reconnected ${subdomain}`]);
+
+    const response = await tunnelFetch(TUNNEL_PORT, subdomain);
+    expect(await response.text()).toBe("ok");
+});
+
+test("visitors arriving while the client reconnects are answered once it's back", async () => {
+    const events: string[] = [];
+    const client = startClient(TUNNEL_PORT, 300, events);
+    const { subdomain } = await client.connect();
+
+    dropConnection(client);
+    await waitFor(() => events.includes("reconnecting 1"));
+    const response = await tunnelFetch(TUNNEL_PORT, subdomain);
+    expect(response.status).toBe(200);
+    expect(events).toContain(`reconnected ${subdomain}`);
+});
+
+test("a resume with the wrong token gets a new subdomain and leaves the tunnel alone", async () => {
+    const client = startClient(TUNNEL_PORT, 50);
+    const { subdomain } = await client.connect();
+
+    for (const resume of [`${subdomain}.not-the-token`, `${subdomain}.`, subdomain, "unknown.token"]) {
+        const raw = await rawControlConnection(TUNNEL_PORT, { "x-bunnel-resume": resume });
+        expect(raw.subdomain).not.toBe(subdomain);
+        raw.ws.close();
+    }
+    expect(await (await tunnelFetch(TUNNEL_PORT, subdomain)).text()).toBe("ok");
+});
+
+test("a resume token is only good for the connection that was last handed it", async () => {
+    const client = startClient(TUNNEL_PORT, 50);
+    const { subdomain } = await client.connect();
+    const firstToken = client["session"]!.resumeToken;
+
+    dropConnection(client);
+    await waitFor(() => client.isConnected() && client["session"]!.resumeToken !== firstToken);
+
+    const raw = await rawControlConnection(TUNNEL_PORT, { "x-bunnel-resume": `${subdomain}.${firstToken}` });
+    expect(raw.subdomain).not.toBe(subdomain);
+    raw.ws.close();
+});
+
+test("a client back after the grace period gets a new subdomain", async () => {
+    const events: string[] = [];
+    const client = startClient(GRACE_PORT, 600, events);
+    const first: ConnectionInfo = await client.connect();
+
+    dropConnection(client);
+    await waitFor(() => events.some(event => event.startsWith("reconnected")));
+    const [, subdomain] = events.find(event => event.startsWith("reconnected"))!.split(" ");
+    expect(subdomain).not.toBe(first.subdomain);
+
+    expect((await tunnelFetch(GRACE_PORT, first.subdomain)).status).toBe(404);
+    expect(await (await tunnelFetch(GRACE_PORT, subdomain)).text()).toBe("ok");
+});
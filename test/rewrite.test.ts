@@ -0,0 +1,133 @@
+/**
+ * Tests for the client's Host, redirect and cookie domain rewriting.
+ * Run with: bun test test/rewrite.test.ts
+ */
+import { describe, expect, test } from "bun:test";
+import { localUrlFor, rewriteRequestHeaders, rewriteResponseHeaders } from "../packages/bunnel/src/client/rewrite";
+import type { HeaderList } from "../packages/bunnel/src/client/protocol";
+
+const LOCAL_SERVER = "http://localhost:3000";
+
+describe("host header modes", () => {
+    test("preserve leaves the app seeing the tunnel URL", () => {
+        expect(localUrlFor("preserve", LOCAL_SERVER)).toBeNull();
+    });
+
+    test("rewrite uses the local server's own host and port", () => {
+        expect(localUrlFor("rewrite", LOCAL_SERVER)?.href).toBe("http://localhost:3000/");
+        expect(localUrlFor("rewrite", "https://127.0.0.1:8443/app")?.host).toBe("127.0.0.1:8443");
+    });
+
+    test("a fixed value replaces the host, port included", () => {
+        expect(localUrlFor("myapp.test", LOCAL_SERVER)?.host).toBe("myapp.test");
+        expect(localUrlFor("myapp.test:8080", LOCAL_SERVER)?.host).toBe("myapp.test:8080");
+        expect(localUrlFor("myapp.test", "https://localhost:8443/app")?.href).toBe("https://myapp.test/app");
+    });
+});
+
+describe("request headers", () => {
+    const mapping = {
+        tunnel: new URL("https://abc.tunnel.dev/"),
+        local: new URL(LOCAL_SERVER)
+    };
+    const pathMapping = {
+        tunnel: new URL("https://tunnel.dev/t/abc/"),
+        local: new URL(LOCAL_SERVER)
+    };
+
+    test("Host points at the local server", () => {
+        expect(rewriteRequestHeaders([["host", "abc.tunnel.dev"]], mapping)).toEqual([["host", "localhost:3000"]]);
+        const fixed = { tunnel: mapping.tunnel, local: localUrlFor("myapp.test", LOCAL_SERVER)! };
+        expect(rewriteRequestHeaders([["host", "abc.tunnel.dev"]], fixed)).toEqual([["host", "myapp.test"]]);
+    });
+
+    test("Origin is rewritten only when it's the tunnel's", () => {
+        expect(rewriteRequestHeaders([["origin", "https://abc.tunnel.dev"]], mapping)).toEqual([["origin", "http://localhost:3000"]]);
+        expect(rewriteRequestHeaders([["origin", "https://tunnel.dev"]], pathMapping)).toEqual([["origin", "http://localhost:3000"]]);
+        expect(rewriteRequestHeaders([["origin", "https://evil.example"]], mapping)).toEqual([["origin", "https://evil.example"]]);
+        expect(rewriteRequestHeaders([["origin", "http://abc.tunnel.dev"]], mapping)).toEqual([["origin", "http://abc.tunnel.dev"]]);
+    });
+
+    test("Referer keeps its path, query and fragment", () => {
+        expect(rewriteRequestHeaders([["referer", "https://abc.tunnel.dev/page?q=1#top"]], mapping))
+            .toEqual([["referer", "http://localhost:3000/page?q=1#top"]]);
+        expect(rewriteRequestHeaders([["referer", "https://tunnel.dev/t/abc/page"]], pathMapping))
+            .toEqual([["referer", "http://localhost:3000/page"]]);
+        expect(rewriteRequestHeaders([["referer", "https://tunnel.dev/t/abc"]], pathMapping))
+            .toEqual([["referer", "http://localhost:3000/"]]);
+    });
+
+    test("a Referer from elsewhere or another tunnel's path is left alone", () => {
+        for (const referer of ["https://other.example/page", "https://tunnel.dev/t/abcdef/page", "https://abc.tunnel.dev:8443/", "not a url"]) {
+            const mappingFor = referer.includes("/t/") ? pathMapping : mapping;
+            expect(rewriteRequestHeaders([["referer", referer]], mappingFor)).toEqual([["referer", referer]]);
+        }
+    });
+
+    test("other headers keep their order and repeats", () => {
+        const headers: HeaderList = [["accept", "*/*"], ["host", "abc.tunnel.dev"], ["cookie", "a=1"], ["cookie", "b=2"]];
+        expect(rewriteRequestHeaders(headers, mapping))
+            .toEqual([["accept", "*/*"], ["host", "localhost:3000"], ["cookie", "a=1"], ["cookie", "b=2"]]);
+    });
+});
+
+describe("redirects", () => {
+    const tunnel = new URL("https://abc.tunnel.dev/");
+    const pathTunnel = new URL("https://tunnel.dev/t/abc/");
+    const locals = [new URL(LOCAL_SERVER)];
+
+    const location = (value: string, to = tunnel, from = locals) =>
+        rewriteResponseHeaders([["location", value]], to, from)[0][1];
+
+    test("absolute redirects to the local server point back at the tunnel", () => {
+        expect(location("http://localhost:3000/login?next=%2F")).toBe("https://abc.tunnel.dev/login?next=%2F");
+        expect(location("http://localhost:3000")).toBe("https://abc.tunnel.dev/");
+        expect(location("http://localhost:3000/a", pathTunnel)).toBe("https://tunnel.dev/t/abc/a");
+    });
+
+    test("the port has to match", () => {
+        expect(location("http://localhost:4000/login")).toBe("http://localhost:4000/login");
+        expect(location("http://localhost/login")).toBe("http://localhost/login");
+    });
+
+    test("redirects to any of the app's own URLs are rewritten", () => {
+        const both = [new URL(LOCAL_SERVER), new URL("http://myapp.test")];
+        expect(location("http://myapp.test/home", tunnel, both)).toBe("https://abc.tunnel.dev/home");
+    });
+
+    test("redirects elsewhere are left alone", () => {
+        expect(location("https://accounts.example/oauth")).toBe("https://accounts.example/oauth");
+    });
+
+    test("relative redirects only gain the path prefix under path routing", () => {
+        expect(location("/login")).toBe("/login");
+        expect(location("login")).toBe("login");
+        expect(location("/login", pathTunnel)).toBe("/t/abc/login");
+        expect(location("login", pathTunnel)).toBe("login");
+        expect(location("//cdn.example/x", pathTunnel)).toBe("//cdn.example/x");
+    });
+});
+
+describe("cookie domains", () => {
+    const tunnel = new URL("https://abc.tunnel.dev/");
+    const locals = [new URL(LOCAL_SERVER), new URL("http://myapp.test")];
+
+    const cookie = (value: string) => rewriteResponseHeaders([["set-cookie", value]], tunnel, locals)[0][1];
+
+    test("the app's own domain becomes the tunnel's, with or without a leading dot", () => {
+        expect(cookie("sid=1; Domain=localhost; Path=/")).toBe("sid=1; Domain=abc.tunnel.dev; Path=/");
+        expect(cookie("sid=1; Domain=.localhost; Path=/")).toBe("sid=1; Domain=abc.tunnel.dev; Path=/");
+        expect(cookie("sid=1; path=/; domain=.MyApp.test")).toBe("sid=1; path=/; domain=abc.tunnel.dev");
+    });
+
+    test("cookies without a domain or for other domains are left alone", () => {
+        expect(cookie("sid=1; Path=/; HttpOnly")).toBe("sid=1; Path=/; HttpOnly");
+        expect(cookie("sid=1; Domain=example.com")).toBe("sid=1; Domain=example.com");
+        expect(cookie("domain=localhost; Path=/")).toBe("domain=localhost; Path=/");
+    });
+
+    test("each Set-Cookie header is rewritten on its own", () => {
+        expect(rewriteResponseHeaders([["set-cookie", "a=1; Domain=localhost"], ["set-cookie", "b=2"]], tunnel, locals))
+            .toEqual([["set-cookie", "a=1; Domain=abc.tunnel.dev"], ["set-cookie", "b=2"]]);
+    });
+});
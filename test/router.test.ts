@@ -0,0 +1,131 @@
+/**
+ * Tests for the ways visitor requests are routed to tunnels.
+ * Run with: bun test test/router.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server } from "bun";
+import TunnelServer, { headerRouter, hostRouter, pathRouter } from "../packages/bunnel-server/src/server/server";
+import type { TunnelRouter } from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+function match(router: TunnelRouter, url: string, headers: Record<string, string> = {}) {
+    const req = new Request(url, { headers });
+    return router.match(req, new URL(req.url));
+}
+
+describe("host routing", () => {
+    const router = hostRouter("tunnels.example.internal");
+
+    test("takes the one label in front of the base domain", () => {
+        expect(match(router, "http://abc123.tunnels.example.internal/a/b?c=d"))
+            .toEqual({ subdomain: "abc123", path: "/a/b?c=d" });
+        expect(match(router, "http://ABC123.Tunnels.Example.Internal:8080/")?.subdomain).toBe("abc123");
+    });
+
+    test("prefers the Host header to the URL", () => {
+        expect(match(router, "http://127.0.0.1:4000/", { host: "abc.tunnels.example.internal:4000" })?.subdomain).toBe("abc");
+    });
+
+    test("ignores the base domain itself, other domains and nested subdomains", () => {
+        for (const url of ["http://tunnels.example.internal/", "http://abc.example.internal/", "http://a.b.tunnels.example.internal/", "http://abctunnels.example.internal/"]) {
+            expect(match(router, url)).toBeNull();
+        }
+    });
+
+    test("tunnel URLs put the subdomain in front of the public host", () => {
+        expect(router.tunnelUrl("abc", new URL("https://tunnels.example.internal:8443"))).toBe("https://abc.tunnels.example.internal:8443");
+    });
+});
+
+describe("path routing", () => {
+    const router = pathRouter("/t/");
+
+    test("strips the prefix and subdomain, keeping the query", () => {
+        expect(match(router, "http://tunnel.dev/t/ABC/a/b?c=d")).toEqual({ subdomain: "abc", path: "/a/b?c=d" });
+        expect(match(router, "http://tunnel.dev/t/abc")).toEqual({ subdomain: "abc", path: "/" });
+        expect(match(router, "http://tunnel.dev/t/abc?x=1")).toEqual({ subdomain: "abc", path: "/?x=1" });
+    });
+
+    test("ignores paths outside the prefix or without a subdomain", () => {
+        for (const url of ["http://tunnel.dev/", "http://tunnel.dev/t", "http://tunnel.dev/t/", "http://tunnel.dev/t//a", "http://tunnel.dev/tx/abc"]) {
+            expect(match(router, url)).toBeNull();
+        }
+    });
+
+    test("tunnel URLs end in a slash under the prefix, however it's written", () => {
+        const publicUrl = new URL("https://tunnel.dev/ignored");
+        expect(router.tunnelUrl("abc", publicUrl)).toBe("https://tunnel.dev/t/abc/");
+        expect(pathRouter("tunnels").tunnelUrl("abc", publicUrl)).toBe("https://tunnel.dev/tunnels/abc/");
+    });
+});
+
+describe("header routing", () => {
+    const router = headerRouter("X-Bunnel-Tunnel");
+
+    test("takes the subdomain from the header and asks for the header to be dropped", () => {
+        expect(match(router, "http://anything.example/a?b", { "x-bunnel-tunnel": " ABC " }))
+            .toEqual({ subdomain: "abc", path: "/a?b", routingHeaders: ["x-bunnel-tunnel"] });
+    });
+
+    test("ignores requests without the header", () => {
+        expect(match(router, "http://anything.example/")).toBeNull();
+        expect(match(router, "http://anything.example/", { "x-bunnel-tunnel": "  " })).toBeNull();
+    });
+
+    test("every tunnel shares the public origin", () => {
+        expect(router.tunnelUrl("abc", new URL("https://tunnel.dev/path"))).toBe("https://tunnel.dev");
+    });
+});
+
+describe("forwarding", () => {
+    const TUNNEL_PORT = 4813;
+
+    const tunnelServer = new TunnelServer({
+        tunnelPort: TUNNEL_PORT,
+        routing: ["header", "path"],
+        tunnelHeader: "X-Route-To"
+    });
+    let local: Server;
+    let client: TunnelClient;
+    let tunnelUrl: string;
+
+    beforeAll(async () => {
+        tunnelServer.start();
+        local = Bun.serve({
+            port: 0,
+            fetch(req) {
+                return Response.json({ path: new URL(req.url).pathname, headers: Object.fromEntries(req.headers) });
+            }
+        });
+        client = new TunnelClient({
+            localServerUrl: `http://localhost:${local.port}`,
+            tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+            subdomain: "routed",
+            reconnect: false
+        });
+        tunnelUrl = (await client.connect()).tunnelUrl;
+    });
+
+    afterAll(() => {
+        client.disconnect();
+        local.stop(true);
+        tunnelServer.stop();
+    });
+
+    test("the first router decides the tunnel URL", () => {
+        expect(tunnelUrl).toBe(`http://localhost:${TUNNEL_PORT}`);
+    });
+
+    test("the routing header doesn't reach the local server", async () => {
+        const response = await fetch(`http://localhost:${TUNNEL_PORT}/page`, { headers: { "x-route-to": "routed", "x-other": "kept" } });
+        const seen = await response.json();
+        expect(seen.path).toBe("/page");
+        expect(seen.headers["x-route-to"]).toBeUndefined();
+        expect(seen.headers["x-other"]).toBe("kept");
+    });
+
+    test("later routers are tried when the first doesn't match", async () => {
+        const response = await fetch(`http://localhost:${TUNNEL_PORT}/t/routed/page`);
+        expect((await response.json()).path).toBe("/page");
+    });
+});
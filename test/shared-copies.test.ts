@@ -0,0 +1,17 @@
+/**
+ * The wire protocol is copied into both packages, which are published
+ * separately. Both ends have to agree on it byte for byte.
+ * Run with: bun test test/shared-copies.test.ts
+ */
+import { expect, test } from "bun:test";
+import { readFileSync } from "node:fs";
+
+const SHARED = ["protocol.ts", "mux.ts"];
+
+for (const file of SHARED) {
+    test(`${file} is the same in the server and the client`, () => {
+        const server = readFileSync(new URL(`../packages/bunnel-server/src/server/${file}`, import.meta.url), "utf8");
+        const client = readFileSync(new URL(`../packages/bunnel/src/client/${file}`, import.meta.url), "utf8");
+        expect(client).toBe(server);
+    });
+}
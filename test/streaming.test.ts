@@ -0,0 +1,114 @@
+/**
+ * Tests for event streams and other long responses reaching visitors as they're written.
+ * Run with: bun test test/streaming.test.ts
+ */
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import type { Server, Socket } from "bun";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+const TUNNEL_PORT = 4827;
+
+// Bun.serve closes connections that have been quiet for this long by default,
+// give or take the few seconds between its checks
+const BUN_IDLE_TIMEOUT = 10_000;
+
+const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"] });
+let local: Server;
+let client: TunnelClient;
+let events: ReadableStreamDefaultController<Uint8Array> | undefined;  // The event stream being written
+
+async function waitFor(condition: () => boolean, timeout = 3000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error("Timed out waiting");
+        await Bun.sleep(10);
+    }
+}
+
+/**
+ * Visitor reading the event stream off a raw connection, as Bun's fetch loses
+ * chunks of a response still being written that arrive before they're read
+ */
+async function openEvents(): Promise<{ socket: Socket; received: () => string }> {
+    events = undefined;
+    let received = "";
+    const socket = await Bun.connect({
+        hostname: "localhost",
+        port: TUNNEL_PORT,
+        socket: {
+            data: (_socket, data) => { received += Buffer.from(data).toString(); }
+        }
+    });
+    socket.write(`GET /events HTTP/1.1\r\nHost: localhost:${TUNNEL_PORT}\r\nX-Bunnel-Tunnel: streaming\r\n\r\n`);
+    await waitFor(() => received.includes(": connected\n\n"));
+    return { socket, received: () => received };
+}
+
+function send(event: string): void {
+    events!.enqueue(new TextEncoder().encode(event));
+}
+
+beforeAll(async () => {
+    tunnelServer.start();
+    local = Bun.serve({
+        port: 0,
+        idleTimeout: 0,
+        fetch(req) {
+            if (new URL(req.url).pathname === "/events") {
+                return new Response(new ReadableStream<Uint8Array>({
+                    // Bun.serve sends the head along with the first chunk
+                    start(controller) {
+                        controller.enqueue(new TextEncoder().encode(": connected\n\n"));
+                        events = controller;
+                    }
+                }), { headers: { "content-type": "text/event-stream", "cache-control": "no-cache" } });
+            }
+            return new Response("ok");
+        }
+    });
+    client = new TunnelClient({
+        localServerUrl: `http://localhost:${local.port}`,
+        tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+        subdomain: "streaming",
+        reconnect: false
+    });
+    await client.connect();
+});
+
+afterAll(() => {
+    client.disconnect();
+    local.stop(true);
+    tunnelServer.stop();
+});
+
+test("events reach the visitor one by one, before the stream ends", async () => {
+    const { socket, received } = await openEvents();
+    const head = received().split("\r\n\r\n")[0].toLowerCase();
+    expect(head).toStartWith("http/1.1 200");
+    expect(head).toContain("content-type: text/event-stream");
+
+    for (const event of ["data: building\n\n", "data: reloading\n\n", "event: done\ndata: {}\n\n"]) {
+        send(event);
+        await waitFor(() => received().includes(event));
+    }
+    events!.close();
+    await waitFor(() => received().endsWith("0\r\n\r\n"));
+    socket.end();
+});
+
+test("a stream quiet for longer than Bun's idle timeout stays open", async () => {
+    const { socket, received } = await openEvents();
+    await Bun.sleep(BUN_IDLE_TIMEOUT + 5000);
+    send("data: still here\n\n");
+    await waitFor(() => received().includes("data: still here\n\n"));
+    events!.close();
+    await waitFor(() => received().endsWith("0\r\n\r\n"));
+    socket.end();
+}, BUN_IDLE_TIMEOUT + 10_000);
+
+test("the tunnel carries on once its streams have ended", async () => {
+    const response = await fetch(`http://localhost:${TUNNEL_PORT}/`, { headers: { "x-bunnel-tunnel": "streaming" } });
+    expect(await response.text()).toBe("ok");
+    expect(tunnelServer["tunnels"].get("streaming")!.pendingRequests.size).toBe(0);
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for clients asking for a subdomain of their own.
+ * Run with: bun test test/subdomain.test.ts
+ */
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { connect } from "node:net";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+const TUNNEL_PORT = 4818;
+const RECONNECT_GRACE = 300;
+
+const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"], reconnectGrace: RECONNECT_GRACE });
+let local: Server;
+const clients: TunnelClient[] = [];
+
+function startClient(subdomain?: string): TunnelClient {
+    const client = new TunnelClient({
+        localServerUrl: `http://localhost:${local.port}`,
+        tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+        subdomain,
+        reconnect: false
+    });
+    clients.push(client);
+    return client;
+}
+
+/**
+ * Ask for a subdomain with a raw control upgrade, as the ws shim under Bun
+ * doesn't report the response to a refused one
+ * @returns The status and the error body the server refused it with
+ */
+function refusal(subdomain: string): Promise<{ status: number; error: string }> {
+    return new Promise((resolve, reject) => {
+        const socket = connect(TUNNEL_PORT, "localhost", () => {
+            socket.write([
+                "GET / HTTP/1.1",
+                `Host: localhost:${TUNNEL_PORT}`,
+                "Upgrade: websocket",
+                "Connection: Upgrade",
+                "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                "Sec-WebSocket-Version: 13",
+                `X-Bunnel-Subdomain: ${subdomain}`,
+                "", ""
+            ].join("\r\n"));
+        });
+        let received = "";
+        socket.on("data", data => {
+            received += data.toString();
+            const [head, body] = received.split("\r\n\r\n");
+            try {
+                resolve({ status: Number(head.split(" ")[1]), error: JSON.parse(body).error });
+                socket.destroy();
+            } catch {
+                // Wait for the rest of the body
+            }
+        });
+        socket.once("error", reject);
+    });
+}
+
+beforeAll(() => {
+    tunnelServer.start();
+    local = Bun.serve({ port: 0, fetch: () => new Response("ok") });
+});
+
+afterAll(() => {
+    for (const client of clients) {
+        client.disconnect();
+    }
+    local.stop(true);
+    tunnelServer.stop();
+});
+
+test("the requested subdomain is the one handed out", async () => {
+    const info = await startClient("my-app").connect();
+    expect(info.subdomain).toBe("my-app");
+
+    const response = await fetch(`http://localhost:${TUNNEL_PORT}/`, { headers: { "x-bunnel-tunnel": "my-app" } });
+    expect(await response.text()).toBe("ok");
+});
+
+test("requested subdomains are lowercased", async () => {
+    expect((await startClient("Shouty-App").connect()).subdomain).toBe("shouty-app");
+});
+
+test("a subdomain another tunnel holds is refused", async () => {
+    await startClient("popular").connect();
+    expect(await refusal("popular")).toEqual({ status: 409, error: "subdomain_taken" });
+    expect(await refusal("POPULAR")).toEqual({ status: 409, error: "subdomain_taken" });
+});
+
+test("names that can't be a DNS label are refused", async () => {
+    for (const subdomain of ["-leading", "trailing-", "under_score", "dots.in.it", "x".repeat(64), "spa%20ce"]) {
+        expect(await refusal(subdomain)).toEqual({ status: 400, error: "invalid_subdomain" });
+    }
+    expect((await startClient("x".repeat(63)).connect()).subdomain).toBe("x".repeat(63));
+    expect((await startClient("7").connect()).subdomain).toBe("7");
+});
+
+test("a subdomain is held for its tunnel to come back, then freed", async () => {
+    const first = startClient("short-lived");
+    await first.connect();
+    first.disconnect();
+    await Bun.sleep(50);
+    expect(await refusal("short-lived")).toEqual({ status: 409, error: "subdomain_taken" });
+
+    await Bun.sleep(RECONNECT_GRACE);
+    expect((await startClient("short-lived").connect()).subdomain).toBe("short-lived");
+});
+
+test("without a request the server picks a random subdomain", async () => {
+    const [a, b] = await Promise.all([startClient().connect(), startClient().connect()]);
+    expect(a.subdomain).toMatch(/^[a-z0-9]+$/);
+    expect(a.subdomain).not.toBe(b.subdomain);
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for several local servers behind one tunnel, by subdomain or path prefix.
+ * Run with: bun test test/targets.test.ts
+ */
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { connect } from "node:net";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+import type { ConnectionInfo } from "../packages/bunnel/src/client/index";
+
+const TUNNEL_PORT = 4823;
+
+const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"] });
+const locals: Record<string, Server> = {};
+let client: TunnelClient;
+let info: ConnectionInfo;
+
+/**
+ * Local server that answers with its name and the path it was asked for
+ */
+function namedServer(name: string): Server {
+    return Bun.serve({ port: 0, fetch: req => new Response(`${name} ${new URL(req.url).pathname}`) });
+}
+
+function tunnelFetch(tunnel: string, path: string): Promise<string> {
+    return fetch(`http://localhost:${TUNNEL_PORT}${path}`, { headers: { "x-bunnel-tunnel": tunnel } }).then(response => response.text());
+}
+
+/**
+ * Ask for a subdomain and named targets with a raw control upgrade, as the ws
+ * shim under Bun doesn't report the response to a refused one
+ * @returns The status and the error body the server refused it with
+ */
+function refusal(subdomain: string, targets: string): Promise<{ status: number; error: string }> {
+    return new Promise((resolve, reject) => {
+        const socket = connect(TUNNEL_PORT, "localhost", () => {
+            socket.write([
+                "GET / HTTP/1.1",
+                `Host: localhost:${TUNNEL_PORT}`,
+                "Upgrade: websocket",
+                "Connection: Upgrade",
+                "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                "Sec-WebSocket-Version: 13",
+                `X-Bunnel-Subdomain: ${subdomain}`,
+                `X-Bunnel-Targets: ${targets}`,
+                "", ""
+            ].join("\r\n"));
+        });
+        let received = "";
+        socket.on("data", data => {
+            received += data.toString();
+            const [head, body] = received.split("\r\n\r\n");
+            try {
+                resolve({ status: Number(head.split(" ")[1]), error: JSON.parse(body).error });
+                socket.destroy();
+            } catch {
+                // Wait for the rest of the body
+            }
+        });
+        socket.once("error", reject);
+    });
+}
+
+beforeAll(async () => {
+    tunnelServer.start();
+    for (const name of ["frontend", "api", "auth", "docs"]) {
+        locals[name] = namedServer(name);
+    }
+    client = new TunnelClient({
+        localServerUrl: `http://localhost:${locals.frontend.port}`,
+        tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+        subdomain: "stack",
+        targets: [
+            { name: "API", url: `http://localhost:${locals.api.port}` },
+            { pathPrefix: "/auth/", url: `http://localhost:${locals.auth.port}` },
+            { pathPrefix: "/auth/docs", url: `http://localhost:${locals.docs.port}` }
+        ],
+        reconnect: false
+    });
+    info = await client.connect();
+});
+
+afterAll(() => {
+    client.disconnect();
+    for (const local of Object.values(locals)) {
+        local.stop(true);
+    }
+    tunnelServer.stop();
+});
+
+test("a named target gets a subdomain of its own", async () => {
+    expect(Object.keys(info.targets)).toEqual(["api"]);
+    expect(await tunnelFetch("api-stack", "/users")).toBe("api /users");
+    expect(await tunnelFetch("stack", "/users")).toBe("frontend /users");
+});
+
+test("path prefixes go to their target, the longest first, with the path unchanged", async () => {
+    expect(await tunnelFetch("stack", "/auth")).toBe("auth /auth");
+    expect(await tunnelFetch("stack", "/auth/login?next=/")).toBe("auth /auth/login");
+    expect(await tunnelFetch("stack", "/auth/docs/intro")).toBe("docs /auth/docs/intro");
+    expect(await tunnelFetch("stack", "/authors")).toBe("frontend /authors");
+    expect(await tunnelFetch("stack", "/")).toBe("frontend /");
+});
+
+test("a target's subdomain is held like any other, and a target can't claim one that's held", async () => {
+    expect(await refusal("api-stack", "")).toEqual({ status: 409, error: "subdomain_taken" });
+
+    const other = new TunnelClient({
+        localServerUrl: `http://localhost:${locals.frontend.port}`,
+        tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+        subdomain: "api-users",
+        reconnect: false
+    });
+    await other.connect();
+    expect(await refusal("users", "api")).toEqual({ status: 409, error: "subdomain_taken" });
+    other.disconnect();
+});
+
+test("target names that can't be part of a DNS label, or are repeated, are refused", async () => {
+    for (const targets of ["bad_name", "-api", "api,API", "x".repeat(60)]) {
+        expect(await refusal("other", targets)).toEqual({ status: 400, error: "invalid_target" });
+    }
+});
+
+test("targets need exactly one of a name and a path prefix, and unique names", () => {
+    const options = { localServerUrl: "http://localhost:1", tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}` };
+    expect(() => new TunnelClient({ ...options, targets: [{ url: "http://localhost:2" }] })).toThrow("needs either a name or a path prefix");
+    expect(() => new TunnelClient({ ...options, targets: [{ url: "http://localhost:2", name: "a", pathPrefix: "/a" }] })).toThrow("needs either a name or a path prefix");
+    expect(() => new TunnelClient({
+        ...options,
+        targets: [{ url: "http://localhost:2", name: "api" }, { url: "http://localhost:3", name: "API" }]
+    })).toThrow("Duplicate local target name");
+});
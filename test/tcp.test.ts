@@ -0,0 +1,257 @@
+/**
+ * Tests for raw TCP connections forwarded from server ports to local services.
+ * Run with: bun test test/tcp.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server, Socket, TCPSocketListener } from "bun";
+import { createHash } from "node:crypto";
+import { connect } from "node:net";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+const TUNNEL_PORT = 4824;
+const TCP_PORTS = { from: 4840, to: 4842 };
+
+const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"], tcpPorts: TCP_PORTS });
+let local: Server;
+let echo: TCPSocketListener;
+let client: TunnelClient;
+let forwards: Record<string, string>;
+let localClosed = 0;
+
+const sha256 = (data: Uint8Array) => createHash("sha256").update(data).digest("hex");
+
+function portOf(forward: string): number {
+    return Number(forwards[forward].split(":").pop());
+}
+
+/**
+ * Visitor connection, with Bun's own sockets as its node:net loses writes made
+ * just before ending
+ */
+interface Visitor {
+    socket: Socket;
+    received: () => Buffer;
+    closed: Promise<Buffer>;  // Everything received, once the other side has closed
+}
+
+async function open(port: number): Promise<Visitor> {
+    const chunks: Buffer[] = [];
+    let onClose!: () => void;
+    const closed = new Promise<void>(resolve => { onClose = resolve; });
+    const socket = await Bun.connect({
+        hostname: "localhost",
+        port,
+        socket: {
+            data: (_socket, data) => { chunks.push(Buffer.from(data)); },
+            close: () => onClose(),
+            error: () => onClose()
+        }
+    });
+    return { socket, received: () => Buffer.concat(chunks), closed: closed.then(() => Buffer.concat(chunks)) };
+}
+
+async function waitFor(condition: () => boolean, timeout = 5000): Promise<void> {
+    const deadline = Date.now() + timeout;
+    while (!condition()) {
+        if (Date.now() > deadline) throw new Error("Timed out waiting");
+        await Bun.sleep(10);
+    }
+}
+
+/**
+ * Raw control upgrade asking for TCP forwards, as the ws shim under Bun
+ * doesn't report the response to a refused one
+ * @returns The status and the error body the server refused it with
+ */
+function refusal(tcp: string): Promise<{ status: number; error: string }> {
+    return new Promise((resolve, reject) => {
+        const socket = connect(TUNNEL_PORT, "localhost", () => {
+            socket.write([
+                "GET / HTTP/1.1",
+                `Host: localhost:${TUNNEL_PORT}`,
+                "Upgrade: websocket",
+                "Connection: Upgrade",
+                "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                "Sec-WebSocket-Version: 13",
+                `X-Bunnel-Tcp: ${tcp}`,
+                "", ""
+            ].join("\r\n"));
+        });
+        let received = "";
+        socket.on("data", data => {
+            received += data.toString();
+            const [head, body] = received.split("\r\n\r\n");
+            try {
+                resolve({ status: Number(head.split(" ")[1]), error: JSON.parse(body).error });
+                socket.destroy();
+            } catch {
+                // Wait for the rest of the body
+            }
+        });
+        socket.once("error", reject);
+    });
+}
+
+beforeAll(async () => {
+    tunnelServer.start();
+    local = Bun.serve({ port: 0, fetch: () => new Response("ok") });
+
+    // Echoes what it gets, and says goodbye and hangs up once it's sent "quit".
+    // Bun's sockets write what they can, so the rest waits for a drain.
+    type EchoSocket = Socket<{ queued: Buffer; received: string; ending: boolean }>;
+    const flush = (socket: EchoSocket) => {
+        const state = socket.data;
+        state.queued = state.queued.subarray(socket.write(state.queued));
+        if (state.ending && state.queued.length === 0) {
+            socket.end();
+        }
+    };
+    echo = Bun.listen<EchoSocket["data"]>({
+        hostname: "localhost",
+        port: 0,
+        socket: {
+            open(socket) {
+                socket.data = { queued: Buffer.alloc(0), received: "", ending: false };
+            },
+            data(socket, data) {
+                const state = socket.data;
+                state.queued = Buffer.concat([state.queued, data]);
+                state.received = (state.received + Buffer.from(data).toString("latin1")).slice(-4);
+                if (state.received === "quit") {
+                    state.ending = true;
+                    state.queued = Buffer.concat([state.queued.subarray(0, state.queued.length - 4), Buffer.from("bye")]);
+                }
+                flush(socket);
+            },
+            drain: flush,
+            close() {
+                localClosed++;
+            }
+        }
+    });
+
+    // A port nothing listens on, for a service that's down
+    const closed = Bun.listen({ hostname: "localhost", port: 0, socket: { data() {} } });
+    const closedPort = closed.port;
+    closed.stop(true);
+
+    client = new TunnelClient({
+        localServerUrl: `http://localhost:${local.port}`,
+        tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+        tcp: [
+            { name: "echo", host: "localhost", port: echo.port, remotePort: TCP_PORTS.to },
+            { name: "down", host: "localhost", port: closedPort }
+        ],
+        reconnect: false
+    });
+    forwards = (await client.connect()).tcp;
+});
+
+afterAll(() => {
+    client.disconnect();
+    echo.stop(true);
+    local.stop(true);
+    tunnelServer.stop();
+});
+
+describe("forwarding", () => {
+    test("listens on the requested port, or any free one in the range", () => {
+        expect(portOf("echo")).toBe(TCP_PORTS.to);
+        expect(portOf("down")).toBeGreaterThanOrEqual(TCP_PORTS.from);
+        expect(portOf("down")).toBeLessThan(TCP_PORTS.to);
+    });
+
+    test("bytes make the round trip, and the local service hanging up reaches the visitor", async () => {
+        const visitor = await open(portOf("echo"));
+        const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+        visitor.socket.write(bytes);
+        await waitFor(() => visitor.received().length === 256);
+        expect([...visitor.received()]).toEqual([...bytes]);
+
+        visitor.socket.write("quit");
+        expect((await visitor.closed).subarray(256).toString()).toBe("bye");
+    });
+
+    test("the visitor hanging up reaches the local service", async () => {
+        const visitor = await open(portOf("echo"));
+        visitor.socket.write("hello");
+        await waitFor(() => visitor.received().length === 5);
+        const before = localClosed;
+        visitor.socket.end();
+        await waitFor(() => localClosed === before + 1);
+    });
+
+    test("more than a window's worth of data survives backpressure on both sides", async () => {
+        const upload = Uint8Array.from({ length: 4 * 1024 * 1024 }, (_, i) => (i * 31) % 251);
+        const visitor = await open(portOf("echo"));
+        let offset = 0;
+        const writeMore = () => {
+            while (offset < upload.length) {
+                const written = visitor.socket.write(upload.subarray(offset));
+                offset += written;
+                if (written === 0) return setTimeout(writeMore, 5);
+            }
+        };
+        writeMore();
+        await waitFor(() => visitor.received().length === upload.length, 20_000);
+        expect(sha256(visitor.received())).toBe(sha256(upload));
+        visitor.socket.end();
+    });
+
+    test("connections at once are kept apart", async () => {
+        const visitors = await Promise.all([0, 1, 2].map(() => open(portOf("echo"))));
+        visitors.forEach((visitor, i) => visitor.socket.write(`stream ${i} `.repeat(1000) + "quit"));
+        const received = await Promise.all(visitors.map(visitor => visitor.closed));
+        received.forEach((data, i) => expect(data.toString()).toBe(`${`stream ${i} `.repeat(1000)}bye`));
+    });
+
+    test("a local service that can't be reached closes the connection", async () => {
+        const visitor = await open(portOf("down"));
+        expect((await visitor.closed).length).toBe(0);
+    });
+});
+
+describe("refusals", () => {
+    test("a port outside the range, or no port left in it", async () => {
+        expect(await refusal("db=5432")).toEqual({ status: 403, error: "tcp_unavailable" });
+        expect(await refusal("a=0,b=0")).toEqual({ status: 409, error: "port_taken" });
+    });
+
+    test("a port already forwarded", async () => {
+        expect(await refusal(`db=${TCP_PORTS.to}`)).toEqual({ status: 409, error: "port_taken" });
+    });
+
+    test("names and ports that don't parse, or repeated names", async () => {
+        for (const tcp of ["db", "db=abc", "db=70000", "bad_name=0", "db=0,DB=0"]) {
+            expect(await refusal(tcp)).toEqual({ status: 400, error: "invalid_tcp_forward" });
+        }
+    });
+
+    test("forwarding on a server that doesn't allow it", async () => {
+        const disabled = new TunnelServer({ tunnelPort: TUNNEL_PORT + 1 });
+        disabled.start();
+        const response = await new Promise<string>((resolve, reject) => {
+            const socket = connect(TUNNEL_PORT + 1, "localhost", () => {
+                socket.write([
+                    "GET / HTTP/1.1",
+                    `Host: localhost:${TUNNEL_PORT + 1}`,
+                    "Upgrade: websocket",
+                    "Connection: Upgrade",
+                    "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                    "Sec-WebSocket-Version: 13",
+                    "X-Bunnel-Tcp: db=0",
+                    "", ""
+                ].join("\r\n"));
+            });
+            socket.once("data", data => {
+                resolve(data.toString());
+                socket.destroy();
+            });
+            socket.once("error", reject);
+        });
+        disabled.stop();
+        expect(response).toStartWith("HTTP/1.1 403");
+        expect(response).toContain("tcp_unavailable");
+    });
+});
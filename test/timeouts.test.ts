@@ -0,0 +1,169 @@
+/**
+ * Tests for request timeouts set by the server and per path by the client.
+ * Run with: bun test test/timeouts.test.ts
+ */
+import { afterAll, beforeAll, expect, test } from "bun:test";
+import type { Server } from "bun";
+import { connect } from "node:net";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+const TUNNEL_PORT = 4826;
+const DEFAULT_TIMEOUT = 200;
+const MAX_TIMEOUT = 600;
+
+const tunnelServer = new TunnelServer({
+    tunnelPort: TUNNEL_PORT,
+    routing: ["header"],
+    requestTimeout: DEFAULT_TIMEOUT,
+    maxRequestTimeout: MAX_TIMEOUT
+});
+let local: Server;
+let client: TunnelClient;
+
+async function timed(path: string): Promise<{ response: Response; elapsed: number }> {
+    const startedAt = Date.now();
+    const response = await fetch(`http://localhost:${TUNNEL_PORT}${path}`, { headers: { "x-bunnel-tunnel": "timeouts" } });
+    return { response, elapsed: Date.now() - startedAt };
+}
+
+/**
+ * Control connection asking for request timeouts, with Bun's own WebSocket as
+ * the ws shim can't send headers of our choosing
+ * @returns The timeouts the server says it enforces
+ */
+function enforcedTimeouts(timeouts: string): Promise<Record<string, number>> {
+    return new Promise((resolve, reject) => {
+        const ws = new WebSocket(`ws://localhost:${TUNNEL_PORT}`, { headers: { "x-bunnel-timeouts": timeouts } });
+        ws.onmessage = event => {
+            resolve(JSON.parse(String(event.data)).timeouts);
+            ws.close();
+        };
+        ws.onerror = () => reject(new Error("Control connection failed"));
+    });
+}
+
+/**
+ * Raw control upgrade asking for request timeouts, as the ws shim under Bun
+ * doesn't report the response to a refused one
+ * @returns The status and the error body the server refused it with
+ */
+function refusal(timeouts: string): Promise<{ status: number; error: string }> {
+    return new Promise((resolve, reject) => {
+        const socket = connect(TUNNEL_PORT, "localhost", () => {
+            socket.write([
+                "GET / HTTP/1.1",
+                `Host: localhost:${TUNNEL_PORT}`,
+                "Upgrade: websocket",
+                "Connection: Upgrade",
+                "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                "Sec-WebSocket-Version: 13",
+                `X-Bunnel-Timeouts: ${timeouts}`,
+                "", ""
+            ].join("\r\n"));
+        });
+        let received = "";
+        socket.on("data", data => {
+            received += data.toString();
+            const [head, body] = received.split("\r\n\r\n");
+            try {
+                resolve({ status: Number(head.split(" ")[1]), error: JSON.parse(body).error });
+                socket.destroy();
+            } catch {
+                // Wait for the rest of the body
+            }
+        });
+        socket.once("error", reject);
+    });
+}
+
+beforeAll(async () => {
+    tunnelServer.start();
+    local = Bun.serve({
+        port: 0,
+        idleTimeout: 0,
+        async fetch(req) {
+            const path = new URL(req.url).pathname;
+            if (path === "/") return new Response("ok");
+            // Answers later than the server's default allows
+            const delay = Number(new URL(req.url).searchParams.get("delay"));
+            if (delay) {
+                await Bun.sleep(delay);
+                return new Response("late but fine");
+            }
+            return new Promise<Response>(() => {});
+        }
+    });
+    client = new TunnelClient({
+        localServerUrl: `http://localhost:${local.port}`,
+        tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+        subdomain: "timeouts",
+        timeouts: [
+            { path: "/health", timeout: 50 },
+            { path: "/reports/*", timeout: 400 },
+            { path: "/llm/*", timeout: 60_000 }
+        ],
+        reconnect: false
+    });
+    await client.connect();
+});
+
+afterAll(() => {
+    client.disconnect();
+    local.stop(true);
+    tunnelServer.stop();
+});
+
+test("paths without a timeout of their own get the server's default", async () => {
+    const { response, elapsed } = await timed("/other");
+    expect(response.status).toBe(504);
+    expect(response.headers.get("x-bunnel-timeout")).toBe("default");
+    expect(await response.text()).toContain("within 0.2s, the tunnel server's default timeout");
+    expect(elapsed).toBeGreaterThanOrEqual(DEFAULT_TIMEOUT - 10);
+});
+
+test("a path's own timeout can be shorter or longer than the default", async () => {
+    const health = await timed("/health");
+    expect(health.response.status).toBe(504);
+    expect(health.response.headers.get("x-bunnel-timeout")).toBe("route");
+    expect(health.elapsed).toBeLessThan(DEFAULT_TIMEOUT);
+
+    const report = await timed("/reports/monthly");
+    expect(report.response.headers.get("x-bunnel-timeout")).toBe("route");
+    expect(await report.response.text()).toContain("within 0.4s, the tunnel's timeout for /reports/*");
+    expect(report.elapsed).toBeGreaterThanOrEqual(400 - 10);
+
+    const late = await timed(`/reports/quick?delay=${DEFAULT_TIMEOUT + 100}`);
+    expect(late.response.status).toBe(200);
+    expect(await late.response.text()).toBe("late but fine");
+});
+
+test("a path's timeout longer than the server allows is held to its maximum", async () => {
+    const { response, elapsed } = await timed("/llm/chat");
+    expect(response.status).toBe(504);
+    expect(response.headers.get("x-bunnel-timeout")).toBe("max");
+    expect(await response.text()).toContain("the tunnel server's maximum timeout, lower than the tunnel's for /llm/*");
+    expect(elapsed).toBeGreaterThanOrEqual(MAX_TIMEOUT - 10);
+    expect(elapsed).toBeLessThan(60_000);
+});
+
+test("the server says which timeouts it enforces once they're capped", async () => {
+    expect(await enforcedTimeouts("/a=100, /b/*=900000")).toEqual({ "/a": 100, "/b/*": MAX_TIMEOUT });
+});
+
+test("timeouts that don't parse are refused", async () => {
+    for (const timeouts of ["/a", "a=100", "/a=0", "/a=-5", "/a=1.5", "/a b=100", "/a=abc"]) {
+        expect(await refusal(timeouts)).toEqual({ status: 400, error: "invalid_timeout" });
+    }
+});
+
+test("the client checks its timeouts before connecting", () => {
+    const options = { localServerUrl: "http://localhost:1", tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}` };
+    expect(() => new TunnelClient({ ...options, timeouts: [{ path: "reports", timeout: 100 }] })).toThrow("Invalid request timeout");
+    expect(() => new TunnelClient({ ...options, timeouts: [{ path: "/reports", timeout: 0 }] })).toThrow("Invalid request timeout");
+});
+
+test("the tunnel carries on after its requests time out", async () => {
+    expect(await (await timed("/")).response.text()).toBe("ok");
+    expect(tunnelServer["tunnels"].get("timeouts")!.pendingRequests.size).toBe(0);
+});
@@ -0,0 +1,160 @@
+/**
+ * Tests for serving https and wss directly, and for clients trusting self-signed servers.
+ * Needs openssl to generate the certificates.
+ * Run with: bun test test/tls.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { X509Certificate } from "node:crypto";
+import { copyFileSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { Socket } from "node:net";
+import { connect } from "node:tls";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { normalizeFingerprint, pinnedConnection } from "../packages/bunnel/src/client/tls";
+
+const dir = mkdtempSync(join(tmpdir(), "bunnel-tls-"));
+
+/**
+ * Self-signed certificate for localhost
+ * @returns Paths to the certificate and key, and the certificate's fingerprint
+ */
+function generateCertificate(name: string): { cert: string; key: string; fingerprint: string } {
+    const cert = join(dir, `${name}.crt`);
+    const key = join(dir, `${name}.key`);
+    const openssl = Bun.spawnSync([
+        "openssl", "req", "-x509", "-newkey", "rsa:2048", "-nodes",
+        "-keyout", key, "-out", cert, "-days", "1", "-subj", "/CN=localhost",
+        "-addext", "subjectAltName=DNS:localhost,IP:127.0.0.1"
+    ]);
+    if (!openssl.success) {
+        throw new Error(`openssl failed: ${openssl.stderr.toString()}`);
+    }
+    return { cert, key, fingerprint: new X509Certificate(readFileSync(cert)).fingerprint256 };
+}
+
+const first = generateCertificate("first");
+const second = generateCertificate("second");
+
+afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+});
+
+describe("fingerprints", () => {
+    const hex = "ab".repeat(32);
+    const normalized = Array(32).fill("AB").join(":");
+
+    test("are accepted in the forms tools print them", () => {
+        expect(normalizeFingerprint(normalized)).toBe(normalized);
+        expect(normalizeFingerprint(hex)).toBe(normalized);
+        expect(normalizeFingerprint(`sha256=${normalized.toLowerCase()}`)).toBe(normalized);
+        expect(normalizeFingerprint(`SHA256:${hex}`)).toBe(normalized);
+    });
+
+    test("that aren't SHA-256 are refused", () => {
+        expect(() => normalizeFingerprint("ab".repeat(20))).toThrow("Invalid SHA-256 certificate fingerprint");
+        expect(() => normalizeFingerprint("")).toThrow("Invalid SHA-256 certificate fingerprint");
+    });
+});
+
+describe("server", () => {
+    const TUNNEL_PORT = 4821;
+    const cert = join(dir, "serving.crt");
+    const key = join(dir, "serving.key");
+
+    const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"], tls: { cert, key } });
+    let control: WebSocket;
+
+    /**
+     * Open a control connection over wss. Bun's WebSocket fails the handshake
+     * when given a CA, and its ws shim whatever it's given, so this neither
+     * goes through TunnelClient nor checks the certificate, servedFingerprint() does.
+     */
+    function openControl(): Promise<WebSocket> {
+        const ws = new WebSocket(`wss://localhost:${TUNNEL_PORT}`, {
+            tls: { rejectUnauthorized: false }
+        } as unknown as string[]);
+        return new Promise((resolve, reject) => {
+            ws.onmessage = (event) => {
+                if (JSON.parse(String(event.data)).type === "connected") resolve(ws);
+            };
+            ws.onclose = (event) => reject(new Error(`Control connection closed: ${event.code}`));
+        });
+    }
+
+    /**
+     * Connect with the certificate pinned
+     * @returns The error the connection failed with, if it did
+     */
+    function pinned(fingerprint: string): Promise<Error | null> {
+        return new Promise(resolve => {
+            pinnedConnection(fingerprint)({ host: "localhost", port: TUNNEL_PORT }, (error, socket?: Socket) => {
+                socket?.destroy();
+                resolve(error);
+            });
+        });
+    }
+
+    /**
+     * @returns Fingerprint of the certificate the server is presenting now
+     */
+    function servedFingerprint(): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const socket = connect({ host: "localhost", port: TUNNEL_PORT, rejectUnauthorized: false }, () => {
+                resolve(socket.getPeerCertificate().fingerprint256);
+                socket.destroy();
+            });
+            socket.once("error", reject);
+        });
+    }
+
+    beforeAll(async () => {
+        copyFileSync(first.cert, cert);
+        copyFileSync(first.key, key);
+        tunnelServer.start();
+        control = await openControl();
+    });
+
+    afterAll(() => {
+        control.close();
+        tunnelServer.stop();
+    });
+
+    test("refuses to start with a key that isn't the certificate's", () => {
+        const mismatched = new TunnelServer({ tunnelPort: TUNNEL_PORT + 1, tls: { cert: first.cert, key: second.key } });
+        expect(() => mismatched.start()).toThrow("does not belong to the certificate");
+    });
+
+    test("takes control connections over wss and visitors over https", async () => {
+        expect(control.readyState).toBe(WebSocket.OPEN);
+        expect(await servedFingerprint()).toBe(first.fingerprint);
+        const response = await fetch(`https://localhost:${TUNNEL_PORT}/`, {
+            headers: { "x-bunnel-tunnel": "nobody" },
+            tls: { ca: readFileSync(first.cert, "utf8") }
+        } as RequestInit);
+        expect(response.status).toBe(404);
+    });
+
+    test("a pinned certificate is trusted on its own, any other isn't", async () => {
+        expect(await pinned(first.fingerprint)).toBeNull();
+        expect(await pinned(first.fingerprint.replaceAll(":", "").toLowerCase())).toBeNull();
+        expect((await pinned(second.fingerprint))?.message).toContain("does not match the pinned");
+    });
+
+    test("a renewed certificate is served without dropping tunnels", async () => {
+        copyFileSync(second.cert, cert);
+        copyFileSync(second.key, key);
+        tunnelServer["reloadTls"]({ cert, key });
+
+        expect(await servedFingerprint()).toBe(second.fingerprint);
+        expect(control.readyState).toBe(WebSocket.OPEN);
+    });
+
+    test("a renewal caught halfway, with the old key, keeps the current certificate", async () => {
+        copyFileSync(first.cert, cert);
+        tunnelServer["reloadTls"]({ cert, key });
+
+        expect(await servedFingerprint()).toBe(second.fingerprint);
+        copyFileSync(second.cert, cert);
+    });
+});
@@ -0,0 +1,171 @@
+/**
+ * Tests for visitor WebSockets proxied through a tunnel to the local server.
+ * Run with: bun test test/websocket.test.ts
+ */
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import type { Server, ServerWebSocket } from "bun";
+import { connect } from "node:net";
+import TunnelServer from "../packages/bunnel-server/src/server/server";
+import { isSendableCloseCode } from "../packages/bunnel-server/src/server/protocol";
+import { TunnelClient } from "../packages/bunnel/src/client/index";
+
+test("reserved close codes are never sent", () => {
+    for (const code of [1000, 1001, 1003, 1007, 1011, 1014, 3000, 4000, 4999]) {
+        expect(isSendableCloseCode(code)).toBe(true);
+    }
+    for (const code of [0, 999, 1004, 1005, 1006, 1015, 1016, 2999, 5000]) {
+        expect(isSendableCloseCode(code)).toBe(false);
+    }
+});
+
+describe("proxying", () => {
+    const TUNNEL_PORT = 4815;
+
+    const tunnelServer = new TunnelServer({ tunnelPort: TUNNEL_PORT, routing: ["header"] });
+    let local: Server;
+    let client: TunnelClient;
+    let upgradeHeaders: Headers | undefined;  // Handshake the local server last saw
+    const localCloses: { code: number; reason: string }[] = [];
+
+    function openVisitor(path: string): Promise<WebSocket> {
+        const ws = new WebSocket(`ws://localhost:${TUNNEL_PORT}${path}`, {
+            headers: { "x-bunnel-tunnel": "sockets", "x-visitor": "yes" }
+        } as unknown as string[]);
+        ws.binaryType = "arraybuffer";
+        return new Promise((resolve, reject) => {
+            ws.onopen = () => resolve(ws);
+            ws.onerror = () => reject(new Error("WebSocket failed to open"));
+        });
+    }
+
+    function nextMessage(ws: WebSocket): Promise<string | ArrayBuffer> {
+        return new Promise(resolve => ws.addEventListener("message", event => resolve(event.data), { once: true }));
+    }
+
+    function closed(ws: WebSocket): Promise<CloseEvent> {
+        return new Promise(resolve => ws.addEventListener("close", resolve, { once: true }));
+    }
+
+    /**
+     * Raw upgrade request, to see the head of the response to the handshake
+     * @returns The status line and headers, lowercased
+     */
+    function upgrade(path: string): Promise<string[]> {
+        return new Promise((resolve, reject) => {
+            const socket = connect(TUNNEL_PORT, "localhost", () => {
+                socket.write([
+                    `GET ${path} HTTP/1.1`,
+                    `Host: localhost:${TUNNEL_PORT}`,
+                    "Upgrade: websocket",
+                    "Connection: Upgrade",
+                    "Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==",
+                    "Sec-WebSocket-Version: 13",
+                    "X-Bunnel-Tunnel: sockets",
+                    "", ""
+                ].join("\r\n"));
+            });
+            socket.once("data", data => {
+                resolve(data.toString().split("\r\n\r\n")[0].toLowerCase().split("\r\n"));
+                socket.destroy();
+            });
+            socket.once("error", reject);
+        });
+    }
+
+    beforeAll(async () => {
+        tunnelServer.start();
+        local = Bun.serve({
+            port: 0,
+            fetch(req, server) {
+                const url = new URL(req.url);
+                if (url.pathname === "/refuse") {
+                    return new Response("no sockets here", { status: 403 });
+                }
+                if (req.headers.get("upgrade") === "websocket") {
+                    upgradeHeaders = req.headers;
+                    if (server.upgrade(req, { data: undefined })) return;
+                }
+                return new Response("ok");
+            },
+            websocket: {
+                message(ws: ServerWebSocket<undefined>, message) {
+                    if (message === "close please") {
+                        ws.close(4001, "asked to");
+                    } else {
+                        ws.send(message);
+                    }
+                },
+                close(_ws, code, reason) {
+                    localCloses.push({ code, reason });
+                }
+            }
+        });
+        client = new TunnelClient({
+            localServerUrl: `http://localhost:${local.port}`,
+            tunnelServerUrl: `ws://localhost:${TUNNEL_PORT}`,
+            subdomain: "sockets",
+            reconnect: false
+        });
+        await client.connect();
+    });
+
+    afterAll(() => {
+        client.disconnect();
+        local.stop(true);
+        tunnelServer.stop();
+    });
+
+    test("text and binary messages are echoed intact, in order", async () => {
+        const ws = await openVisitor("/echo");
+        const received: (string | ArrayBuffer)[] = [];
+        const done = new Promise<void>(resolve => {
+            ws.onmessage = (event) => {
+                received.push(event.data);
+                if (received.length === 3) resolve();
+            };
+        });
+        const binary = Uint8Array.from({ length: 256 }, (_, i) => i);
+        ws.send("héllo");
+        ws.send(binary);
+        ws.send("x".repeat(100_000));
+        await done;
+        expect(received[0]).toBe("héllo");
+        expect(new Uint8Array(received[1] as ArrayBuffer)).toEqual(binary);
+        expect(received[2]).toBe("x".repeat(100_000));
+        ws.close();
+    });
+
+    test("the handshake reaches the local server without the visitor's connection headers", async () => {
+        const ws = await openVisitor("/handshake?x=1");
+        ws.close();
+        expect(upgradeHeaders?.get("x-visitor")).toBe("yes");
+        expect(upgradeHeaders?.get("x-bunnel-tunnel")).toBeNull();
+        // The local socket's own handshake, not the visitor's alongside it
+        expect(upgradeHeaders?.get("sec-websocket-key")).not.toContain(",");
+        expect(upgradeHeaders?.get("sec-websocket-version")).toBe("13");
+    });
+
+    test("a close from the local server keeps its code and reason", async () => {
+        const ws = await openVisitor("/echo");
+        const closing = closed(ws);
+        ws.send("close please");
+        const event = await closing;
+        expect(event.code).toBe(4001);
+        expect(event.reason).toBe("asked to");
+    });
+
+    test("a close from the visitor reaches the local server", async () => {
+        const ws = await openVisitor("/echo");
+        ws.send("ping");
+        await nextMessage(ws);
+        localCloses.length = 0;
+        ws.close(4002, "visitor bye");
+        await Bun.sleep(100);
+        expect(localCloses).toEqual([{ code: 4002, reason: "visitor bye" }]);
+    });
+
+    test("a handshake the local server refuses is answered with an HTTP error", async () => {
+        expect((await upgrade("/refuse"))[0]).toBe("http/1.1 502 bad gateway");
+        expect((await upgrade("/echo"))[0]).toBe("http/1.1 101 switching protocols");
+    });
+});